@@ -1,236 +1,412 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { CityData } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { CenterRegistry, CityData, DiscoveryRunTrigger, ReviewStatus, ScanPlanAction } from './types';
 import { GithubIcon } from './components/Icons';
 import StateGroup from './components/StateGroup';
 import StorageInfo from './components/StorageInfo';
-
-const STORAGE_KEY = 'ctScanDiscovererData';
-
-// Helper function to parse CSV text
-const parseCSV = (csvText: string): CityData[] => {
-  const sanitizedText = csvText.replace(/^\uFEFF/, '');
-  const lines = sanitizedText.split(/\r?\n/).map(line => line.replace(/\uFEFF/g, '').trim()).filter(line => line);
-  if (lines.length < 2) return [];
-
-  const header = lines[0].split(',').map(h => h.trim().toLowerCase());
-  const pincodeIndex = header.indexOf('pincode');
-  const districtIndex = header.indexOf('district');
-  const populationIndex = header.indexOf('population');
-  const stateIndex = header.indexOf('statename');
-
-  if (pincodeIndex === -1 || districtIndex === -1 || populationIndex === -1 || stateIndex === -1) {
-    console.error("CSV header is missing one of 'pincode', 'district', 'statename', 'population'");
-    return [];
+import QueueStatus from './components/QueueStatus';
+import TelemetryPanel from './components/TelemetryPanel';
+import ResultsBrowser from './components/ResultsBrowser';
+import CoverageMap from './components/CoverageMap';
+import CoveragePanel from './components/CoveragePanel';
+import CostPanel from './components/CostPanel';
+import PromptConfigPanel from './components/PromptConfigPanel';
+import ExportButtons from './components/ExportButtons';
+import CsvImportDialog from './components/CsvImportDialog';
+import ProjectImportDialog, { ProjectImportMode } from './components/ProjectImportDialog';
+import { DiscoveryProviderId, subscribeToGroundingResponses } from './services/discoveryProvider';
+import { registerCenterSightings } from './services/centerRegistry';
+import { CenterEdits, editCenterFields, setCenterReview } from './services/centerReview';
+import { CsvTable, parseCSV, readCsvTable } from './services/csvImport';
+import { joinPostalDirectory, parsePostalDirectory } from './services/postalDirectory';
+import { groupCitiesByState, mergeAdditionalCities, mergeProjectCities, updateCityInGroups } from './services/cityData';
+import {
+  BudgetSettings,
+  PriceTable,
+  getBudgetSpend,
+  isBudgetExceeded,
+  loadBudgetSettings,
+  loadPriceTable,
+  saveBudgetSettings,
+  savePriceTable,
+  summarizeCosts,
+} from './services/costAccounting';
+import { DiscoveryQueue, createDiscoveryQueue } from './services/discoveryQueue';
+import {
+  buildJobsForCity,
+  createDiscoveryJobHandlers,
+  prepareCityForDiscovery,
+  prepareCityForPincodes,
+  releaseCityFromQueue,
+  shouldRestartCity,
+} from './services/discoveryRunner';
+import { completeRun, isRescanDue, startRun } from './services/discoveryRuns';
+import {
+  ScanPlanSettings,
+  applyScanPlan,
+  listReleasedQueuedCodes,
+  loadScanPlanSettings,
+  overrideScanPlanGroup,
+  planCityScan,
+  saveScanPlanSettings,
+  setScanPlanThreshold,
+} from './services/scanPlanner';
+import { GeminiCallTelemetry, clearGeminiTelemetry, subscribeToGeminiTelemetry } from './services/geminiService';
+import {
+  appendTelemetry,
+  clearProject,
+  clearTelemetry,
+  createIncrementalWriter,
+  importTelemetry,
+  loadProject,
+  listGroundingResponsePincodes,
+  loadGroundingResponse,
+  loadTelemetry,
+  saveGroundingResponse,
+} from './services/persistence';
+import { downloadFile } from './services/fileDownload';
+import { ResultsExportFormat, downloadResults } from './services/resultsExport';
+import {
+  ProjectBundle,
+  createProjectBundle,
+  mergeBundleCenters,
+  parseProjectBundle,
+  summarizeProjectBundle,
+} from './services/projectBundle';
+import { getDiscoveryProvider, listDiscoveryProviders, loadSelectedProviderId, saveSelectedProviderId } from './services/providerRegistry';
+import { PromptConfigLibrary, getActivePromptConfig, loadPromptLibrary, savePromptLibrary } from './services/promptConfig';
+
+// How often districts with a re-scan schedule are checked; schedules are in days, so this need not be tight.
+const RESCAN_CHECK_INTERVAL_MS = 60 * 1000;
+
+const loadDefaultCities = async () => {
+  const response = await fetch('/Selected_centers.csv');
+  if (!response.ok) {
+    throw new Error('Network response was not ok');
   }
+  const csvText = await response.text();
+  return groupCitiesByState(parseCSV(csvText));
+};
 
-  const cityMap = new Map<string, { population: number; pincodes: Set<string>; stateName: string }>();
-
-  for (let i = 1; i < lines.length; i++) {
-      const parts = lines[i].split(',').map(item => item.trim());
-      if (parts.length <= Math.max(pincodeIndex, districtIndex, populationIndex, stateIndex)) continue;
-
-      const pincode = parts[pincodeIndex];
-      const district = parts[districtIndex];
-      const populationStr = parts[populationIndex];
-      const stateName = parts[stateIndex];
-
-      if (!pincode || !district || !populationStr || !stateName) continue;
-
-      const population = parseInt(populationStr.replace(/,/g, ''), 10);
-      if (isNaN(population)) continue;
-
-      if (!cityMap.has(district)) {
-          cityMap.set(district, { population, pincodes: new Set(), stateName });
-      }
-      
-      const cityInfo = cityMap.get(district)!;
-      cityInfo.pincodes.add(pincode);
-  }
-  
-  const citiesData: CityData[] = [];
-  for (const [name, data] of cityMap.entries()) {
-      if (data.pincodes.size > 0) {
-          const pincodesArray = Array.from(data.pincodes).sort();
-          citiesData.push({
-              name,
-              stateName: data.stateName,
-              population: data.population,
-              pincodes: pincodesArray.map(p => ({ code: p, status: 'pending' })),
-              status: 'idle',
-              results: [],
-              currentPincodeIndex: 0,
-              centersFound: 0,
-          });
+// Cities that were running when the page closed are put back in the queue on load.
+const restoreRunningCities = (groupedCities: Record<string, CityData[]>) => {
+  const restored: Record<string, CityData[]> = {};
+  const runningCities: CityData[] = [];
+  for (const [stateName, cities] of Object.entries(groupedCities)) {
+    restored[stateName] = cities.map(city => {
+      if (city.status === 'running') {
+        const prepared = applyScanPlan(prepareCityForDiscovery(city, false));
+        runningCities.push(prepared);
+        return prepared;
       }
+      return releaseCityFromQueue(city, city.status);
+    });
   }
-  
-  // Sort by StateName, then by District name
-  citiesData.sort((a, b) => {
-    if (a.stateName < b.stateName) return -1;
-    if (a.stateName > b.stateName) return 1;
-    if (a.name < b.name) return -1;
-    if (a.name > b.name) return 1;
-    return 0;
-  });
-
-  return citiesData;
+  return { restored, runningCities };
 };
 
-
 const App: React.FC = () => {
   const [groupedCities, setGroupedCities] = useState<Record<string, CityData[]>>({});
   const [isLoading, setIsLoading] = useState(true);
+  const [centerRegistry, setCenterRegistry] = useState<CenterRegistry>({});
+  const [providerId, setProviderId] = useState<DiscoveryProviderId>(loadSelectedProviderId);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const projectInputRef = useRef<HTMLInputElement | null>(null);
+  const postalInputRef = useRef<HTMLInputElement | null>(null);
+  const [postalImportNotice, setPostalImportNotice] = useState<string | null>(null);
+  // Set while the latest changes could not be written; the next change retries them.
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [pendingCsvImport, setPendingCsvImport] = useState<{ fileName: string; table: CsvTable } | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; bundle?: ProjectBundle; errors: string[] } | null>(null);
+  const [isApplyingImport, setIsApplyingImport] = useState(false);
+  const groupedCitiesRef = useRef(groupedCities);
+  // Matching must see every registration immediately, so the ref is the source of truth and state follows it.
+  const centerRegistryRef = useRef<CenterRegistry>({});
+  const providerRef = useRef(getDiscoveryProvider(providerId));
+  const [promptLibrary, setPromptLibrary] = useState<PromptConfigLibrary>(loadPromptLibrary);
+  const promptConfigRef = useRef(getActivePromptConfig(promptLibrary));
+  const queueRef = useRef<DiscoveryQueue | null>(null);
+  const [storageWriter] = useState(createIncrementalWriter);
+  const [telemetry, setTelemetry] = useState<GeminiCallTelemetry[]>([]);
+  const [priceTable, setPriceTable] = useState<PriceTable>(loadPriceTable);
+  const [budget, setBudget] = useState<BudgetSettings>(loadBudgetSettings);
+  const [scanPlanSettings, setScanPlanSettings] = useState<ScanPlanSettings>(loadScanPlanSettings);
+  // Scheduled re-scans start from an interval set up once, so they read the settings through a ref.
+  const scanPlanSettingsRef = useRef(scanPlanSettings);
+  const [sessionStartedAt] = useState(() => new Date().toISOString());
+  const [includeRejectedInExports, setIncludeRejectedInExports] = useState(false);
+  // The token changes on every request so asking for the same district twice scrolls to it again.
+  const [focusedCity, setFocusedCity] = useState<{ stateName: string; cityName: string; token: number } | null>(null);
+
+  if (!queueRef.current) {
+    queueRef.current = createDiscoveryQueue(createDiscoveryJobHandlers({
+      getProvider: () => providerRef.current,
+      getPromptConfig: () => promptConfigRef.current,
+      loadGroundingResponse,
+      updateCity: (stateName, cityName, updater) =>
+        setGroupedCities(prev => updateCityInGroups(prev, stateName, cityName, updater)),
+      registerCenters: (centers, sighting) => {
+        const result = registerCenterSightings(centerRegistryRef.current, centers.map(center => ({ center, sighting })));
+        centerRegistryRef.current = result.registry;
+        setCenterRegistry(result.registry);
+        return result.centerIds;
+      },
+      getQueue: () => queueRef.current!,
+    }));
+  }
+  const discoveryQueue = queueRef.current;
+  const [queueSnapshot, setQueueSnapshot] = useState(() => discoveryQueue.getSnapshot());
+
+  useEffect(() => discoveryQueue.subscribe(setQueueSnapshot), [discoveryQueue]);
+
+  useEffect(() => {
+    groupedCitiesRef.current = groupedCities;
+  }, [groupedCities]);
+
+  useEffect(() => {
+    providerRef.current = getDiscoveryProvider(providerId);
+  }, [providerId]);
+
+  useEffect(() => {
+    promptConfigRef.current = getActivePromptConfig(promptLibrary);
+  }, [promptLibrary]);
 
   useEffect(() => {
     const loadData = async () => {
       try {
-        // Check localStorage first
-        const storedData = localStorage.getItem(STORAGE_KEY);
-        if (storedData) {
-          setGroupedCities(JSON.parse(storedData));
-          setIsLoading(false);
+        // Check IndexedDB first (this also imports data saved by the old localStorage version)
+        const storedProject = await loadProject();
+        if (storedProject) {
+          const { restored, runningCities } = restoreRunningCities(storedProject.groupedCities);
+          storageWriter.setBaseline(storedProject.groupedCities, storedProject.centerRegistry);
+          centerRegistryRef.current = storedProject.centerRegistry;
+          setCenterRegistry(storedProject.centerRegistry);
+          groupedCitiesRef.current = restored;
+          setGroupedCities(restored);
+          discoveryQueue.enqueue(runningCities.flatMap(city => buildJobsForCity(city)));
           return;
         }
+      } catch (error) {
+        console.error("Failed to load saved data from IndexedDB", error);
+      }
 
+      try {
         // If no stored data, fetch from CSV
-        const response = await fetch('/Selected_centers.csv');
-        if (!response.ok) {
-          throw new Error('Network response was not ok');
-        }
-        const csvText = await response.text();
-        const citiesData = parseCSV(csvText);
-        
-        const grouped = citiesData.reduce((acc, city) => {
-          const { stateName } = city;
-          if (!acc[stateName]) {
-            acc[stateName] = [];
-          }
-          acc[stateName].push(city);
-          return acc;
-        }, {} as Record<string, CityData[]>);
-
-        setGroupedCities(grouped);
+        setGroupedCities(await loadDefaultCities());
       } catch (error) {
         console.error("Failed to load or parse city data", error);
-      } finally {
-        setIsLoading(false);
       }
     };
 
-    loadData();
-  }, []);
+    loadData().finally(() => setIsLoading(false));
+  }, [discoveryQueue, storageWriter]);
 
   useEffect(() => {
     if (isLoading) {
       return; // Don't save to storage while the initial data is loading
     }
-    try {
-      if (Object.keys(groupedCities).length > 0) {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(groupedCities));
-      } else {
-        // This is used by the "Reset" button to clear storage
-        localStorage.removeItem(STORAGE_KEY);
-      }
-    } catch (error) {
-      console.error("Failed to save data to localStorage", error);
+    storageWriter.sync(groupedCities, centerRegistry)
+      .then(() => setSaveError(null))
+      .catch(error => {
+        console.error("Failed to save data to IndexedDB", error);
+        setSaveError(error instanceof Error ? error.message : String(error));
+      });
+  }, [groupedCities, centerRegistry, isLoading, storageWriter]);
+
+  useEffect(() => {
+    loadTelemetry()
+      .then(stored => setTelemetry((prev: GeminiCallTelemetry[]) => {
+        // Calls made while loading are already in `prev` and may also have been stored.
+        const storedIds = new Set(stored.map(entry => entry.id));
+        return [...stored, ...prev.filter(entry => !storedIds.has(entry.id))];
+      }))
+      .catch(error => console.error("Failed to load telemetry from IndexedDB", error));
+  }, []);
+
+  useEffect(() => subscribeToGeminiTelemetry(entry => {
+    setTelemetry((prev: GeminiCallTelemetry[]) => [...prev, entry]);
+    appendTelemetry(entry).catch(error => console.error("Failed to save telemetry to IndexedDB", error));
+  }), []);
+
+  useEffect(() => subscribeToGroundingResponses(response => {
+    saveGroundingResponse(response).catch(error => console.error("Failed to save grounding response to IndexedDB", error));
+  }), []);
+
+  const costSummary = useMemo(
+    () => summarizeCosts(telemetry, groupedCities, priceTable, sessionStartedAt),
+    [telemetry, groupedCities, priceTable, sessionStartedAt]
+  );
+  const budgetSpendUsd = useMemo(() => getBudgetSpend(telemetry, priceTable, budget), [telemetry, priceTable, budget]);
+  const isOverBudget = isBudgetExceeded(budgetSpendUsd, budget);
+
+  // The cap is hard: resuming while still over it pauses the queue again.
+  useEffect(() => {
+    if (isOverBudget && !queueSnapshot.isPaused) {
+      console.warn(`Budget cap of $${budget.capUsd} reached; pausing discovery.`);
+      discoveryQueue.pause();
     }
-  }, [groupedCities, isLoading]);
+  }, [isOverBudget, queueSnapshot.isPaused, discoveryQueue, budget.capUsd]);
 
-  const handleUpdateCity = (stateName: string, cityName: string, updater: (city: CityData) => CityData) => {
-    setGroupedCities(prevGroupedCities => {
-      const citiesInState = prevGroupedCities[stateName];
-      if (!citiesInState) return prevGroupedCities;
+  const handleUpdateBudget = (nextBudget: BudgetSettings) => {
+    setBudget(nextBudget);
+    saveBudgetSettings(nextBudget);
+  };
 
-      const cityIndex = citiesInState.findIndex(c => c.name === cityName);
-      if (cityIndex === -1) return prevGroupedCities;
+  const handleUpdateScanPlanSettings = (nextSettings: ScanPlanSettings) => {
+    scanPlanSettingsRef.current = nextSettings;
+    setScanPlanSettings(nextSettings);
+    saveScanPlanSettings(nextSettings);
+  };
 
-      const updatedCity = updater(citiesInState[cityIndex]);
-      const updatedCitiesInState = [...citiesInState];
-      updatedCitiesInState[cityIndex] = updatedCity;
+  const handleUpdatePriceTable = (nextPriceTable: PriceTable) => {
+    setPriceTable(nextPriceTable);
+    savePriceTable(nextPriceTable);
+  };
 
-      return {
-        ...prevGroupedCities,
-        [stateName]: updatedCitiesInState,
-      };
-    });
+  const handleUpdatePromptLibrary = (nextLibrary: PromptConfigLibrary) => {
+    setPromptLibrary(nextLibrary);
+    savePromptLibrary(nextLibrary);
   };
-  
-  const handleReset = () => {
-    localStorage.removeItem(STORAGE_KEY);
-    setIsLoading(true); // Trigger reload from CSV
-    // This will cause the useEffect to re-run and fetch the CSV
-    setGroupedCities({}); 
+
+  const handleProviderChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const nextProviderId = event.target.value as DiscoveryProviderId;
+    setProviderId(nextProviderId);
+    saveSelectedProviderId(nextProviderId);
+  };
+
+  const handleUpdateCity = (stateName: string, cityName: string, updater: (city: CityData) => CityData) => {
+    setGroupedCities(prevGroupedCities => updateCityInGroups(prevGroupedCities, stateName, cityName, updater));
   };
 
-  const mergeAdditionalCities = (existingGrouped: Record<string, CityData[]>, newCities: CityData[]) => {
-    if (newCities.length === 0) {
-      return existingGrouped;
+  const startDiscovery = (cities: CityData[], trigger: DiscoveryRunTrigger = 'manual', forceRestart = false) => {
+    const jobs: ReturnType<typeof buildJobsForCity> = [];
+    for (const city of cities) {
+      if (city.status === 'running') continue;
+      const restart = forceRestart || shouldRestartCity(city);
+      const planning = scanPlanSettingsRef.current;
+      const cityJobs = buildJobsForCity(planCityScan(prepareCityForDiscovery(city, restart, trigger), planning, restart));
+      jobs.push(...cityJobs);
+      // A restart with nothing to scan still records an empty run, so its re-scan schedule moves on.
+      handleUpdateCity(city.stateName, city.name, prevCity =>
+        cityJobs.length > 0
+          ? planCityScan(prepareCityForDiscovery(prevCity, restart, trigger), planning, restart)
+          : restart
+            ? completeRun({ ...startRun(prevCity, trigger), status: 'completed' })
+            : { ...prevCity, status: 'completed' }
+      );
     }
+    discoveryQueue.enqueue(jobs);
+  };
 
-    const clonedGrouped: Record<string, CityData[]> = {};
-    for (const [stateName, cities] of Object.entries(existingGrouped)) {
-      clonedGrouped[stateName] = cities.map(city => ({
-        ...city,
-        pincodes: city.pincodes.map(p => ({ ...p })),
-      }));
+  // Reads districts from the ref so the interval never acts on a stale snapshot.
+  useEffect(() => {
+    if (isLoading) {
+      return;
     }
+    const startDueRescans = () => {
+      const due = Object.values<CityData[]>(groupedCitiesRef.current).flat().filter(city => isRescanDue(city));
+      if (due.length > 0) {
+        console.log(`Starting scheduled re-scans for ${due.map(city => city.name).join(', ')}.`);
+        startDiscovery(due, 'scheduled');
+      }
+    };
+    startDueRescans();
+    const timer = setInterval(startDueRescans, RESCAN_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isLoading]);
 
-    for (const additionalCity of newCities) {
-      const stateName = additionalCity.stateName;
-      const clonedAdditionalCity: CityData = {
-        ...additionalCity,
-        pincodes: additionalCity.pincodes.map(p => ({ ...p })),
-      };
+  // Scan plans release pincodes from inside the runner's state updates; this puts them in the queue.
+  useEffect(() => {
+    const jobs = Object.values<CityData[]>(groupedCities).flat()
+      .filter(city => city.status === 'running' && city.scanPlan)
+      .flatMap(city => buildJobsForCity(city, listReleasedQueuedCodes(city)));
+    if (jobs.length > 0) {
+      discoveryQueue.enqueue(jobs);
+    }
+  }, [groupedCities, discoveryQueue]);
 
-      if (!clonedGrouped[stateName]) {
-        clonedGrouped[stateName] = [clonedAdditionalCity];
-        continue;
-      }
+  const handleDiscoverCity = (city: CityData) => startDiscovery([city]);
 
-      const citiesInState = clonedGrouped[stateName];
-      const cityIndex = citiesInState.findIndex(city => city.name === clonedAdditionalCity.name);
+  const handleRescanCity = (city: CityData) => startDiscovery([city], 'manual', true);
 
-      if (cityIndex === -1) {
-        clonedGrouped[stateName] = [...citiesInState, clonedAdditionalCity];
-        continue;
-      }
+  const handleOverrideScanPlan = (city: CityData, groupId: string, action: ScanPlanAction) => {
+    const codes = listReleasedQueuedCodes(overrideScanPlanGroup(city, groupId, action));
+    if (action === 'skip' || codes.length === 0) {
+      handleUpdateCity(city.stateName, city.name, prevCity => overrideScanPlanGroup(prevCity, groupId, action));
+      return;
+    }
+    handleUpdateCity(city.stateName, city.name, prevCity => prepareCityForPincodes(overrideScanPlanGroup(prevCity, groupId, action), codes));
+    discoveryQueue.enqueue(buildJobsForCity(city, codes));
+  };
 
-      const existingCity = citiesInState[cityIndex];
-      const existingPincodes = new Set(existingCity.pincodes.map(p => p.code));
-      const mergedPincodes = [...existingCity.pincodes];
-      let addedNewPincode = false;
+  const handleSetScanPlanThreshold = (city: CityData, yieldThreshold: number) => {
+    handleUpdateCity(city.stateName, city.name, prevCity => setScanPlanThreshold(prevCity, yieldThreshold));
+  };
 
-      for (const newPincode of clonedAdditionalCity.pincodes) {
-        if (!existingPincodes.has(newPincode.code)) {
-          mergedPincodes.push({ ...newPincode, status: 'pending' });
-          addedNewPincode = true;
-        }
-      }
+  const handleSetRescanInterval = (city: CityData, days?: number) => {
+    handleUpdateCity(city.stateName, city.name, prevCity => ({ ...prevCity, rescanIntervalDays: days }));
+  };
 
-      if (addedNewPincode || clonedAdditionalCity.population > existingCity.population) {
-        const updatedCity: CityData = {
-          ...existingCity,
-          population: Math.max(existingCity.population, clonedAdditionalCity.population),
-          pincodes: mergedPincodes,
-        };
+  const handleDiscoverState = (stateName: string) => {
+    startDiscovery((groupedCities[stateName] ?? []).filter(city => city.status !== 'completed'));
+  };
 
-        const updatedCities = [...citiesInState];
-        updatedCities[cityIndex] = updatedCity;
-        clonedGrouped[stateName] = updatedCities;
+  const handleDiscoverAll = () => {
+    startDiscovery(Object.values<CityData[]>(groupedCities).flat().filter(city => city.status !== 'completed'));
+  };
+
+  const handleStopCity = (city: CityData) => {
+    discoveryQueue.dequeueCity(city.stateName, city.name);
+    handleUpdateCity(city.stateName, city.name, prevCity => releaseCityFromQueue(prevCity));
+  };
+
+  const handleStopAll = () => {
+    discoveryQueue.dequeueAll();
+    setGroupedCities((prevGrouped: Record<string, CityData[]>) => {
+      const result: Record<string, CityData[]> = {};
+      for (const [stateName, cities] of Object.entries(prevGrouped)) {
+        result[stateName] = cities.map(city => (city.status === 'running' ? releaseCityFromQueue(city) : city));
       }
-    }
+      return result;
+    });
+  };
 
-    const sortedStateNames = Object.keys(clonedGrouped).sort();
-    const result: Record<string, CityData[]> = {};
+  const handleRetryPincode = (city: CityData, pincodeCode: string) => {
+    handleUpdateCity(city.stateName, city.name, prevCity => prepareCityForPincodes(prevCity, [pincodeCode]));
+    discoveryQueue.enqueue(buildJobsForCity(city, [pincodeCode]));
+  };
 
-    for (const stateName of sortedStateNames) {
-      result[stateName] = clonedGrouped[stateName]
-        .slice()
-        .sort((a, b) => a.name.localeCompare(b.name));
+  const handleReextractPincodes = async (city: CityData, pincodeCodes?: string[]) => {
+    let codes = pincodeCodes;
+    if (!codes) {
+      try {
+        const cached = new Set(await listGroundingResponsePincodes());
+        codes = city.pincodes.map(p => p.code).filter(code => cached.has(code));
+      } catch (error) {
+        console.error("Failed to list cached grounding responses", error);
+        return;
+      }
+    }
+    if (codes.length === 0) return;
+    const reextractCodes = codes;
+    handleUpdateCity(city.stateName, city.name, prevCity => prepareCityForPincodes(prevCity, reextractCodes));
+    discoveryQueue.enqueue(buildJobsForCity(city, reextractCodes, 'reextract'));
+  };
+  
+  const handleReset = async () => {
+    discoveryQueue.dequeueAll();
+    setIsLoading(true);
+    centerRegistryRef.current = {};
+    setCenterRegistry({});
+    setGroupedCities({});
+    try {
+      await clearProject();
+      storageWriter.setBaseline({}, {});
+      setGroupedCities(await loadDefaultCities());
+    } catch (error) {
+      console.error("Failed to reset and reload city data", error);
+    } finally {
+      setIsLoading(false);
     }
-
-    return result;
   };
 
   const handleAdditionalDataUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -241,17 +417,39 @@ const App: React.FC = () => {
     }
 
     try {
-      const fileText = await file.text();
-      const additionalCities = parseCSV(fileText);
+      setPendingCsvImport({ fileName: file.name, table: readCsvTable(await file.text()) });
+    } catch (error) {
+      console.error('Failed to read the uploaded data file', error);
+    } finally {
+      input.value = '';
+    }
+  };
 
-      if (additionalCities.length === 0) {
-        console.warn('No valid city data found in uploaded file.');
-        return;
-      }
+  const handleConfirmCsvImport = (additionalCities: CityData[]) => {
+    setGroupedCities(prevGrouped => mergeAdditionalCities(prevGrouped, additionalCities));
+    setPendingCsvImport(null);
+  };
+
+  const handlePostalDirectorySelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const input = event.target;
+    const file = input.files?.[0];
+    if (!file) {
+      return;
+    }
 
-      setGroupedCities(prevGrouped => mergeAdditionalCities(prevGrouped, additionalCities));
+    try {
+      const directory = parsePostalDirectory(readCsvTable(await file.text()));
+      const { summary } = joinPostalDirectory(groupedCitiesRef.current, directory);
+      // Joined through the updater so scans that finish meanwhile are not overwritten.
+      setGroupedCities(prev => joinPostalDirectory(prev, directory).groupedCities);
+      const mismatches = summary.districtMismatches + summary.stateMismatches;
+      setPostalImportNotice(
+        `${file.name}: ${directory.entries.size} pincodes in the directory. ${summary.joined} loaded pincodes joined, `
+        + `${summary.missing} not listed, ${mismatches} placed in another district or state.`
+      );
     } catch (error) {
-      console.error('Failed to process the uploaded data file', error);
+      console.error('Failed to import the postal directory', error);
+      setPostalImportNotice(`${file.name}: ${error instanceof Error ? error.message : String(error)}`);
     } finally {
       input.value = '';
     }
@@ -261,11 +459,112 @@ const App: React.FC = () => {
     fileInputRef.current?.click();
   };
 
+  const handleExportProject = async () => {
+    try {
+      const telemetry = await loadTelemetry();
+      const bundle = createProjectBundle(groupedCities, centerRegistry, telemetry);
+      const dateStamp = bundle.exportedAt.slice(0, 10);
+      downloadFile(JSON.stringify(bundle), `CT_Scan_Project_${dateStamp}.json`, 'application/json');
+    } catch (error) {
+      console.error('Failed to export project', error);
+    }
+  };
+
+  const handleProjectFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const input = event.target;
+    const file = input.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    try {
+      const bundle = parseProjectBundle(await file.text());
+      setPendingImport({ fileName: file.name, bundle, errors: [] });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      setPendingImport({ fileName: file.name, errors: message.split('\n') });
+    } finally {
+      input.value = '';
+    }
+  };
+
+  const handleConfirmImport = async (mode: ProjectImportMode) => {
+    const bundle = pendingImport?.bundle;
+    if (!bundle) return;
+
+    setIsApplyingImport(true);
+    try {
+      let nextGrouped: Record<string, CityData[]>;
+      let nextRegistry: CenterRegistry;
+
+      if (mode === 'replace') {
+        discoveryQueue.dequeueAll();
+        await clearProject();
+        storageWriter.setBaseline({}, {});
+        nextRegistry = Object.fromEntries(bundle.centers.map(center => [center.id, center]));
+        nextGrouped = groupCitiesByState(bundle.cities);
+      } else {
+        const merged = mergeBundleCenters(centerRegistryRef.current, bundle);
+        nextRegistry = merged.registry;
+        nextGrouped = mergeProjectCities(groupedCitiesRef.current, merged.cities);
+      }
+
+      await importTelemetry(bundle.telemetry, mode === 'replace');
+      setTelemetry(await loadTelemetry());
+      centerRegistryRef.current = nextRegistry;
+      setCenterRegistry(nextRegistry);
+      groupedCitiesRef.current = nextGrouped;
+      setGroupedCities(nextGrouped);
+      setPendingImport(null);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      setPendingImport(prev => (prev ? { ...prev, errors: [`Import failed: ${message}`] } : prev));
+    } finally {
+      setIsApplyingImport(false);
+    }
+  };
+
+  const handleClearTelemetry = async () => {
+    try {
+      await clearTelemetry();
+      clearGeminiTelemetry();
+      setTelemetry([]);
+    } catch (error) {
+      console.error('Failed to clear telemetry', error);
+    }
+  };
+
+  const updateCenterRegistry = (updater: (registry: CenterRegistry) => CenterRegistry) => {
+    const nextRegistry = updater(centerRegistryRef.current);
+    centerRegistryRef.current = nextRegistry;
+    setCenterRegistry(nextRegistry);
+  };
+
+  const handleReviewCenter = (centerId: string, changes: { status?: ReviewStatus; notes?: string }) =>
+    updateCenterRegistry(registry => setCenterReview(registry, centerId, changes));
+
+  const handleEditCenter = (centerId: string, edits: CenterEdits) =>
+    updateCenterRegistry(registry => editCenterFields(registry, centerId, edits));
+
+  const handleShowCity = (city: CityData) =>
+    setFocusedCity({ stateName: city.stateName, cityName: city.name, token: Date.now() });
+
+  const handleExportResults = (format: ResultsExportFormat) => {
+    const count = downloadResults(groupedCities, centerRegistry, format, 'CT_Scan_Results_All', {
+      includeRejected: includeRejectedInExports,
+    });
+    if (format === 'geojson' && count === 0) {
+      console.warn('GeoJSON export contains no features: none of the centers have coordinates yet.');
+    }
+  };
+
   const hasData = Object.keys(groupedCities).length > 0;
+  const hasResults = Object.keys(centerRegistry).length > 0;
+  const provider = getDiscoveryProvider(providerId);
 
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 font-sans">
-      <StorageInfo data={groupedCities} />
+      <StorageInfo changeToken={groupedCities} />
       <div className="container mx-auto p-4 md:p-8">
         <header className="text-center mb-8 border-b border-gray-700 pb-4">
           <h1 className="text-4xl md:text-5xl font-bold text-cyan-400 tracking-tight">
@@ -274,6 +573,29 @@ const App: React.FC = () => {
           <p className="text-gray-400 mt-2 max-w-2xl mx-auto">
             Districts and pincodes are loaded from the local CSV. Click "Discover Now" on any district to begin.
           </p>
+          <div className="mt-4 flex flex-col sm:flex-row gap-2 justify-center items-center text-sm">
+            <label htmlFor="provider-select" className="text-gray-400">Discovery provider:</label>
+            <select
+              id="provider-select"
+              value={providerId}
+              onChange={handleProviderChange}
+              className="bg-gray-800 border border-gray-700 text-gray-100 rounded-lg py-1 px-2"
+            >
+              {listDiscoveryProviders().map(option => (
+                <option key={option.id} value={option.id}>
+                  {option.label}{option.isAvailable() ? '' : ' (unavailable)'}
+                </option>
+              ))}
+            </select>
+            <span className={provider.isAvailable() ? 'text-gray-500' : 'text-red-400'}>
+              {provider.isAvailable() ? provider.description : 'No API key configured; discovery calls will fail.'}
+            </span>
+          </div>
+          {saveError && (
+            <p className="mt-3 text-sm text-red-400">
+              Changes could not be saved to browser storage ({saveError}). They are kept in this tab and saving is retried with the next change; export the project to be safe.
+            </p>
+          )}
         </header>
 
         <main>
@@ -283,13 +605,64 @@ const App: React.FC = () => {
             </div>
           ) : hasData ? (
             <div>
+              <QueueStatus
+                snapshot={queueSnapshot}
+                onDiscoverAll={handleDiscoverAll}
+                onStopAll={handleStopAll}
+                onPause={discoveryQueue.pause}
+                onResume={discoveryQueue.resume}
+                onResetCircuit={discoveryQueue.resetCircuit}
+                onUpdateSettings={discoveryQueue.updateSettings}
+                scanPlanSettings={scanPlanSettings}
+                onUpdateScanPlanSettings={handleUpdateScanPlanSettings}
+              />
+              <CostPanel
+                summary={costSummary}
+                budget={budget}
+                budgetSpendUsd={budgetSpendUsd}
+                isOverBudget={isOverBudget}
+                priceTable={priceTable}
+                onUpdateBudget={handleUpdateBudget}
+                onUpdatePriceTable={handleUpdatePriceTable}
+              />
+              <TelemetryPanel entries={telemetry} onClear={handleClearTelemetry} />
+              <PromptConfigPanel
+                library={promptLibrary}
+                provider={provider}
+                groupedCities={groupedCities}
+                centerRegistry={centerRegistry}
+                onUpdateLibrary={handleUpdatePromptLibrary}
+              />
+              <ResultsBrowser
+                groupedCities={groupedCities}
+                centerRegistry={centerRegistry}
+                onReviewCenter={handleReviewCenter}
+                onEditCenter={handleEditCenter}
+              />
+              <CoveragePanel groupedCities={groupedCities} centerRegistry={centerRegistry} onShowCity={handleShowCity} />
+              <CoverageMap groupedCities={groupedCities} centerRegistry={centerRegistry} onShowCity={handleShowCity} />
               <div className="space-y-6 animate-fade-in">
                 {Object.keys(groupedCities).sort().map((stateName) => (
                   <StateGroup 
                     key={stateName} 
                     stateName={stateName} 
                     cities={groupedCities[stateName]} 
-                    onUpdateCity={(cityName, updater) => handleUpdateCity(stateName, cityName, updater)}
+                    centerRegistry={centerRegistry}
+                    outstandingByCity={queueSnapshot.outstandingByCity}
+                    costSummary={costSummary}
+                    includeRejectedInExports={includeRejectedInExports}
+                    focusedCity={focusedCity?.stateName === stateName ? focusedCity : undefined}
+                    onDiscoverState={() => handleDiscoverState(stateName)}
+                    onDiscoverCity={handleDiscoverCity}
+                    onStopCity={handleStopCity}
+                    onRetryPincode={handleRetryPincode}
+                    onReextractPincodes={handleReextractPincodes}
+                    onRescanCity={handleRescanCity}
+                    onSetRescanInterval={handleSetRescanInterval}
+                    onOverrideScanPlan={handleOverrideScanPlan}
+                    onSetScanPlanThreshold={handleSetScanPlanThreshold}
+                    onReviewCenter={handleReviewCenter}
+                    onEditCenter={handleEditCenter}
                   />
                 ))}
               </div>
@@ -301,6 +674,34 @@ const App: React.FC = () => {
                   >
                       Add Additional Data
                   </button>
+                  <ExportButtons label="Export all results" disabled={!hasResults} onExport={handleExportResults} />
+                  <label className="inline-flex items-center gap-1 text-gray-400 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={includeRejectedInExports}
+                      onChange={event => setIncludeRejectedInExports(event.target.checked)}
+                    />
+                    Include rejected centers
+                  </label>
+                  <button
+                      onClick={handleExportProject}
+                      className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-300"
+                  >
+                      Export Project
+                  </button>
+                  <button
+                      onClick={() => projectInputRef.current?.click()}
+                      className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-300"
+                  >
+                      Import Project
+                  </button>
+                  <button
+                      onClick={() => postalInputRef.current?.click()}
+                      title="Join an India Post pincode directory CSV onto the loaded pincodes"
+                      className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-300"
+                  >
+                      Import Postal Directory
+                  </button>
                   <button
                       onClick={handleReset}
                       className="bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-300"
@@ -314,7 +715,22 @@ const App: React.FC = () => {
                       className="hidden"
                       onChange={handleAdditionalDataUpload}
                   />
+                  <input
+                      ref={projectInputRef}
+                      type="file"
+                      accept=".json,application/json"
+                      className="hidden"
+                      onChange={handleProjectFileSelected}
+                  />
+                  <input
+                      ref={postalInputRef}
+                      type="file"
+                      accept=".csv"
+                      className="hidden"
+                      onChange={handlePostalDirectorySelected}
+                  />
                 </div>
+                {postalImportNotice && <p className="text-gray-400 text-sm mt-3">{postalImportNotice}</p>}
               </div>
             </div>
           ) : (
@@ -324,6 +740,27 @@ const App: React.FC = () => {
           )}
         </main>
         
+        {pendingCsvImport && (
+          <CsvImportDialog
+            fileName={pendingCsvImport.fileName}
+            table={pendingCsvImport.table}
+            existingGrouped={groupedCities}
+            onConfirm={handleConfirmCsvImport}
+            onCancel={() => setPendingCsvImport(null)}
+          />
+        )}
+
+        {pendingImport && (
+          <ProjectImportDialog
+            fileName={pendingImport.fileName}
+            summary={pendingImport.bundle ? summarizeProjectBundle(pendingImport.bundle) : undefined}
+            errors={pendingImport.errors}
+            isApplying={isApplyingImport}
+            onConfirm={handleConfirmImport}
+            onCancel={() => setPendingImport(null)}
+          />
+        )}
+
         <footer className="text-center mt-12 text-gray-500 text-sm">
             <a href="https://github.com/google/generative-ai-docs/tree/main/site/en/gemini-api/docs/integrations/google_search" target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-2 hover:text-cyan-400 transition-colors">
                 <GithubIcon />
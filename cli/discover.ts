@@ -0,0 +1,403 @@
+/**
+ * Headless batch discovery. Runs the same queue, runner, and providers as the web app, keeps
+ * its state in a project bundle file that **Import Project** in the app can open, and resumes
+ * from that file when run again.
+ *
+ *     npm run discover -- --state Bihar --state-file bihar.json --results bihar.csv
+ */
+import { existsSync } from 'fs';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { parseArgs } from 'util';
+import { CenterRegistry, CityData } from '../types';
+import { registerCenterSightings } from '../services/centerRegistry';
+import { groupCitiesByState, mergeAdditionalCities, updateCityInGroups } from '../services/cityData';
+import { parseCSV, readCsvTable } from '../services/csvImport';
+import { DiscoveryProviderId, StoredGroundingResponse, subscribeToGroundingResponses } from '../services/discoveryProvider';
+import { DiscoveryQueue, DiscoveryQueueSnapshot, cityKey, createDiscoveryQueue } from '../services/discoveryQueue';
+import {
+    buildJobsForCity,
+    createDiscoveryJobHandlers,
+    prepareCityForDiscovery,
+    prepareCityForPincodes,
+    releaseCityFromQueue,
+    shouldRestartCity,
+} from '../services/discoveryRunner';
+import { GeminiCallTelemetry, subscribeToGeminiTelemetry } from '../services/geminiService';
+import { createProjectBundle, parseProjectBundle } from '../services/projectBundle';
+import { DEFAULT_PROMPT_CONFIG, PromptConfig, formatPromptVersion, validatePromptConfig } from '../services/promptConfig';
+import { joinPostalDirectory, parsePostalDirectory } from '../services/postalDirectory';
+import { getDiscoveryProvider, listDiscoveryProviders } from '../services/providerRegistry';
+import { DEFAULT_SCAN_PLAN_SETTINGS, listReleasedQueuedCodes, planCityScan } from '../services/scanPlanner';
+import { buildExportRows, buildResultsCsv } from '../services/resultsExport';
+
+const USAGE = `Usage: npm run discover -- [options]
+
+Selects districts from the CSV (or the saved state file), discovers their pending pincodes,
+and saves progress to the state file as it goes. Run again with the same state file to resume.
+
+  --csv <file>          District CSV (default: Selected_centers.csv; merged into an existing state file)
+  --state-file <file>   Project bundle to resume from and save to (default: ct-scan-project.json)
+  --state <name>        Only districts in this state (repeatable)
+  --district <name>     Only districts with this name (repeatable)
+  --pincode <code>      Only these pincodes, scanned again even if already scanned (repeatable)
+  --restart             Start completed districts over as a new run instead of skipping them
+  --plan                Scan representative pincodes per area first and expand only while they find new centers
+  --yield-threshold <n> New centers per scanned pincode an area needs to keep expanding (default: ${DEFAULT_SCAN_PLAN_SETTINGS.yieldThreshold})
+  --provider <id>       ${listDiscoveryProviders().map(provider => provider.id).join(' | ')} (default: gemini)
+  --concurrency <n>     Pincodes scanned at once (default: 2)
+  --rpm <n>             Requests started per minute (default: 20)
+  --max-attempts <n>    Attempts per pincode before it is marked failed (default: 3)
+  --prompt-config <file> Prompt configuration JSON downloaded from the app (default: built-in default@1)
+  --grounding-cache <dir> Keep each pincode's grounding answer here, one JSON file per pincode
+  --reextract           Re-run only extraction for selected pincodes cached in --grounding-cache
+  --postal-directory <file> India Post pincode directory CSV to join before scanning (adds localities)
+  --results <file>      Also write the selected districts' centers as CSV
+  --help                Show this message
+
+The Gemini provider reads the API key from GEMINI_API_KEY or API_KEY.`;
+
+const DEFAULT_CSV_PATH = 'Selected_centers.csv';
+const DEFAULT_STATE_FILE = 'ct-scan-project.json';
+// Progress is written at most this often while jobs are finishing, and always at the end.
+const SAVE_INTERVAL_MS = 10_000;
+
+interface CliOptions {
+    csvPath?: string;
+    stateFile: string;
+    states: string[];
+    districts: string[];
+    pincodes: string[];
+    restart: boolean;
+    plan: boolean;
+    yieldThreshold: number;
+    providerId: DiscoveryProviderId;
+    concurrency?: number;
+    requestsPerMinute?: number;
+    maxAttempts?: number;
+    promptConfigPath?: string;
+    postalDirectoryPath?: string;
+    groundingCacheDir?: string;
+    reextract: boolean;
+    resultsPath?: string;
+}
+
+interface ProjectState {
+    groupedCities: Record<string, CityData[]>;
+    registry: CenterRegistry;
+    telemetry: GeminiCallTelemetry[];
+}
+
+const parsePositiveInteger = (value: string | undefined, flag: string) => {
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+        throw new Error(`${flag} must be a positive whole number, got "${value}".`);
+    }
+    return parsed;
+};
+
+const readOptions = (): CliOptions | null => {
+    const { values } = parseArgs({
+        options: {
+            csv: { type: 'string' },
+            'state-file': { type: 'string', default: DEFAULT_STATE_FILE },
+            state: { type: 'string', multiple: true, default: [] },
+            district: { type: 'string', multiple: true, default: [] },
+            pincode: { type: 'string', multiple: true, default: [] },
+            restart: { type: 'boolean', default: false },
+            plan: { type: 'boolean', default: false },
+            'yield-threshold': { type: 'string' },
+            provider: { type: 'string', default: 'gemini' },
+            concurrency: { type: 'string' },
+            rpm: { type: 'string' },
+            'max-attempts': { type: 'string' },
+            'prompt-config': { type: 'string' },
+            'grounding-cache': { type: 'string' },
+            reextract: { type: 'boolean', default: false },
+            'postal-directory': { type: 'string' },
+            results: { type: 'string' },
+            help: { type: 'boolean', default: false },
+        },
+    });
+    if (values.help) {
+        return null;
+    }
+    if (!listDiscoveryProviders().some(provider => provider.id === values.provider)) {
+        throw new Error(`Unknown provider "${values.provider}".`);
+    }
+    if (values.reextract && !values['grounding-cache']) {
+        throw new Error('--reextract needs --grounding-cache to read the cached grounding answers from.');
+    }
+    return {
+        csvPath: values.csv,
+        stateFile: values['state-file'],
+        states: values.state,
+        districts: values.district,
+        pincodes: values.pincode,
+        restart: values.restart,
+        plan: values.plan,
+        yieldThreshold: parseYieldThreshold(values['yield-threshold']),
+        providerId: values.provider as DiscoveryProviderId,
+        concurrency: parsePositiveInteger(values.concurrency, '--concurrency'),
+        requestsPerMinute: parsePositiveInteger(values.rpm, '--rpm'),
+        maxAttempts: parsePositiveInteger(values['max-attempts'], '--max-attempts'),
+        promptConfigPath: values['prompt-config'],
+        postalDirectoryPath: values['postal-directory'],
+        groundingCacheDir: values['grounding-cache'],
+        reextract: values.reextract,
+        resultsPath: values.results,
+    };
+};
+
+const parseYieldThreshold = (value: string | undefined) => {
+    if (value === undefined) return DEFAULT_SCAN_PLAN_SETTINGS.yieldThreshold;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+        throw new Error(`--yield-threshold must be zero or a positive number, got "${value}".`);
+    }
+    return parsed;
+};
+
+const loadPromptConfig = async (path: string | undefined): Promise<PromptConfig> => {
+    if (!path) return DEFAULT_PROMPT_CONFIG;
+    const config: unknown = JSON.parse(await readFile(path, 'utf8'));
+    const errors = validatePromptConfig(config);
+    if (errors.length > 0) {
+        throw new Error(`${path} is not a valid prompt configuration:\n  ${errors.join('\n  ')}`);
+    }
+    return config as PromptConfig;
+};
+
+/** Resumes from the state file when it exists; a CSV given alongside it adds any new districts. */
+const loadProjectState = async (options: CliOptions): Promise<ProjectState> => {
+    if (existsSync(options.stateFile)) {
+        const bundle = parseProjectBundle(await readFile(options.stateFile, 'utf8'));
+        console.log(`Resuming from ${options.stateFile} (saved ${bundle.exportedAt}).`);
+        let groupedCities = groupCitiesByState(bundle.cities);
+        if (options.csvPath) {
+            groupedCities = mergeAdditionalCities(groupedCities, parseCSV(await readFile(options.csvPath, 'utf8')));
+        }
+        return {
+            groupedCities,
+            registry: Object.fromEntries(bundle.centers.map(center => [center.id, center])),
+            telemetry: bundle.telemetry,
+        };
+    }
+    const csvPath = options.csvPath ?? DEFAULT_CSV_PATH;
+    console.log(`Starting a new project from ${csvPath}.`);
+    return { groupedCities: groupCitiesByState(parseCSV(await readFile(csvPath, 'utf8'))), registry: {}, telemetry: [] };
+};
+
+const matchesName = (names: string[], value: string) =>
+    names.length === 0 || names.some(name => name.toLowerCase() === value.toLowerCase());
+
+const selectCities = (groupedCities: Record<string, CityData[]>, options: CliOptions) =>
+    Object.values(groupedCities).flat().filter(city =>
+        matchesName(options.states, city.stateName)
+        && matchesName(options.districts, city.name)
+        && (options.pincodes.length === 0 || city.pincodes.some(p => options.pincodes.includes(p.code)))
+    );
+
+/** Writes to a temporary file first, so an interrupted save never leaves a truncated state file. */
+const writeFileAtomically = async (path: string, content: string) => {
+    const temporaryPath = `${path}.tmp`;
+    await writeFile(temporaryPath, content, 'utf8');
+    await rename(temporaryPath, path);
+};
+
+const groundingCachePath = (dir: string, pincode: string) => join(dir, `${pincode}.json`);
+
+const loadCachedGrounding = async (dir: string | undefined, pincode: string): Promise<StoredGroundingResponse | undefined> => {
+    if (!dir || !existsSync(groundingCachePath(dir, pincode))) return undefined;
+    return JSON.parse(await readFile(groundingCachePath(dir, pincode), 'utf8')) as StoredGroundingResponse;
+};
+
+const waitForQueue = (queue: DiscoveryQueue) =>
+    new Promise<void>(resolve => {
+        const isDone = (snapshot: DiscoveryQueueSnapshot) => snapshot.pendingCount === 0 && snapshot.activeJobs.length === 0;
+        if (isDone(queue.getSnapshot())) {
+            resolve();
+            return;
+        }
+        const unsubscribe = queue.subscribe(snapshot => {
+            if (isDone(snapshot)) {
+                unsubscribe();
+                resolve();
+            }
+        });
+    });
+
+const main = async () => {
+    const options = readOptions();
+    if (!options) {
+        console.log(USAGE);
+        return 0;
+    }
+    process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+    const provider = getDiscoveryProvider(options.providerId);
+    if (!provider.isAvailable()) {
+        throw new Error(`The ${provider.label} provider is not available; set GEMINI_API_KEY or use --provider mock.`);
+    }
+
+    const promptConfig = await loadPromptConfig(options.promptConfigPath);
+    console.log(`Using prompt configuration ${formatPromptVersion(promptConfig)}.`);
+    const state = await loadProjectState(options);
+    if (options.postalDirectoryPath) {
+        const directory = parsePostalDirectory(readCsvTable(await readFile(options.postalDirectoryPath, 'utf8')));
+        const { groupedCities, summary } = joinPostalDirectory(state.groupedCities, directory);
+        state.groupedCities = groupedCities;
+        console.log(`Joined ${options.postalDirectoryPath}: ${summary.joined} pincodes matched, ${summary.missing} not listed, `
+            + `${summary.districtMismatches + summary.stateMismatches} placed in another district or state.`);
+    }
+    const selected = selectCities(state.groupedCities, options)
+        .filter(city => options.pincodes.length > 0 || options.restart || options.reextract || city.status !== 'completed');
+    if (selected.length === 0) {
+        console.log('Nothing to discover: no district matches the selection, or every match is complete (use --restart to scan again).');
+        return 0;
+    }
+
+    const stopTelemetry = subscribeToGeminiTelemetry(entry => state.telemetry.push(entry));
+    const { groundingCacheDir } = options;
+    let cacheWrites = Promise.resolve();
+    if (groundingCacheDir) await mkdir(groundingCacheDir, { recursive: true });
+    const stopGroundingCache = groundingCacheDir
+        ? subscribeToGroundingResponses(response => {
+            cacheWrites = cacheWrites
+                .then(() => writeFileAtomically(groundingCachePath(groundingCacheDir, response.pincode), JSON.stringify(response, null, 2)))
+                .catch(error => console.error(`Failed to cache the grounding answer for ${response.pincode}`, error));
+        })
+        : () => undefined;
+    let isDirty = false;
+    let saving = Promise.resolve();
+    const save = () => {
+        isDirty = false;
+        const bundle = createProjectBundle(state.groupedCities, state.registry, state.telemetry);
+        saving = saving
+            .then(() => writeFileAtomically(options.stateFile, JSON.stringify(bundle, null, 2)))
+            .catch(error => console.error(`Failed to save ${options.stateFile}`, error));
+        return saving;
+    };
+    let isStarted = false;
+    const updateCity = (stateName: string, cityName: string, updater: (city: CityData) => CityData) => {
+        state.groupedCities = updateCityInGroups(state.groupedCities, stateName, cityName, updater);
+        isDirty = true;
+        // Scan plans release pincodes inside these updates; the queue ignores ones it already has.
+        const city = state.groupedCities[stateName]?.find(candidate => candidate.name === cityName);
+        if (isStarted && city?.status === 'running' && city.scanPlan) {
+            queue.enqueue(buildJobsForCity(city, listReleasedQueuedCodes(city)));
+        }
+    };
+
+    const queue: DiscoveryQueue = createDiscoveryQueue(createDiscoveryJobHandlers({
+        getProvider: () => provider,
+        getPromptConfig: () => promptConfig,
+        loadGroundingResponse: pincode => loadCachedGrounding(groundingCacheDir, pincode),
+        updateCity,
+        registerCenters: (centers, sighting) => {
+            const result = registerCenterSightings(state.registry, centers.map(center => ({ center, sighting })));
+            state.registry = result.registry;
+            return result.centerIds;
+        },
+        getQueue: () => queue,
+    }), {
+        ...(options.concurrency ? { maxConcurrent: options.concurrency } : {}),
+        ...(options.requestsPerMinute ? { requestsPerMinute: options.requestsPerMinute } : {}),
+        ...(options.maxAttempts ? { maxAttempts: options.maxAttempts } : {}),
+    });
+
+    // Same preparation as the tiles: pincode selections keep other results, whole districts resume or restart.
+    const jobs = selected.flatMap(city => {
+        if (options.reextract) {
+            const codes = city.pincodes.map(p => p.code).filter(code =>
+                (options.pincodes.length === 0 || options.pincodes.includes(code))
+                && existsSync(groundingCachePath(groundingCacheDir!, code)));
+            if (codes.length === 0) return [];
+            updateCity(city.stateName, city.name, current => prepareCityForPincodes(current, codes));
+            return buildJobsForCity(city, codes, 'reextract');
+        }
+        if (options.pincodes.length > 0) {
+            const codes = city.pincodes.map(p => p.code).filter(code => options.pincodes.includes(code));
+            updateCity(city.stateName, city.name, current => prepareCityForPincodes(current, codes));
+            return buildJobsForCity(city, codes);
+        }
+        const restart = options.restart || shouldRestartCity(city);
+        const planning = { enabled: options.plan, yieldThreshold: options.yieldThreshold };
+        const cityJobs = buildJobsForCity(planCityScan(prepareCityForDiscovery(city, restart), planning, restart));
+        updateCity(city.stateName, city.name, current =>
+            cityJobs.length > 0 ? planCityScan(prepareCityForDiscovery(current, restart), planning, restart) : { ...current, status: 'completed' });
+        return cityJobs;
+    });
+    console.log(`${options.reextract ? 'Re-extracting' : 'Discovering'} ${jobs.length} pincodes in ${selected.length} districts with the ${provider.label} provider.`);
+
+    let lastReported = 0;
+    const stopProgress = queue.subscribe(snapshot => {
+        const finished = snapshot.completedCount + snapshot.failedCount;
+        if (finished !== lastReported) {
+            lastReported = finished;
+            // Scan plans add waves as they go, so the total is what has been enqueued so far.
+            const total = finished + snapshot.pendingCount + snapshot.activeJobs.length;
+            console.log(`[${finished}/${total}] ${snapshot.failedCount} failed, ${Object.keys(state.registry).length} centers in the project.`);
+        }
+    });
+    const saveTimer = setInterval(() => {
+        if (isDirty) save();
+    }, SAVE_INTERVAL_MS);
+
+    let interrupted = false;
+    const handleInterrupt = () => {
+        if (interrupted) return;
+        interrupted = true;
+        console.log('Stopping; saving progress so the run can be resumed.');
+        queue.dequeueAll();
+    };
+    process.once('SIGINT', handleInterrupt);
+    process.once('SIGTERM', handleInterrupt);
+
+    queue.enqueue(jobs);
+    isStarted = true;
+    await waitForQueue(queue);
+
+    clearInterval(saveTimer);
+    stopProgress();
+    stopTelemetry();
+    stopGroundingCache();
+    await cacheWrites;
+    process.off('SIGINT', handleInterrupt);
+    process.off('SIGTERM', handleInterrupt);
+
+    // Cities cut off by an interrupt are left resumable, as when a tile is stopped.
+    for (const city of selected) {
+        updateCity(city.stateName, city.name, current => (current.status === 'running' ? releaseCityFromQueue(current) : current));
+    }
+    await save();
+    console.log(`Saved ${options.stateFile}.`);
+
+    if (options.resultsPath) {
+        const selectedKeys = new Set(selected.map(city => cityKey(city.stateName, city.name)));
+        const selectedGroups = groupCitiesByState(
+            Object.values(state.groupedCities).flat().filter(city => selectedKeys.has(cityKey(city.stateName, city.name)))
+        );
+        const rows = buildExportRows(selectedGroups, state.registry);
+        await writeFileAtomically(options.resultsPath, buildResultsCsv(rows));
+        console.log(`Wrote ${rows.length} result rows to ${options.resultsPath}.`);
+    }
+
+    const failedPincodes = selected
+        .flatMap(city => state.groupedCities[city.stateName].find(current => current.name === city.name)?.pincodes ?? [])
+        .filter(p => p.status === 'error');
+    if (failedPincodes.length > 0) {
+        console.error(`${failedPincodes.length} pincodes failed: ${failedPincodes.map(p => `${p.code} (${p.lastError})`).join(', ')}`);
+    }
+    if (interrupted) return 130;
+    return failedPincodes.length > 0 ? 1 : 0;
+};
+
+main()
+    .then(code => {
+        process.exitCode = code;
+    })
+    .catch(error => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exitCode = 1;
+    });
@@ -0,0 +1,268 @@
+import React, { useState } from 'react';
+import { EditableCenterField, RegisteredCenter, ReviewStatus } from '../types';
+import { summarizeSightings } from '../services/centerRegistry';
+import { describeOwnership, formatCtScanner, formatOperatingHours } from '../services/centerDetails';
+import { describeEvidenceCategory, formatConfidence } from '../services/centerEvidence';
+import { CenterEdits, REVIEW_STATUSES, describeReviewStatus, getReviewStatus, isFieldEdited } from '../services/centerReview';
+import { PHONE_TYPE_LABELS, PINCODE_CHECK_LABELS, PincodeCheck, normalizeContact } from '../services/contactNormalization';
+import { DoctorIcon, LocationIcon, PhoneIcon, MapLinkIcon, ReasoningIcon } from './Icons';
+
+interface CenterCardProps {
+  center: RegisteredCenter;
+  district: string;
+  /** "District, State" of the tile showing the card; other districts that found the center are listed. */
+  districtLabel: string;
+  pincodeCheck: PincodeCheck;
+  onReview: (changes: { status?: ReviewStatus; notes?: string }) => void;
+  onEdit: (edits: CenterEdits) => void;
+}
+
+const getConfidenceColor = (confidence?: number) => {
+  if (confidence === undefined) return 'bg-gray-600 text-gray-200';
+  if (confidence >= 0.7) return 'bg-green-700 text-green-100';
+  if (confidence >= 0.4) return 'bg-yellow-600 text-black';
+  return 'bg-red-700 text-red-100';
+};
+
+const REVIEW_COLORS: Record<ReviewStatus, string> = {
+  unreviewed: 'bg-gray-600 text-gray-200',
+  verified: 'bg-green-600 text-white',
+  'needs-call': 'bg-amber-500 text-black',
+  rejected: 'bg-red-600 text-white',
+};
+
+const formatTimestamp = (value?: string) => (value ? new Date(value).toLocaleString() : '');
+
+const CenterCard: React.FC<CenterCardProps> = ({ center, district, districtLabel, pincodeCheck, onReview, onEdit }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState({ centerName: '', address: '', contactDetails: '', doctors: '' });
+  const [notesDraft, setNotesDraft] = useState<string | null>(null);
+
+  const reviewStatus = getReviewStatus(center);
+  const otherDistricts = summarizeSightings(center).districts.filter(d => d !== districtLabel);
+  const { address, phones } = normalizeContact(center, district);
+  const scanner = formatCtScanner(center.ctScanner);
+  const hours = formatOperatingHours(center);
+  const ownership = [describeOwnership(center.ownership), center.chainName].filter(Boolean).join(' · ');
+  const hasDetails = Boolean(center.modalities?.length || scanner || hours || ownership || center.website || center.email);
+  const editedMark = (field: EditableCenterField) =>
+    isFieldEdited(center, field) ? <span className="text-xs text-purple-300 ml-1" title="Edited by a reviewer">(edited)</span> : null;
+
+  const startEditing = () => {
+    setDraft({
+      centerName: center.centerName,
+      address: center.address,
+      contactDetails: center.contactDetails,
+      doctors: (center.doctorDetails ?? []).join('\n'),
+    });
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    onEdit({
+      // A blank name would leave the card without a heading; keep the current one instead.
+      centerName: draft.centerName.trim() || undefined,
+      address: draft.address.trim(),
+      contactDetails: draft.contactDetails.trim(),
+      doctorDetails: draft.doctors.split('\n').map(doctor => doctor.trim()).filter(Boolean),
+    });
+    setIsEditing(false);
+  };
+
+  const handleNotesBlur = () => {
+    if (notesDraft !== null && notesDraft !== (center.review?.notes ?? '')) {
+      onReview({ notes: notesDraft });
+    }
+    setNotesDraft(null);
+  };
+
+  const inputClass = 'w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-gray-100';
+
+  return (
+    <div className={`bg-gray-700 p-4 rounded-lg ${reviewStatus === 'rejected' ? 'opacity-60' : ''}`}>
+      <div className="flex justify-between items-start gap-2">
+        {isEditing ? (
+          <input
+            value={draft.centerName}
+            onChange={event => setDraft({ ...draft, centerName: event.target.value })}
+            className={`${inputClass} font-bold`}
+            aria-label="Center name"
+          />
+        ) : (
+          <h4 className="font-bold text-cyan-400 text-lg">{center.centerName}{editedMark('centerName')}</h4>
+        )}
+        <a href={center.googleMapsLink} target="_blank" rel="noopener noreferrer" className="flex-shrink-0 inline-flex items-center gap-1 bg-blue-500 hover:bg-blue-600 text-white text-xs font-bold py-1 px-2 rounded-md transition-colors">
+          Map <MapLinkIcon />
+        </a>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mt-1 text-xs">
+        <span className={`px-2 py-0.5 rounded-md font-bold ${getConfidenceColor(center.confidence)}`}>
+          {formatConfidence(center.confidence)}
+        </span>
+        <span className="text-gray-400">{describeEvidenceCategory(center.evidenceCategory)}</span>
+        <span className={`px-2 py-0.5 rounded-md font-bold ${REVIEW_COLORS[reviewStatus]}`}>
+          {describeReviewStatus(reviewStatus)}
+        </span>
+      </div>
+
+      {isEditing ? (
+        <div className="mt-2 space-y-2">
+          <textarea
+            value={draft.address}
+            onChange={event => setDraft({ ...draft, address: event.target.value })}
+            rows={2}
+            className={inputClass}
+            aria-label="Address"
+          />
+          <input
+            value={draft.contactDetails}
+            onChange={event => setDraft({ ...draft, contactDetails: event.target.value })}
+            className={inputClass}
+            placeholder="Phone"
+            aria-label="Contact details"
+          />
+          <textarea
+            value={draft.doctors}
+            onChange={event => setDraft({ ...draft, doctors: event.target.value })}
+            rows={2}
+            className={inputClass}
+            placeholder="Doctors, one per line"
+            aria-label="Doctors"
+          />
+          <div className="flex gap-2">
+            <button onClick={handleSave} className="bg-cyan-600 hover:bg-cyan-700 text-white text-xs font-bold py-1 px-2 rounded-md transition-colors">
+              Save
+            </button>
+            <button onClick={() => setIsEditing(false)} className="bg-gray-600 hover:bg-gray-500 text-white text-xs font-bold py-1 px-2 rounded-md transition-colors">
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <p className="flex items-start gap-2 mt-2 text-sm text-gray-300"><LocationIcon />{center.address}{editedMark('address')}</p>
+          <p className="mt-1 ml-6 text-xs text-gray-400">
+            {[address.locality, address.city, address.state, address.pincode].filter(Boolean).join(' · ') || 'Address could not be parsed'}
+            {pincodeCheck !== 'in-district' && (
+              <span className={`ml-2 px-1.5 py-0.5 rounded font-bold ${pincodeCheck === 'outside-district' ? 'bg-orange-600 text-white' : 'bg-gray-600 text-gray-200'}`}>
+                {PINCODE_CHECK_LABELS[pincodeCheck]}
+              </span>
+            )}
+          </p>
+          <div className="flex items-start gap-2 mt-1 text-sm text-gray-300">
+            <PhoneIcon />
+            {phones.length > 0 ? (
+              <span className="flex flex-wrap gap-x-3">
+                {phones.map(phone => (
+                  <a key={phone.e164} href={`tel:${phone.e164}`} className="hover:text-cyan-300" title={phone.raw}>
+                    {phone.e164} <span className="text-xs text-gray-500">({PHONE_TYPE_LABELS[phone.type]})</span>
+                  </a>
+                ))}
+              </span>
+            ) : (
+              <span>{center.contactDetails || 'Not available'}</span>
+            )}
+            {editedMark('contactDetails')}
+          </div>
+          {hasDetails && (
+            <div className="mt-2 space-y-1 text-xs text-gray-300">
+              {center.modalities && center.modalities.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1">
+                  <span className="text-gray-500">Also offers</span>
+                  {center.modalities.map(modality => (
+                    <span key={modality} className="px-1.5 py-0.5 rounded bg-gray-800 text-cyan-200">{modality}</span>
+                  ))}
+                </div>
+              )}
+              {scanner && <p><span className="text-gray-500">CT scanner</span> {scanner}</p>}
+              {hours && <p><span className="text-gray-500">Hours</span> {hours}</p>}
+              {ownership && <p><span className="text-gray-500">Ownership</span> {ownership}</p>}
+              {(center.website || center.email) && (
+                <p className="flex flex-wrap gap-x-3">
+                  {center.website && /^https?:\/\//i.test(center.website) && (
+                    <a href={center.website} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 underline truncate">
+                      {center.website.replace(/^https?:\/\//i, '')}
+                    </a>
+                  )}
+                  {center.email && (
+                    <a href={`mailto:${center.email}`} className="text-blue-400 hover:text-blue-300 underline">{center.email}</a>
+                  )}
+                </p>
+              )}
+            </div>
+          )}
+          {center.doctorDetails && center.doctorDetails.length > 0 && (
+            <div className="mt-2 text-sm text-gray-300">
+              <p className="flex items-center gap-2 font-semibold"><DoctorIcon/> Associated Doctors:{editedMark('doctorDetails')}</p>
+              <ul className="list-disc list-inside ml-4 text-gray-400">
+                {center.doctorDetails.map((doc, i) => <li key={i}>{doc}</li>)}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="mt-3 pt-3 border-t border-gray-600">
+        <p className="flex items-start gap-2 text-sm text-gray-400">
+          <ReasoningIcon />
+          <span className="italic">"{center.reasoning}"</span>
+        </p>
+      </div>
+      {center.sources && center.sources.length > 0 && (
+        <div className="mt-2 text-xs">
+          <p className="text-gray-500">Sources</p>
+          <ul className="list-disc list-inside">
+            {center.sources.map(source => (
+              <li key={source.uri} className="truncate">
+                <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 underline">
+                  {source.title || source.uri}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {otherDistricts.length > 0 && (
+        <p className="mt-2 text-xs text-amber-300">Also found in: {otherDistricts.join('; ')}</p>
+      )}
+
+      <div className="mt-3 pt-3 border-t border-gray-600 space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          {REVIEW_STATUSES.map(status => (
+            <button
+              key={status.id}
+              onClick={() => onReview({ status: status.id })}
+              className={`text-xs font-bold py-1 px-2 rounded-md transition-colors ${
+                status.id === reviewStatus ? REVIEW_COLORS[status.id] : 'bg-gray-800 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {status.label}
+            </button>
+          ))}
+          {!isEditing && (
+            <button onClick={startEditing} className="ml-auto bg-gray-600 hover:bg-gray-500 text-white text-xs font-bold py-1 px-2 rounded-md transition-colors">
+              Edit
+            </button>
+          )}
+        </div>
+        <textarea
+          value={notesDraft ?? center.review?.notes ?? ''}
+          onChange={event => setNotesDraft(event.target.value)}
+          onBlur={handleNotesBlur}
+          rows={2}
+          placeholder="Reviewer notes"
+          className={inputClass}
+        />
+        {(center.review?.reviewedAt || center.review?.editedAt) && (
+          <p className="text-xs text-gray-500">
+            {center.review?.reviewedAt && `Reviewed ${formatTimestamp(center.review.reviewedAt)}`}
+            {center.review?.reviewedAt && center.review?.editedAt && ' · '}
+            {center.review?.editedAt && `Edited ${formatTimestamp(center.review.editedAt)}`}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CenterCard;
@@ -1,201 +1,112 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { CityData, ScanCenter, PincodeStatus } from '../types';
-import { findAndAnalyzeCTScans } from '../services/geminiService';
-import { CheckCircleIcon, ChevronDownIcon, ChevronUpIcon, DoctorIcon, LocationIcon, PhoneIcon, StopIcon, MapLinkIcon, ReasoningIcon, DownloadIcon } from './Icons';
+import React, { useEffect, useRef, useState } from 'react';
+import { CenterRegistry, CityData, PincodeStatus, ReviewStatus, ScanPlanAction } from '../types';
+import { resolveCenters } from '../services/centerRegistry';
+import { UsageTotals, formatUsd } from '../services/costAccounting';
+import { formatConfidence, meetsConfidenceThreshold } from '../services/centerEvidence';
+import { CenterEdits } from '../services/centerReview';
+import { checkPincodeInDistrict } from '../services/contactNormalization';
+import { POST_OFFICE_TYPE_LABELS, countPostalMismatches, describePostalMismatch } from '../services/postalDirectory';
+import { downloadResults } from '../services/resultsExport';
+import CenterCard from './CenterCard';
+import PincodeDetail from './PincodeDetail';
+import RunHistory from './RunHistory';
+import ScanPlanPanel from './ScanPlanPanel';
+import { CheckCircleIcon, ChevronDownIcon, ChevronUpIcon, StopIcon, DownloadIcon } from './Icons';
+
+const CONFIDENCE_THRESHOLDS = [0, 0.3, 0.5, 0.7, 0.9];
+// How long a tile opened from another view stays highlighted.
+const FOCUS_HIGHLIGHT_MS = 2000;
 
 interface CityTileProps {
   cityData: CityData;
-  onUpdate: (updater: (city: CityData) => CityData) => void;
+  centerRegistry: CenterRegistry;
+  /** Pincodes of this city currently waiting in or running on the global discovery queue. */
+  outstandingJobs: number;
+  /** Estimated Gemini spend for this district, if any calls were made. */
+  cost?: UsageTotals;
+  pincodeCosts: Record<string, UsageTotals>;
+  includeRejectedInExports: boolean;
+  /** Changes when another view asks to show this district; the tile then opens its results and scrolls into view. */
+  focusToken?: number;
+  onDiscover: () => void;
+  onStop: () => void;
+  onRetryPincode: (pincodeCode: string) => void;
+  /** Re-runs extraction on cached grounding answers; without codes, for every cached pincode. */
+  onReextract: (pincodeCodes?: string[]) => void;
+  /** Starts a fresh run, archiving the current one, even if the district is not complete. */
+  onRescan: () => void;
+  onSetRescanInterval: (days?: number) => void;
+  onOverrideScanPlan: (groupId: string, action: ScanPlanAction) => void;
+  onSetScanPlanThreshold: (yieldThreshold: number) => void;
+  onReviewCenter: (centerId: string, changes: { status?: ReviewStatus; notes?: string }) => void;
+  onEditCenter: (centerId: string, edits: CenterEdits) => void;
 }
 
-const MAX_RETRIES = 3;
-const RETRY_DELAY_MS = 5000;
-const MAX_CONCURRENT_PINCODES = 2;
-
-const CityTile: React.FC<CityTileProps> = ({ cityData, onUpdate }) => {
+const CityTile: React.FC<CityTileProps> = ({
+  cityData,
+  centerRegistry,
+  outstandingJobs,
+  cost,
+  pincodeCosts,
+  includeRejectedInExports,
+  focusToken,
+  onDiscover,
+  onStop,
+  onRetryPincode,
+  onReextract,
+  onRescan,
+  onSetRescanInterval,
+  onOverrideScanPlan,
+  onSetScanPlanThreshold,
+  onReviewCenter,
+  onEditCenter,
+}) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [isResultsVisible, setIsResultsVisible] = useState(false);
-  const isCancelled = useRef(false);
-  const latestCityRef = useRef(cityData);
+  const [selectedPincode, setSelectedPincode] = useState<string | null>(null);
+  const [minConfidence, setMinConfidence] = useState(0);
+  const [isHighlighted, setIsHighlighted] = useState(false);
+  const tileRef = useRef<HTMLDivElement | null>(null);
 
   useEffect(() => {
-    latestCityRef.current = cityData;
-  }, [cityData]);
+    if (focusToken === undefined) return;
+    setIsResultsVisible(true);
+    setIsHighlighted(true);
+    tileRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    const timer = setTimeout(() => setIsHighlighted(false), FOCUS_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [focusToken]);
 
-  const applyUpdate = useCallback(
-    (updater: (prevCity: CityData) => CityData) => {
-      onUpdate(prevCity => {
-        const nextCity = updater(prevCity);
-        latestCityRef.current = nextCity;
-        return nextCity;
-      });
-    },
-    [onUpdate]
-  );
-
-  const { name, pincodes, status, centersFound, results, error, population } = cityData;
+  const { name, stateName, pincodes, status, centersFound, centerIds, error, population } = cityData;
+  const results = resolveCenters(centerRegistry, centerIds);
+  const visibleResults = results.filter(center => meetsConfidenceThreshold(center, minConfidence));
+  const hiddenUnscoredCount = results.filter(center => center.confidence === undefined && !meetsConfidenceThreshold(center, minConfidence)).length;
+  const hiddenBelowCount = results.length - visibleResults.length - hiddenUnscoredCount;
+  const outsideDistrictCount = results.filter(center => checkPincodeInDistrict(center, cityData) === 'outside-district').length;
   const totalPincodes = pincodes.length;
+  const postalMismatchCount = countPostalMismatches(cityData);
+  const selectedPincodeData = selectedPincode ? pincodes.find(p => p.code === selectedPincode) : undefined;
   const progress = totalPincodes > 0 ? (pincodes.filter(p => p.status === 'scanned').length / totalPincodes) * 100 : 0;
 
-  useEffect(() => {
-    if (cityData.status !== 'running' || isCancelled.current) {
-      return;
-    }
-
-    const activeScans = cityData.pincodes.filter(
-      p => p.status === 'scanning' || p.status === 'retrying'
-    ).length;
-
-    const nextPincode = cityData.pincodes.find(
-      p => p.status === 'pending' || p.status === 'error'
-    );
-
-    if (!nextPincode) {
-      if (activeScans === 0 && cityData.pincodes.every(p => p.status === 'scanned')) {
-        applyUpdate(prevCity =>
-          prevCity.status === 'completed' ? prevCity : { ...prevCity, status: 'completed' }
-        );
-      }
-      return;
-    }
-
-    if (activeScans >= MAX_CONCURRENT_PINCODES) {
-      return;
-    }
-
-    const processPincode = async (pincodeCode: string) => {
-      let success = false;
-
-      for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-        if (isCancelled.current) break;
-
-        applyUpdate(prevCity => ({
-          ...prevCity,
-          pincodes: prevCity.pincodes.map(p =>
-            p.code === pincodeCode
-              ? { ...p, status: attempt > 1 ? 'retrying' : 'scanning' }
-              : p
-          ),
-        }));
-
-        try {
-          const currentResults = latestCityRef.current?.results ?? [];
-          const centers = await findAndAnalyzeCTScans(pincodeCode, currentResults);
-          if (isCancelled.current) break;
-
-          applyUpdate(prevCity => ({
-            ...prevCity,
-            results: [...prevCity.results, ...centers],
-            centersFound: prevCity.centersFound + centers.length,
-            pincodes: prevCity.pincodes.map(p =>
-              p.code === pincodeCode ? { ...p, status: 'scanned' } : p
-            ),
-            error: undefined,
-          }));
-          success = true;
-          break;
-        } catch (err) {
-          console.error(`Attempt ${attempt} failed for pincode ${pincodeCode}:`, err);
-          if (attempt < MAX_RETRIES) {
-            await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS));
-          }
-        }
-      }
-
-      if (!success && !isCancelled.current) {
-        applyUpdate(prevCity => ({
-          ...prevCity,
-          pincodes: prevCity.pincodes.map(p =>
-            p.code === pincodeCode ? { ...p, status: 'error' } : p
-          ),
-          error: `Failed on pincode ${pincodeCode}.`,
-        }));
-      }
-    };
-
-    processPincode(nextPincode.code);
-  }, [applyUpdate, cityData]);
-
   const handleDiscover = () => {
-    isCancelled.current = false;
     setIsExpanded(true);
-
-    applyUpdate(prevCity => {
-      const hasScannedPincodes = prevCity.pincodes.some(p => p.status === 'scanned');
-
-      if (prevCity.status === 'completed' || !hasScannedPincodes) {
-        return {
-          ...prevCity,
-          status: 'running',
-          currentPincodeIndex: 0,
-          centersFound: 0,
-          results: [],
-          error: undefined,
-          pincodes: prevCity.pincodes.map(p => ({ ...p, status: 'pending' })),
-        };
-      }
-
-      return {
-        ...prevCity,
-        status: 'running',
-        error: undefined,
-      };
-    });
-  };
-
-  const handleManualRetry = (pincodeCode: string) => {
-    applyUpdate(prevCity => ({
-      ...prevCity,
-      status: 'running',
-      pincodes: prevCity.pincodes.map(p =>
-        p.code === pincodeCode ? { ...p, status: 'pending' } : p
-      ),
-      error: undefined,
-    }));
-  };
-
-  const handleStop = () => {
-    isCancelled.current = true;
-    applyUpdate(prevCity => ({
-      ...prevCity,
-      status: 'stopped',
-      pincodes: prevCity.pincodes.map(p =>
-        p.status === 'scanning' || p.status === 'retrying' ? { ...p, status: 'pending' } : p
-      ),
-    }));
+    onDiscover();
   };
 
   const handleDownload = () => {
     if (results.length === 0) return;
-    const headers = ['Center Name', 'Address', 'Contact Details', 'Doctor Details', 'Google Maps Link', 'Reasoning'];
-    const escapeCsvField = (field: string) => `"${String(field).replace(/"/g, '""')}"`;
-    const rows = results.map(center => [
-      escapeCsvField(center.centerName),
-      escapeCsvField(center.address),
-      escapeCsvField(center.contactDetails || ''),
-      escapeCsvField(center.doctorDetails?.join('; ') || ''),
-      escapeCsvField(center.googleMapsLink),
-      escapeCsvField(center.reasoning)
-    ].join(','));
-    const csvContent = [headers.join(','), ...rows].join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', `CT_Scan_Results_${name.replace(/\s+/g, '_')}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadResults({ [stateName]: [cityData] }, centerRegistry, 'csv', `CT_Scan_Results_${name}`, { includeRejected: includeRejectedInExports });
   };
 
   const getStatusInfo = () => {
     const scannedCount = pincodes.filter(p => p.status === 'scanned').length;
+    const skippedCount = pincodes.filter(p => p.status === 'skipped').length;
+    const skippedNote = skippedCount > 0 ? `, ${skippedCount} skipped by the scan plan` : '';
     switch (status) {
       case 'idle': return <p className="text-gray-400">Ready to start discovery.</p>;
-      case 'running': return <p className="text-cyan-400 animate-pulse">Scanning... ({scannedCount}/{totalPincodes} complete)</p>;
-      case 'stopped': return <p className="text-yellow-400">Search stopped. ({scannedCount}/{totalPincodes} complete)</p>;
-      case 'completed': return <p className="text-green-400 flex items-center gap-1"><CheckCircleIcon/> Discovery complete.</p>;
+      case 'running': return <p className="text-cyan-400 animate-pulse">Scanning... ({scannedCount}/{totalPincodes} complete{skippedNote}, {outstandingJobs} in queue)</p>;
+      case 'stopped': return <p className="text-yellow-400">Search stopped. ({scannedCount}/{totalPincodes} complete{skippedNote})</p>;
+      case 'completed': return <p className="text-green-400 flex items-center gap-1"><CheckCircleIcon/> Discovery complete{skippedCount > 0 ? ` (${skippedCount} pincodes skipped by the scan plan)` : ''}.</p>;
       case 'error': return <p className="text-red-500">An error occurred: {error}</p>;
       default: return null;
     }
@@ -203,10 +114,12 @@ const CityTile: React.FC<CityTileProps> = ({ cityData, onUpdate }) => {
 
   const getPincodeColor = (pincodeStatus: PincodeStatus) => {
     switch (pincodeStatus) {
+      case 'queued': return 'bg-indigo-700 text-indigo-100';
       case 'scanning': return 'bg-yellow-500 text-black animate-pulse';
       case 'retrying': return 'bg-orange-500 text-black animate-pulse';
       case 'scanned': return 'bg-green-600 text-white';
-      case 'error': return 'bg-red-600 text-white cursor-pointer hover:bg-red-500';
+      case 'error': return 'bg-red-600 text-white hover:bg-red-500';
+      case 'skipped': return 'bg-gray-700 text-gray-500 line-through';
       default: return 'bg-gray-600 text-gray-300';
     }
   };
@@ -219,18 +132,24 @@ const CityTile: React.FC<CityTileProps> = ({ cityData, onUpdate }) => {
   };
 
   return (
-    <div className="bg-gray-800 rounded-lg shadow-lg p-5 flex flex-col transition-all duration-300">
+    <div ref={tileRef} className={`bg-gray-800 rounded-lg shadow-lg p-5 flex flex-col transition-all duration-300 ${isHighlighted ? 'ring-2 ring-amber-400' : ''}`}>
       <header className="flex justify-between items-start">
           <div>
               <h2 className="text-2xl font-bold text-white">{name}</h2>
               <div className="text-gray-400 text-sm flex flex-wrap gap-x-4 gap-y-1 mt-1">
                   <span>{totalPincodes} pincodes</span>
                   {population > 0 && <span>Pop: {population.toLocaleString()}</span>}
+                  {cost && <span title={`${cost.calls} Gemini calls`}>Est. cost: {formatUsd(cost.costUsd)}</span>}
+                  {postalMismatchCount > 0 && (
+                    <span className="text-orange-300" title="The postal directory places these pincodes in another district or state">
+                      {postalMismatchCount} pincode{postalMismatchCount === 1 ? '' : 's'} outside this district
+                    </span>
+                  )}
               </div>
           </div>
           <div className="flex-shrink-0">
             {status === 'running' ? (
-              <button onClick={handleStop} className="flex items-center justify-center gap-2 bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+              <button onClick={onStop} className="flex items-center justify-center gap-2 bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">
                 <StopIcon/> Stop
               </button>
             ) : (
@@ -260,22 +179,57 @@ const CityTile: React.FC<CityTileProps> = ({ cityData, onUpdate }) => {
                 {isExpanded ? <ChevronUpIcon /> : <ChevronDownIcon />}
               </button>
               {isExpanded && (
-                <div className="flex flex-wrap gap-2 animate-fade-in">
-                  {pincodes.map(p => (
-                    <div 
-                      key={p.code} 
-                      className={`px-2 py-1 rounded-md text-xs font-mono transition-colors duration-500 ${getPincodeColor(p.status)}`}
-                      onClick={p.status === 'error' ? () => handleManualRetry(p.code) : undefined}
-                      title={p.status === 'error' ? 'Click to retry this pincode' : ''}
-                    >
-                      {p.code}
+                <div className="animate-fade-in">
+                  {status !== 'running' && pincodes.some(p => p.status === 'scanned' || p.status === 'error') && (
+                    <div className="flex justify-end mb-2">
+                      <button
+                        onClick={() => onReextract()}
+                        className="bg-gray-600 hover:bg-gray-500 text-white text-xs font-bold py-1 px-2 rounded-md transition-colors"
+                        title="Run extraction again for every pincode with a cached grounding answer, using the active prompts and no new searches"
+                      >
+                        Re-extract from cache
+                      </button>
                     </div>
-                  ))}
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    {pincodes.map(p => (
+                      <button
+                        key={p.code}
+                        className={`px-2 py-1 rounded-md text-xs font-mono transition-colors duration-500 ${getPincodeColor(p.status)} ${p.code === selectedPincode ? 'ring-2 ring-cyan-300' : p.postal?.mismatch ? 'ring-2 ring-orange-400' : ''}`}
+                        onClick={() => setSelectedPincode(p.code === selectedPincode ? null : p.code)}
+                        title={[
+                          p.postal && `${p.postal.locality} (${POST_OFFICE_TYPE_LABELS[p.postal.officeType]})`,
+                          p.postal && describePostalMismatch(p.postal),
+                          p.status === 'skipped' && 'Skipped by the scan plan',
+                          p.lastError ? `Last error: ${p.lastError}` : 'Click for scan details',
+                        ].filter(Boolean).join('\n')}
+                      >
+                        {p.code}
+                        {p.postal && <span className="block font-sans text-[10px] leading-tight opacity-80 max-w-[7rem] truncate">{p.postal.locality}</span>}
+                      </button>
+                    ))}
+                  </div>
+                  {selectedPincodeData && (
+                    <PincodeDetail
+                      pincode={selectedPincodeData}
+                      centerRegistry={centerRegistry}
+                      cost={pincodeCosts[selectedPincodeData.code]}
+                      onRetry={() => onRetryPincode(selectedPincodeData.code)}
+                      onReextract={() => onReextract([selectedPincodeData.code])}
+                      onClose={() => setSelectedPincode(null)}
+                    />
+                  )}
                 </div>
               )}
             </div>
           )}
 
+          <ScanPlanPanel cityData={cityData} onOverride={onOverrideScanPlan} onSetThreshold={onSetScanPlanThreshold} />
+
+          {(cityData.currentRun || pincodes.some(p => p.status === 'scanned')) && (
+            <RunHistory cityData={cityData} onRescan={onRescan} onSetRescanInterval={onSetRescanInterval} />
+          )}
+
           {results.length > 0 && (
               <div className="mt-4 border-t border-gray-700 pt-4">
                 <div className="flex justify-between items-center">
@@ -292,33 +246,46 @@ const CityTile: React.FC<CityTileProps> = ({ cityData, onUpdate }) => {
                       Download
                   </button>
                 </div>
+                {isResultsVisible && (
+                  <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-gray-400">
+                    <label className="flex items-center gap-1">
+                      Minimum confidence
+                      <select
+                        value={minConfidence}
+                        onChange={event => setMinConfidence(parseFloat(event.target.value))}
+                        className="bg-gray-900 border border-gray-700 text-gray-100 rounded-lg py-1 px-2"
+                      >
+                        {CONFIDENCE_THRESHOLDS.map(threshold => (
+                          <option key={threshold} value={threshold}>{threshold === 0 ? 'Any' : formatConfidence(threshold)}</option>
+                        ))}
+                      </select>
+                    </label>
+                    {visibleResults.length < results.length && (
+                      <span>
+                        Showing {visibleResults.length} of {results.length};{' '}
+                        {[
+                          hiddenBelowCount > 0 ? `${hiddenBelowCount} below the confidence filter` : '',
+                          hiddenUnscoredCount > 0 ? `${hiddenUnscoredCount} unscored` : '',
+                        ].filter(Boolean).join(' and ')} hidden.
+                      </span>
+                    )}
+                    {outsideDistrictCount > 0 && (
+                      <span className="text-orange-300">{outsideDistrictCount} with a pincode outside this district</span>
+                    )}
+                  </div>
+                )}
                 {isResultsVisible && (
                   <div className="mt-4 space-y-4 max-h-80 overflow-y-auto pr-2 animate-fade-in">
-                    {results.map((center, index) => (
-                      <div key={`${center.centerName}-${index}`} className="bg-gray-700 p-4 rounded-lg">
-                        <div className="flex justify-between items-start gap-2">
-                            <h4 className="font-bold text-cyan-400 text-lg">{center.centerName}</h4>
-                            <a href={center.googleMapsLink} target="_blank" rel="noopener noreferrer" className="flex-shrink-0 inline-flex items-center gap-1 bg-blue-500 hover:bg-blue-600 text-white text-xs font-bold py-1 px-2 rounded-md transition-colors">
-                                Map <MapLinkIcon />
-                            </a>
-                        </div>
-                        <p className="flex items-start gap-2 mt-2 text-sm text-gray-300"><LocationIcon />{center.address}</p>
-                        <p className="flex items-center gap-2 mt-1 text-sm text-gray-300"><PhoneIcon />{center.contactDetails || 'Not available'}</p>
-                        {center.doctorDetails && center.doctorDetails.length > 0 && (
-                            <div className="mt-2 text-sm text-gray-300">
-                                <p className="flex items-center gap-2 font-semibold"><DoctorIcon/> Associated Doctors:</p>
-                                <ul className="list-disc list-inside ml-4 text-gray-400">
-                                    {center.doctorDetails.map((doc, i) => <li key={i}>{doc}</li>)}
-                                </ul>
-                            </div>
-                        )}
-                          <div className="mt-3 pt-3 border-t border-gray-600">
-                              <p className="flex items-start gap-2 text-sm text-gray-400">
-                                  <ReasoningIcon />
-                                  <span className="italic">"{center.reasoning}"</span>
-                              </p>
-                          </div>
-                      </div>
+                    {visibleResults.map(center => (
+                      <CenterCard
+                        key={center.id}
+                        center={center}
+                        district={name}
+                        districtLabel={`${name}, ${stateName}`}
+                        pincodeCheck={checkPincodeInDistrict(center, cityData)}
+                        onReview={changes => onReviewCenter(center.id, changes)}
+                        onEdit={edits => onEditCenter(center.id, edits)}
+                      />
                     ))}
                   </div>
                 )}
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import {
+  BudgetSettings,
+  CostSummary,
+  ModelPricing,
+  PriceTable,
+  UsageTotals,
+  formatUsd,
+} from '../services/costAccounting';
+import { ChevronDownIcon, ChevronUpIcon } from './Icons';
+
+interface CostPanelProps {
+  summary: CostSummary;
+  budget: BudgetSettings;
+  budgetSpendUsd: number;
+  isOverBudget: boolean;
+  priceTable: PriceTable;
+  onUpdateBudget: (budget: BudgetSettings) => void;
+  onUpdatePriceTable: (priceTable: PriceTable) => void;
+}
+
+const PRICE_FIELDS: { key: keyof ModelPricing; label: string }[] = [
+  { key: 'inputPerMillion', label: 'Input / 1M tokens' },
+  { key: 'outputPerMillion', label: 'Output / 1M tokens' },
+  { key: 'groundingPerMillion', label: 'Grounding / 1M tokens' },
+  { key: 'perGroundedRequest', label: 'Per grounded call' },
+];
+
+const formatTokens = (totals: UsageTotals) =>
+  `${totals.inputTokens.toLocaleString()} in · ${totals.outputTokens.toLocaleString()} out · ${totals.groundingTokens.toLocaleString()} grounding`;
+
+const CostPanel: React.FC<CostPanelProps> = ({
+  summary,
+  budget,
+  budgetSpendUsd,
+  isOverBudget,
+  priceTable,
+  onUpdateBudget,
+  onUpdatePriceTable,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const topStates = Object.entries<UsageTotals>(summary.byState).sort(([, a], [, b]) => b.costUsd - a.costUsd);
+
+  const handleCapChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(event.target.value);
+    onUpdateBudget({ ...budget, capUsd: event.target.value === '' || isNaN(value) || value < 0 ? null : value });
+  };
+
+  const handlePriceChange = (model: string, key: keyof ModelPricing) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(event.target.value);
+    if (!isNaN(value) && value >= 0) {
+      onUpdatePriceTable({ ...priceTable, [model]: { ...priceTable[model], [key]: value } });
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-4 mb-6 text-sm">
+      <button onClick={() => setIsExpanded(!isExpanded)} className="w-full flex justify-between items-center text-left">
+        <div>
+          <h3 className="font-bold text-cyan-400 text-lg">Cost &amp; Budget</h3>
+          <p className="text-gray-400">
+            This session {formatUsd(summary.session.costUsd)} · all recorded calls {formatUsd(summary.total.costUsd)}
+            {budget.capUsd !== null && ` · budget ${formatUsd(budgetSpendUsd)} of ${formatUsd(budget.capUsd)}`}
+          </p>
+        </div>
+        {isExpanded ? <ChevronUpIcon /> : <ChevronDownIcon />}
+      </button>
+
+      {isOverBudget && (
+        <p className="mt-3 bg-red-900/50 border border-red-700 text-red-200 rounded-md p-2">
+          Budget cap reached: {formatUsd(budgetSpendUsd)} spent of {formatUsd(budget.capUsd ?? 0)}. Discovery is paused;
+          raise the cap or start a new budget period to continue.
+        </p>
+      )}
+
+      {isExpanded && (
+        <div className="mt-4 space-y-5 animate-fade-in">
+          <div className="text-gray-300 space-y-1">
+            <p>Session: {summary.session.calls} calls · {formatTokens(summary.session)}</p>
+            <p>All recorded: {summary.total.calls} calls · {formatTokens(summary.total)}</p>
+            {summary.unattributed.calls > 0 && (
+              <p className="text-gray-500">
+                {summary.unattributed.calls} calls ({formatUsd(summary.unattributed.costUsd)}) are for pincodes not in any loaded district.
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-1 text-gray-400">
+              Budget cap (USD)
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={budget.capUsd ?? ''}
+                placeholder="No cap"
+                onChange={handleCapChange}
+                className="w-24 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-100"
+              />
+            </label>
+            <span className="text-gray-500">
+              Counting {budget.periodStartedAt ? `since ${new Date(budget.periodStartedAt).toLocaleString()}` : 'every recorded call'}
+            </span>
+            <button
+              onClick={() => onUpdateBudget({ ...budget, periodStartedAt: new Date().toISOString() })}
+              className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-1 px-3 rounded-lg transition-colors"
+            >
+              Start new budget period
+            </button>
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-gray-200 mb-2">Prices (USD)</h4>
+            <table className="w-full text-left text-gray-300">
+              <thead className="text-gray-500 text-xs">
+                <tr><th>Model</th>{PRICE_FIELDS.map(field => <th key={field.key}>{field.label}</th>)}</tr>
+              </thead>
+              <tbody>
+                {Object.entries(priceTable).map(([model, pricing]) => (
+                  <tr key={model}>
+                    <td className="font-mono text-xs">{model}</td>
+                    {PRICE_FIELDS.map(field => (
+                      <td key={field.key}>
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.001"
+                          value={pricing[field.key]}
+                          onChange={handlePriceChange(model, field.key)}
+                          className="w-20 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-100"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {topStates.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-gray-200 mb-2">By state</h4>
+              <ul className="space-y-1 text-gray-300 max-h-40 overflow-y-auto">
+                {topStates.map(([stateName, totals]) => (
+                  <li key={stateName}>{stateName}: {formatUsd(totals.costUsd)} · {totals.calls} calls</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CostPanel;
@@ -0,0 +1,308 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CenterRegistry, CityData, RegisteredCenter } from '../types';
+import {
+  BoundaryFeature,
+  DISTRICT_BOUNDARIES_URL,
+  DistrictMapEntry,
+  MapProjection,
+  MarkerCluster,
+  SHADING_METRICS,
+  ShadingMetric,
+  buildDistrictMapEntries,
+  clusterPoints,
+  createProjection,
+  formatDistrictMetric,
+  geometryToPath,
+  getDistrictMetric,
+  getEntriesBounds,
+  getShadeColor,
+  loadDistrictBoundaries,
+  matchDistrictBoundaries,
+} from '../services/coverageMap';
+import { cityKey } from '../services/discoveryQueue';
+import { ChevronDownIcon, ChevronUpIcon, MapLinkIcon } from './Icons';
+
+interface CoverageMapProps {
+  groupedCities: Record<string, CityData[]>;
+  centerRegistry: CenterRegistry;
+  /** Opens the district's tile in the state list. */
+  onShowCity: (city: CityData) => void;
+}
+
+const WIDTH = 800;
+const HEIGHT = 560;
+const CLUSTER_CELL_PX = 36;
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 64;
+
+// Selections hold keys, not objects, so the panel shows current data while discovery runs.
+type Selection = { kind: 'district'; key: string } | { kind: 'center'; centerId: string };
+
+interface MapView {
+  zoom: number;
+  /** Screen-space translation applied after scaling. */
+  x: number;
+  y: number;
+}
+
+type MappedCenter = DistrictMapEntry['centers'][number];
+
+const entryKey = (entry: DistrictMapEntry) => cityKey(entry.city.stateName, entry.city.name);
+
+const buttonClass = 'bg-gray-600 hover:bg-gray-500 text-white font-bold py-1 px-3 rounded-lg transition-colors';
+
+const CoverageMap: React.FC<CoverageMapProps> = ({ groupedCities, centerRegistry, onShowCity }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  // undefined while loading; null when no boundary file is deployed.
+  const [boundaries, setBoundaries] = useState<BoundaryFeature[] | null | undefined>(undefined);
+  const [metric, setMetric] = useState<ShadingMetric>('progress');
+  const [view, setView] = useState<MapView>({ zoom: 1, x: 0, y: 0 });
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const dragRef = useRef<{ startX: number; startY: number; viewX: number; viewY: number; moved: boolean } | null>(null);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+
+  useEffect(() => {
+    if (isExpanded && boundaries === undefined) {
+      loadDistrictBoundaries().then(setBoundaries);
+    }
+  }, [isExpanded, boundaries]);
+
+  const cities: CityData[] = useMemo(() => Object.values<CityData[]>(groupedCities).flat(), [groupedCities]);
+  const boundaryMatches: Map<string, BoundaryFeature> = useMemo(
+    () => (boundaries ? matchDistrictBoundaries(boundaries, cities) : new Map<string, BoundaryFeature>()),
+    [boundaries, cities]
+  );
+  const entries: DistrictMapEntry[] = useMemo(
+    () => (isExpanded ? buildDistrictMapEntries(groupedCities, centerRegistry, boundaryMatches) : []),
+    [isExpanded, groupedCities, centerRegistry, boundaryMatches]
+  );
+  const projection: MapProjection = useMemo(() => createProjection(getEntriesBounds(entries), WIDTH, HEIGHT), [entries]);
+  const paths: Map<DistrictMapEntry, string> = useMemo(
+    () => new Map(entries.filter(entry => entry.boundary).map(entry => [entry, geometryToPath(entry.boundary!.geometry, projection)])),
+    [entries, projection]
+  );
+
+  const metricValues = new Map(entries.map(entry => [entry, getDistrictMetric(entry.city, metric)]));
+  const maxMetric = Math.max(0, ...Array.from(metricValues.values()).map(value => value ?? 0));
+
+  // Each center is drawn once even when several districts list it.
+  const clusters: MarkerCluster<MappedCenter>[] = useMemo(() => {
+    const seen = new Set<string>();
+    const points = entries.flatMap(entry => entry.centers.filter(center => {
+      if (seen.has(center.id)) return false;
+      seen.add(center.id);
+      return true;
+    })).map(center => ({ ...projection.project(center.coordinates), item: center }));
+    return clusterPoints(points, CLUSTER_CELL_PX, view.zoom);
+  }, [entries, projection, view.zoom]);
+
+  const unplacedCount = entries.filter(entry => !entry.boundary && !entry.centroid).length;
+  const toScreen = (x: number, y: number) => ({ x: x * view.zoom + view.x, y: y * view.zoom + view.y });
+
+  const zoomAt = (factor: number, screenX = WIDTH / 2, screenY = HEIGHT / 2) => {
+    setView((prev: MapView) => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.zoom * factor));
+      const mapX = (screenX - prev.x) / prev.zoom;
+      const mapY = (screenY - prev.y) / prev.zoom;
+      return { zoom, x: screenX - mapX * zoom, y: screenY - mapY * zoom };
+    });
+  };
+
+  const toSvgPoint = (event: React.PointerEvent) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0, y: 0 };
+    return { x: ((event.clientX - rect.left) / rect.width) * WIDTH, y: ((event.clientY - rect.top) / rect.height) * HEIGHT };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    const point = toSvgPoint(event);
+    dragRef.current = { startX: point.x, startY: point.y, viewX: view.x, viewY: view.y, moved: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = toSvgPoint(event);
+    const dx = point.x - drag.startX;
+    const dy = point.y - drag.startY;
+    if (!drag.moved && Math.hypot(dx, dy) < 4) return;
+    drag.moved = true;
+    setView((prev: MapView) => ({ ...prev, x: drag.viewX + dx, y: drag.viewY + dy }));
+  };
+
+  // A drag that moved the map should not also count as a click on whatever it ended over.
+  const wasDragged = () => Boolean(dragRef.current?.moved);
+  const endDrag = () => {
+    setTimeout(() => { dragRef.current = null; }, 0);
+  };
+
+  const selectedEntry = selection?.kind === 'district' ? entries.find(entry => entryKey(entry) === selection.key) : undefined;
+  const selectedCenter: RegisteredCenter | undefined = selection?.kind === 'center' ? centerRegistry[selection.centerId] : undefined;
+  const selectedCenterEntries = selectedCenter ? entries.filter(entry => entry.centers.some(c => c.id === selectedCenter.id)) : [];
+
+  const handleClusterClick = (cluster: MarkerCluster<MappedCenter>) => {
+    if (wasDragged()) return;
+    if (cluster.items.length === 1 || view.zoom >= MAX_ZOOM) {
+      setSelection({ kind: 'center', centerId: cluster.items[0].id });
+    } else {
+      const screen = toScreen(cluster.x, cluster.y);
+      zoomAt(2, screen.x, screen.y);
+    }
+  };
+
+  const renderDistrict = (entry: DistrictMapEntry) => {
+    const fill = getShadeColor(metricValues.get(entry), maxMetric);
+    const isSelected = selectedEntry === entry;
+    const title = `${entry.city.name}, ${entry.city.stateName}: ${formatDistrictMetric(metricValues.get(entry), metric)}`;
+    const onClick = () => { if (!wasDragged()) setSelection({ kind: 'district', key: entryKey(entry) }); };
+    const path = paths.get(entry);
+    if (path) {
+      return (
+        <path
+          key={entryKey(entry)}
+          d={path}
+          fill={fill}
+          stroke={isSelected ? '#fbbf24' : '#111827'}
+          strokeWidth={(isSelected ? 2 : 0.5) / view.zoom}
+          onClick={onClick}
+          className="cursor-pointer"
+        >
+          <title>{title}</title>
+        </path>
+      );
+    }
+    if (!entry.centroid) return null;
+    const { x, y } = projection.project(entry.centroid);
+    return (
+      <circle
+        key={entryKey(entry)}
+        cx={x}
+        cy={y}
+        r={22 / view.zoom}
+        fill={fill}
+        fillOpacity={0.6}
+        stroke={isSelected ? '#fbbf24' : '#1f2937'}
+        strokeWidth={(isSelected ? 2 : 1) / view.zoom}
+        onClick={onClick}
+        className="cursor-pointer"
+      >
+        <title>{title}</title>
+      </circle>
+    );
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-4 mb-6 text-sm">
+      <button onClick={() => setIsExpanded(!isExpanded)} className="w-full flex justify-between items-center text-left">
+        <div>
+          <h3 className="font-bold text-cyan-400 text-lg">Coverage Map</h3>
+          <p className="text-gray-400">Geocoded centers and district coverage, drawn without any map service</p>
+        </div>
+        {isExpanded ? <ChevronUpIcon /> : <ChevronDownIcon />}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-3 animate-fade-in">
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-1 text-gray-400">
+              Shade districts by
+              <select
+                value={metric}
+                onChange={event => setMetric(event.target.value as ShadingMetric)}
+                className="bg-gray-900 border border-gray-700 text-gray-100 rounded-lg py-1 px-2"
+              >
+                {SHADING_METRICS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+              </select>
+            </label>
+            <div className="ml-auto flex items-center gap-2">
+              <button onClick={() => zoomAt(2)} className={buttonClass} aria-label="Zoom in">+</button>
+              <button onClick={() => zoomAt(0.5)} className={buttonClass} aria-label="Zoom out">−</button>
+              <button onClick={() => setView({ zoom: 1, x: 0, y: 0 })} className={buttonClass}>Reset view</button>
+            </div>
+          </div>
+
+          <div className="flex flex-col lg:flex-row gap-3">
+            <svg
+              ref={svgRef}
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              className="w-full lg:w-2/3 bg-gray-900 rounded-lg touch-none select-none cursor-grab"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={endDrag}
+              onPointerLeave={endDrag}
+            >
+              <g transform={`translate(${view.x} ${view.y}) scale(${view.zoom})`}>
+                {entries.map(renderDistrict)}
+              </g>
+              {clusters.map(cluster => {
+                const { x, y } = toScreen(cluster.x, cluster.y);
+                const count = cluster.items.length;
+                const radius = count === 1 ? 5 : Math.min(18, 8 + Math.log2(count) * 2);
+                return (
+                  <g key={`${cluster.items[0].id}|${count}`} transform={`translate(${x} ${y})`} onClick={() => handleClusterClick(cluster)} className="cursor-pointer">
+                    <circle r={radius} fill={count === 1 ? '#f97316' : '#ea580c'} stroke="#fff" strokeWidth={1.5} />
+                    {count > 1 && <text textAnchor="middle" dy="0.35em" fontSize={10} fill="#fff" fontWeight="bold">{count}</text>}
+                    <title>{count === 1 ? cluster.items[0].centerName : `${count} centers; click to zoom in`}</title>
+                  </g>
+                );
+              })}
+            </svg>
+
+            <div className="lg:w-1/3 space-y-3">
+              <div>
+                <p className="text-gray-400 mb-1">{SHADING_METRICS.find(option => option.id === metric)?.label}</p>
+                <div className="h-3 rounded" style={{ background: `linear-gradient(to right, ${getShadeColor(0, 1)}, ${getShadeColor(1, 1)})` }}></div>
+                <div className="flex justify-between text-xs text-gray-500">
+                  <span>{formatDistrictMetric(0, metric)}</span>
+                  <span>{formatDistrictMetric(maxMetric, metric)}</span>
+                </div>
+              </div>
+              {boundaries === undefined && <p className="text-gray-500">Loading district boundaries…</p>}
+              {boundaries === null && (
+                <p className="text-gray-500">
+                  No boundary file at <code>{DISTRICT_BOUNDARIES_URL}</code>; districts are drawn as circles around their geocoded centers.
+                </p>
+              )}
+              {boundaries && (
+                <p className="text-gray-500">{boundaryMatches.size} of {cities.length} districts matched to a boundary.</p>
+              )}
+              {unplacedCount > 0 && (
+                <p className="text-gray-500">{unplacedCount} districts have neither a boundary nor geocoded centers and are not shown.</p>
+              )}
+
+              {selectedEntry && (
+                <div className="bg-gray-700 rounded-lg p-3 space-y-1">
+                  <p className="font-bold text-cyan-300">{selectedEntry.city.name}, {selectedEntry.city.stateName}</p>
+                  <p className="text-gray-300">{formatDistrictMetric(metricValues.get(selectedEntry), metric)}</p>
+                  <p className="text-gray-400">
+                    {selectedEntry.city.centerIds.length} centers, {selectedEntry.centers.length} with coordinates
+                  </p>
+                  <button onClick={() => onShowCity(selectedEntry.city)} className={buttonClass}>Go to district</button>
+                </div>
+              )}
+              {selectedCenter && (
+                <div className="bg-gray-700 rounded-lg p-3 space-y-1">
+                  <p className="font-bold text-cyan-300">{selectedCenter.centerName}</p>
+                  <p className="text-gray-300">{selectedCenter.address}</p>
+                  <a href={selectedCenter.googleMapsLink} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-blue-400 hover:text-blue-300">
+                    Open in Google Maps <MapLinkIcon />
+                  </a>
+                  <div className="flex flex-wrap gap-2 pt-1">
+                    {selectedCenterEntries.map(entry => (
+                      <button key={entryKey(entry)} onClick={() => onShowCity(entry.city)} className={buttonClass}>
+                        {entry.city.name}, {entry.city.stateName}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {!selectedEntry && !selectedCenter && <p className="text-gray-500">Drag to pan. Click a district or marker for details; click a numbered cluster to zoom in.</p>}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CoverageMap;
@@ -0,0 +1,206 @@
+import React, { useMemo, useState } from 'react';
+import { CenterRegistry, CityData } from '../types';
+import {
+  COVERAGE_LEVEL_LABELS,
+  CoverageAnalysis,
+  CoverageLevel,
+  CoverageRow,
+  CoverageSettings,
+  CoverageSortKey,
+  analyzeCoverage,
+  downloadCoverageAnalysis,
+  formatPerMillion,
+  isUnderserved,
+  loadCoverageSettings,
+  saveCoverageSettings,
+  sortCoverageRows,
+} from '../services/coverageAnalytics';
+import { ChevronDownIcon, ChevronUpIcon } from './Icons';
+
+interface CoveragePanelProps {
+  groupedCities: Record<string, CityData[]>;
+  centerRegistry: CenterRegistry;
+  onShowCity: (city: CityData) => void;
+}
+
+// Matches the telemetry log: enough to scan by eye; the export always has every district.
+const MAX_DISTRICT_ROWS = 200;
+
+const SORT_OPTIONS: { id: string; label: string; key: CoverageSortKey; direction: 'asc' | 'desc' }[] = [
+  { id: 'least-served', label: 'Least served first', key: 'centersPerMillion', direction: 'asc' },
+  { id: 'best-served', label: 'Best served first', key: 'centersPerMillion', direction: 'desc' },
+  { id: 'population', label: 'Largest population first', key: 'population', direction: 'desc' },
+  { id: 'least-scanned', label: 'Least scanned first', key: 'scanCompleteness', direction: 'asc' },
+  { id: 'name', label: 'Name', key: 'name', direction: 'asc' },
+];
+
+const LEVEL_COLORS: Record<CoverageLevel, string> = {
+  'not-scanned': 'text-gray-500',
+  none: 'text-red-400 font-semibold',
+  'below-threshold': 'text-orange-300',
+  adequate: 'text-green-400',
+  'no-population': 'text-gray-400',
+};
+
+const formatPercent = (share: number) => `${Math.round(share * 100)}%`;
+
+const CompletenessBar: React.FC<{ share: number }> = ({ share }) => (
+  <div className="flex items-center gap-2">
+    <div className="w-20 bg-gray-700 rounded-full h-2">
+      <div className="bg-cyan-600 h-2 rounded-full" style={{ width: formatPercent(share) }}></div>
+    </div>
+    <span className="text-xs">{formatPercent(share)}</span>
+  </div>
+);
+
+const CoveragePanel: React.FC<CoveragePanelProps> = ({ groupedCities, centerRegistry, onShowCity }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [settings, setSettings] = useState<CoverageSettings>(loadCoverageSettings);
+  const [sortId, setSortId] = useState(SORT_OPTIONS[0].id);
+  const [onlyUnderserved, setOnlyUnderserved] = useState(false);
+
+  const analysis: CoverageAnalysis | null = useMemo(
+    () => (isExpanded ? analyzeCoverage(groupedCities, centerRegistry, settings) : null),
+    [isExpanded, groupedCities, centerRegistry, settings]
+  );
+  const sort = SORT_OPTIONS.find(option => option.id === sortId) ?? SORT_OPTIONS[0];
+  const districtRows: CoverageRow[] = useMemo(() => {
+    if (!analysis) return [];
+    const rows = onlyUnderserved ? analysis.districts.filter(isUnderserved) : analysis.districts;
+    return sortCoverageRows(rows, sort.key, sort.direction);
+  }, [analysis, onlyUnderserved, sort]);
+  const stateRows = analysis ? sortCoverageRows(analysis.states, sort.key, sort.direction) : [];
+  const underservedCount = analysis ? analysis.districts.filter(isUnderserved).length : 0;
+
+  const handleThresholdChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(event.target.value);
+    if (!isNaN(value) && value >= 0) {
+      const next = { ...settings, thresholdPerMillion: value };
+      setSettings(next);
+      saveCoverageSettings(next);
+    }
+  };
+
+  const findCity = (row: CoverageRow) => groupedCities[row.stateName]?.find(city => city.name === row.district);
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-4 mb-6 text-sm">
+      <button onClick={() => setIsExpanded(!isExpanded)} className="w-full flex justify-between items-center text-left">
+        <div>
+          <h3 className="font-bold text-cyan-400 text-lg">Coverage Analytics</h3>
+          <p className="text-gray-400">CT centers per million people by district and state, and underserved districts</p>
+        </div>
+        {isExpanded ? <ChevronUpIcon /> : <ChevronDownIcon />}
+      </button>
+
+      {isExpanded && analysis && (
+        <div className="mt-4 space-y-5 animate-fade-in">
+          <p className="text-gray-300">
+            {analysis.total.centers} centers for {analysis.total.population.toLocaleString()} people
+            ({formatPerMillion(analysis.total.centersPerMillion)} per million) · {analysis.total.scannedPincodes} of {analysis.total.pincodes} pincodes
+            scanned · <span className={underservedCount > 0 ? 'text-orange-300' : ''}>{underservedCount} underserved districts</span>
+          </p>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-1 text-gray-400">
+              Underserved below
+              <input
+                type="number"
+                min={0}
+                step="0.5"
+                value={settings.thresholdPerMillion}
+                onChange={handleThresholdChange}
+                className="w-20 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-100"
+              />
+              centers per million
+            </label>
+            <select
+              value={sortId}
+              onChange={event => setSortId(event.target.value)}
+              className="bg-gray-900 border border-gray-700 text-gray-100 rounded-lg py-1 px-2"
+              aria-label="Ranking"
+            >
+              {SORT_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+            </select>
+            <label className="flex items-center gap-1 text-gray-400">
+              <input type="checkbox" checked={onlyUnderserved} onChange={event => setOnlyUnderserved(event.target.checked)} />
+              Only underserved districts
+            </label>
+            <button
+              onClick={() => downloadCoverageAnalysis(analysis, settings)}
+              className="ml-auto bg-gray-600 hover:bg-gray-500 text-white font-bold py-1 px-3 rounded-lg transition-colors"
+            >
+              Export CSV
+            </button>
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-gray-200 mb-2">By state</h4>
+            <div className="max-h-60 overflow-y-auto">
+              <table className="w-full text-left text-gray-300">
+                <thead className="text-gray-500 text-xs sticky top-0 bg-gray-800">
+                  <tr><th>State</th><th>Population</th><th>Centers</th><th>Per million</th><th>Scanned</th><th>Underserved districts</th></tr>
+                </thead>
+                <tbody>
+                  {stateRows.map(row => (
+                    <tr key={row.stateName}>
+                      <td>{row.stateName}</td>
+                      <td>{row.population.toLocaleString()}</td>
+                      <td>{row.centers}</td>
+                      <td className={LEVEL_COLORS[row.level]}>{formatPerMillion(row.centersPerMillion)}</td>
+                      <td><CompletenessBar share={row.scanCompleteness} /></td>
+                      <td>{analysis.districts.filter(d => d.stateName === row.stateName && isUnderserved(d)).length}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-gray-200 mb-2">
+              By district{districtRows.length > MAX_DISTRICT_ROWS && ` (first ${MAX_DISTRICT_ROWS} of ${districtRows.length})`}
+            </h4>
+            {districtRows.length === 0 ? (
+              <p className="text-gray-500">No districts match.</p>
+            ) : (
+              <div className="max-h-80 overflow-y-auto">
+                <table className="w-full text-left text-gray-300">
+                  <thead className="text-gray-500 text-xs sticky top-0 bg-gray-800">
+                    <tr><th>District</th><th>Population</th><th>Centers</th><th>Per million</th><th>Scanned</th><th>Coverage</th></tr>
+                  </thead>
+                  <tbody>
+                    {districtRows.slice(0, MAX_DISTRICT_ROWS).map(row => {
+                      const city = findCity(row);
+                      return (
+                        <tr key={`${row.stateName}|${row.district}`} className={isUnderserved(row) ? 'bg-red-900/20' : ''}>
+                          <td>
+                            {city ? (
+                              <button onClick={() => onShowCity(city)} className="text-cyan-300 hover:underline text-left">{row.district}</button>
+                            ) : row.district}
+                            <span className="text-xs text-gray-500">, {row.stateName}</span>
+                          </td>
+                          <td>{row.population.toLocaleString()}</td>
+                          <td>{row.centers}</td>
+                          <td>{formatPerMillion(row.centersPerMillion)}</td>
+                          <td><CompletenessBar share={row.scanCompleteness} /></td>
+                          <td className={LEVEL_COLORS[row.level]}>{COVERAGE_LEVEL_LABELS[row.level]}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <p className="text-gray-500 text-xs mt-1">
+              Rejected centers are not counted. A district counts as underserved once it has scanned pincodes and has no centers,
+              or fewer than the threshold; districts still partly scanned may gain centers.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CoveragePanel;
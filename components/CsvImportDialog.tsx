@@ -0,0 +1,155 @@
+import React, { useState, useMemo } from 'react';
+import { CityData } from '../types';
+import { summarizeAdditionalCities } from '../services/cityData';
+import {
+  CSV_IMPORT_FIELDS,
+  CsvColumnMapping,
+  CsvImportField,
+  CsvTable,
+  getMissingRequiredFields,
+  guessColumnMapping,
+  validateCsvTable,
+} from '../services/csvImport';
+
+interface CsvImportDialogProps {
+  fileName: string;
+  table: CsvTable;
+  existingGrouped: Record<string, CityData[]>;
+  onConfirm: (cities: CityData[]) => void;
+  onCancel: () => void;
+}
+
+// Long lists stay scrollable but bounded; the counts above them are always complete.
+const MAX_LISTED_ITEMS = 100;
+
+const columnLabel = (header: string, index: number) => `Column ${index + 1}: ${header || '(unnamed)'}`;
+
+const CsvImportDialog: React.FC<CsvImportDialogProps> = ({ fileName, table, existingGrouped, onConfirm, onCancel }) => {
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() => guessColumnMapping(table));
+
+  const missingFields = getMissingRequiredFields(mapping);
+  const validation = useMemo(() => validateCsvTable(table, mapping), [table, mapping]);
+  const summary = useMemo(
+    () => summarizeAdditionalCities(existingGrouped, validation.cities),
+    [existingGrouped, validation.cities]
+  );
+  const hasChanges = summary.newDistricts.length > 0 || summary.extendedDistricts.length > 0;
+
+  const handleMappingChange = (field: CsvImportField, value: string) => {
+    setMapping((prev: CsvColumnMapping) => ({ ...prev, [field]: value === '' ? null : Number(value) }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto p-6 animate-fade-in">
+        <h3 className="text-xl font-bold text-cyan-400 mb-1">Add additional data</h3>
+        <p className="text-sm text-gray-400 mb-4 break-all">{fileName} · {table.rows.length} rows</p>
+
+        <h4 className="font-semibold text-gray-200 mb-2">Column mapping</h4>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm mb-4">
+          {CSV_IMPORT_FIELDS.map(field => {
+            const index = mapping[field.id];
+            const sample = index === null ? undefined : table.rows[0]?.[index];
+            return (
+              <label key={field.id} className="flex flex-col gap-1">
+                <span className="text-gray-300">
+                  {field.label}{field.required && <span className="text-red-400"> *</span>}
+                  {sample !== undefined && <span className="text-gray-500"> — e.g. “{sample}”</span>}
+                </span>
+                <select
+                  value={index === null ? '' : String(index)}
+                  onChange={event => handleMappingChange(field.id, event.target.value)}
+                  className="bg-gray-900 border border-gray-700 text-gray-100 rounded-lg py-1 px-2"
+                >
+                  <option value="">— not mapped —</option>
+                  {table.header.map((header, columnIndex) => (
+                    <option key={columnIndex} value={columnIndex}>{columnLabel(header, columnIndex)}</option>
+                  ))}
+                </select>
+              </label>
+            );
+          })}
+        </div>
+
+        {missingFields.length > 0 ? (
+          <p className="text-sm text-red-400 mb-4">
+            Map a column for: {missingFields.map(id => CSV_IMPORT_FIELDS.find(field => field.id === id)!.label).join(', ')}.
+          </p>
+        ) : (
+          <>
+            <h4 className="font-semibold text-gray-200 mb-2">Validation</h4>
+            <p className="text-sm text-gray-300 mb-2">
+              {validation.acceptedRows} of {validation.totalRows} rows valid
+              {validation.skippedRows > 0 && ` · ${validation.skippedRows} skipped (flag not set)`}
+              {validation.issues.length > 0 && <span className="text-red-400"> · {validation.issues.length} with errors</span>}
+            </p>
+            {validation.issues.length > 0 && (
+              <ul className="text-xs text-red-300 space-y-1 max-h-40 overflow-y-auto bg-gray-900/50 rounded-md p-2 mb-4">
+                {validation.issues.slice(0, MAX_LISTED_ITEMS).map(issue => (
+                  <li key={issue.rowNumber}>Row {issue.rowNumber}: {issue.message}</li>
+                ))}
+                {validation.issues.length > MAX_LISTED_ITEMS && (
+                  <li className="text-gray-400">…and {validation.issues.length - MAX_LISTED_ITEMS} more</li>
+                )}
+              </ul>
+            )}
+
+            <h4 className="font-semibold text-gray-200 mb-2">What will be added</h4>
+            {hasChanges ? (
+              <div className="text-sm text-gray-300 space-y-2">
+                <p>
+                  {summary.addedPincodeCount} new pincodes · {summary.newDistricts.length} new districts
+                  {summary.newStates.length > 0 && ` (${summary.newStates.length} new states: ${summary.newStates.join(', ')})`}
+                  {' '}· {summary.extendedDistricts.length} existing districts extended
+                  {summary.unchangedDistrictCount > 0 && ` · ${summary.unchangedDistrictCount} already up to date`}
+                </p>
+                <ul className="text-xs space-y-1 max-h-40 overflow-y-auto bg-gray-900/50 rounded-md p-2">
+                  {summary.newDistricts.slice(0, MAX_LISTED_ITEMS).map(district => (
+                    <li key={`new-${district.stateName}-${district.name}`}>
+                      <span className="text-emerald-400">New</span> {district.name}, {district.stateName} — {district.pincodeCount} pincodes
+                    </li>
+                  ))}
+                  {summary.extendedDistricts.slice(0, MAX_LISTED_ITEMS).map(district => (
+                    <li key={`ext-${district.stateName}-${district.name}`}>
+                      <span className="text-cyan-400">Extended</span> {district.name}, {district.stateName} — +{district.addedPincodeCount} pincodes
+                      {district.populationRaised && ', population raised'}
+                    </li>
+                  ))}
+                </ul>
+                {summary.stateConflicts.length > 0 && (
+                  <ul className="text-xs text-yellow-300 space-y-1">
+                    {summary.stateConflicts.map(conflict => (
+                      <li key={`${conflict.incomingState}-${conflict.name}`}>
+                        {conflict.name} already exists under {conflict.existingStates.join(', ')}; it will also be added under {conflict.incomingState}.
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-400">Nothing new: every valid row is already in the current data.</p>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={onCancel}
+            className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(validation.cities)}
+            disabled={missingFields.length > 0 || !hasChanges}
+            className="bg-emerald-600 hover:bg-emerald-700 disabled:bg-gray-700 disabled:text-gray-500 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+          >
+            Add to project
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportDialog;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { RESULTS_EXPORT_FORMATS, ResultsExportFormat } from '../services/resultsExport';
+import { DownloadIcon } from './Icons';
+
+interface ExportButtonsProps {
+  label: string;
+  disabled?: boolean;
+  onExport: (format: ResultsExportFormat) => void;
+}
+
+const ExportButtons: React.FC<ExportButtonsProps> = ({ label, disabled = false, onExport }) => (
+  <div className="inline-flex items-center gap-1" onClick={event => event.stopPropagation()}>
+    <span className="inline-flex items-center gap-1 text-gray-400 text-sm mr-1"><DownloadIcon /> {label}</span>
+    {RESULTS_EXPORT_FORMATS.map(format => (
+      <button
+        key={format.id}
+        onClick={() => onExport(format.id)}
+        disabled={disabled}
+        className="bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 text-white text-xs font-bold py-1 px-2 rounded-md transition-colors"
+        title={`Download results as ${format.label}`}
+      >
+        {format.label}
+      </button>
+    ))}
+  </div>
+);
+
+export default ExportButtons;
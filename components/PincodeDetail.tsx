@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { CenterRegistry, Pincode } from '../types';
+import { resolveCenters } from '../services/centerRegistry';
+import { UsageTotals, formatUsd } from '../services/costAccounting';
+import { describeErrorKind, isRetryableErrorKind } from '../services/discoveryErrors';
+import { StoredGroundingResponse } from '../services/discoveryProvider';
+import { loadGroundingResponse } from '../services/persistence';
+import { POST_OFFICE_TYPE_LABELS, describePostalMismatch } from '../services/postalDirectory';
+
+interface PincodeDetailProps {
+  pincode: Pincode;
+  centerRegistry: CenterRegistry;
+  cost?: UsageTotals;
+  onRetry: () => void;
+  /** Re-runs extraction on the cached grounding answer, without a new search. */
+  onReextract: () => void;
+  onClose: () => void;
+}
+
+const formatTimestamp = (value?: string) => (value ? new Date(value).toLocaleString() : '—');
+
+const formatError = (message?: string, kind?: Pincode['lastErrorKind']) =>
+  kind ? `${describeErrorKind(kind)}: ${message}` : message;
+
+const getRetryLabel = (pincode: Pincode) => {
+  switch (pincode.status) {
+    case 'error': return 'Retry';
+    case 'scanned': return 'Scan again';
+    case 'pending':
+    case 'skipped': return 'Scan now';
+    default: return null;
+  }
+};
+
+const PincodeDetail: React.FC<PincodeDetailProps> = ({ pincode, centerRegistry, cost, onRetry, onReextract, onClose }) => {
+  const linkedCenters = resolveCenters(centerRegistry, pincode.centerIds ?? []);
+  const retryLabel = getRetryLabel(pincode);
+  const [cached, setCached] = useState<StoredGroundingResponse | null>(null);
+
+  // Reloaded whenever the pincode settles, since a scan replaces the cached answer.
+  useEffect(() => {
+    let isCurrent = true;
+    loadGroundingResponse(pincode.code)
+      .then(response => {
+        if (isCurrent) setCached(response ?? null);
+      })
+      .catch(error => console.error(`Failed to load the cached grounding answer for ${pincode.code}`, error));
+    return () => {
+      isCurrent = false;
+    };
+  }, [pincode.code, pincode.status]);
+
+  return (
+    <div className="mt-3 bg-gray-900/60 border border-gray-700 rounded-lg p-4 text-sm animate-fade-in">
+      <div className="flex justify-between items-start gap-2">
+        <h4 className="font-mono font-bold text-cyan-400 text-base">
+          {pincode.code}
+          {pincode.postal && <span className="font-sans font-normal text-gray-300 ml-2">{pincode.postal.locality}</span>}
+        </h4>
+        <div className="flex gap-2">
+          {retryLabel && cached && (
+            <button
+              onClick={onReextract}
+              className="bg-gray-600 hover:bg-gray-500 text-white text-xs font-bold py-1 px-2 rounded-md transition-colors"
+              title="Run extraction again on the cached grounding answer with the active prompts, without a new search"
+            >
+              Re-extract
+            </button>
+          )}
+          {retryLabel && (
+            <button
+              onClick={onRetry}
+              className="bg-cyan-600 hover:bg-cyan-700 text-white text-xs font-bold py-1 px-2 rounded-md transition-colors"
+            >
+              {retryLabel}
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="bg-gray-600 hover:bg-gray-500 text-white text-xs font-bold py-1 px-2 rounded-md transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-1 mt-2 text-gray-300">
+        <div><dt className="text-gray-500 text-xs">Status</dt><dd className="capitalize">{pincode.status}</dd></div>
+        <div><dt className="text-gray-500 text-xs">Last scanned</dt><dd>{formatTimestamp(pincode.scannedAt)}</dd></div>
+        <div><dt className="text-gray-500 text-xs">Attempts</dt><dd>{pincode.attemptCount ?? 0}</dd></div>
+        <div><dt className="text-gray-500 text-xs">Returned</dt><dd>{pincode.returnedCount ?? '—'}</dd></div>
+        <div><dt className="text-gray-500 text-xs">Kept (new to district)</dt><dd>{pincode.keptCount ?? '—'}</dd></div>
+        <div><dt className="text-gray-500 text-xs">Dropped as duplicates</dt><dd>{pincode.droppedCount ?? '—'}</dd></div>
+        {cost && (
+          <>
+            <div><dt className="text-gray-500 text-xs">Gemini calls</dt><dd>{cost.calls}</dd></div>
+            <div>
+              <dt className="text-gray-500 text-xs">Tokens (in / out / grounding)</dt>
+              <dd>{cost.inputTokens.toLocaleString()} / {cost.outputTokens.toLocaleString()} / {cost.groundingTokens.toLocaleString()}</dd>
+            </div>
+            <div><dt className="text-gray-500 text-xs">Est. cost</dt><dd>{formatUsd(cost.costUsd)}</dd></div>
+          </>
+        )}
+      </dl>
+
+      {pincode.postal && (
+        <div className="mt-2 text-gray-300">
+          <p>
+            {POST_OFFICE_TYPE_LABELS[pincode.postal.officeType]}
+            {pincode.postal.taluk && <>, {pincode.postal.taluk} taluk</>}
+            , {pincode.postal.district}, {pincode.postal.state}
+            {pincode.postal.coordinates && (
+              <span className="text-gray-500 text-xs ml-2">{pincode.postal.coordinates.lat}, {pincode.postal.coordinates.lng}</span>
+            )}
+          </p>
+          {pincode.postal.mismatch && <p className="text-orange-300">{describePostalMismatch(pincode.postal)}, not where the CSV lists it.</p>}
+          {pincode.postal.offices.length > 1 && (
+            <details className="mt-1">
+              <summary className="cursor-pointer text-gray-400">{pincode.postal.offices.length} post offices</summary>
+              <p className="mt-1 text-xs text-gray-400">{pincode.postal.offices.join(', ')}</p>
+            </details>
+          )}
+        </div>
+      )}
+
+      {pincode.lastError && (
+        <p className="mt-2 text-red-400 break-words">
+          {pincode.status === 'error' && pincode.lastErrorKind && !isRetryableErrorKind(pincode.lastErrorKind) ? 'Not retried' : 'Last error'}
+          : {formatError(pincode.lastError, pincode.lastErrorKind)}
+        </p>
+      )}
+
+      {cached?.extractionFailure && (
+        <details className="mt-2">
+          <summary className="cursor-pointer text-red-300">
+            Unparsed extraction output from {formatTimestamp(cached.extractionFailure.failedAt)} ({cached.extractionFailure.provenance.promptVersion})
+          </summary>
+          <p className="mt-1 text-red-300 text-xs">{cached.extractionFailure.error}</p>
+          <pre className="mt-1 max-h-60 overflow-y-auto whitespace-pre-wrap bg-gray-900 border border-gray-700 rounded p-2 text-xs text-gray-300">
+            {cached.extractionFailure.rawOutput || '(empty)'}
+          </pre>
+        </details>
+      )}
+
+      {cached && (
+        <details className="mt-2">
+          <summary className="cursor-pointer text-gray-400">
+            Cached grounding answer from {formatTimestamp(cached.capturedAt)} ({cached.provenance.promptVersion}, {cached.sources?.length ?? 0} sources)
+          </summary>
+          <pre className="mt-1 max-h-60 overflow-y-auto whitespace-pre-wrap bg-gray-900 border border-gray-700 rounded p-2 text-xs text-gray-300">
+            {cached.text}
+          </pre>
+        </details>
+      )}
+
+      {linkedCenters.length > 0 && (
+        <div className="mt-3">
+          <p className="text-gray-500 text-xs mb-1">Centers from the last scan</p>
+          <ul className="list-disc list-inside text-gray-300">
+            {linkedCenters.map(center => (
+              <li key={center.id}>{center.centerName} <span className="text-gray-500 font-mono text-xs">{center.id}</span></li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {pincode.history && pincode.history.length > 0 && (
+        <div className="mt-3">
+          <p className="text-gray-500 text-xs mb-1">History</p>
+          <ul className="space-y-1 text-xs">
+            {pincode.history.slice().reverse().map((entry, index) => (
+              <li key={`${entry.finishedAt}-${index}`} className={entry.outcome === 'error' ? 'text-red-300' : 'text-gray-300'}>
+                {formatTimestamp(entry.finishedAt)} · attempt {entry.attempt} ·{' '}
+                {entry.outcome === 'error'
+                  ? `failed: ${formatError(entry.error, entry.errorKind)}`
+                  : `${entry.returnedCount} returned, ${entry.keptCount} kept, ${entry.droppedCount} dropped`}
+                {entry.provenance && (
+                  <span className="text-gray-500" title={`Grounding: ${entry.provenance.groundingModel} · extraction: ${entry.provenance.extractionModel}`}>
+                    {' '}· {entry.provenance.promptVersion}
+                    {entry.provenance.replayedFrom && ` (re-extracted from ${entry.provenance.replayedFrom} grounding)`}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PincodeDetail;
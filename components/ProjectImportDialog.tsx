@@ -0,0 +1,72 @@
+import React from 'react';
+import { ProjectBundleSummary } from '../services/projectBundle';
+
+export type ProjectImportMode = 'merge' | 'replace';
+
+interface ProjectImportDialogProps {
+  fileName: string;
+  summary?: ProjectBundleSummary;
+  errors: string[];
+  isApplying: boolean;
+  onConfirm: (mode: ProjectImportMode) => void;
+  onCancel: () => void;
+}
+
+const ProjectImportDialog: React.FC<ProjectImportDialogProps> = ({ fileName, summary, errors, isApplying, onConfirm, onCancel }) => (
+  <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+    <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl max-w-lg w-full p-6 animate-fade-in">
+      <h3 className="text-xl font-bold text-cyan-400 mb-1">Import project</h3>
+      <p className="text-sm text-gray-400 mb-4 break-all">{fileName}</p>
+
+      {errors.length > 0 ? (
+        <div className="text-sm">
+          <p className="text-red-400 font-semibold mb-2">This file cannot be imported:</p>
+          <ul className="list-disc list-inside text-red-300 space-y-1 max-h-60 overflow-y-auto">
+            {errors.map((error, index) => <li key={index}>{error}</li>)}
+          </ul>
+        </div>
+      ) : summary && (
+        <div className="text-sm text-gray-300 space-y-1">
+          <p>Exported {new Date(summary.exportedAt).toLocaleString()}</p>
+          <p>{summary.stateCount} states · {summary.districtCount} districts</p>
+          <p>{summary.scannedPincodeCount}/{summary.pincodeCount} pincodes scanned</p>
+          <p>{summary.centerCount} centers · {summary.telemetryCount} telemetry records</p>
+          <p className="text-gray-400 pt-3">
+            <span className="font-semibold text-gray-200">Merge</span> keeps your current data, adds new districts and pincodes, and fills in scans completed elsewhere.
+            {' '}<span className="font-semibold text-gray-200">Replace</span> discards the current project first.
+          </p>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 mt-6">
+        <button
+          onClick={onCancel}
+          disabled={isApplying}
+          className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+        >
+          {errors.length > 0 ? 'Close' : 'Cancel'}
+        </button>
+        {errors.length === 0 && summary && (
+          <>
+            <button
+              onClick={() => onConfirm('replace')}
+              disabled={isApplying}
+              className="bg-red-600 hover:bg-red-700 disabled:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+            >
+              Replace
+            </button>
+            <button
+              onClick={() => onConfirm('merge')}
+              disabled={isApplying}
+              className="bg-emerald-600 hover:bg-emerald-700 disabled:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+            >
+              Merge
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  </div>
+);
+
+export default ProjectImportDialog;
@@ -0,0 +1,359 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CenterRegistry, CityData, ScanCenter } from '../types';
+import { DiscoveryProvider, StoredGroundingResponse, extractCenters } from '../services/discoveryProvider';
+import { downloadFile } from '../services/fileDownload';
+import { listGroundingResponsePincodes, loadGroundingResponse } from '../services/persistence';
+import {
+  GenerationSettings,
+  PROMPT_PLACEHOLDERS,
+  PROMPT_STAGES,
+  PromptConfig,
+  PromptConfigLibrary,
+  PromptStage,
+  PromptVersionStats,
+  SUGGESTED_MODELS,
+  StagePromptConfig,
+  addPromptConfigVersion,
+  formatPromptVersion,
+  getActivePromptConfig,
+  renderPrompt,
+  summarizePromptVersions,
+  validatePromptConfig,
+} from '../services/promptConfig';
+import { ChevronDownIcon, ChevronUpIcon } from './Icons';
+
+interface PromptConfigPanelProps {
+  library: PromptConfigLibrary;
+  provider: DiscoveryProvider;
+  groupedCities: Record<string, CityData[]>;
+  centerRegistry: CenterRegistry;
+  onUpdateLibrary: (library: PromptConfigLibrary) => void;
+}
+
+const SETTING_FIELDS: { key: keyof GenerationSettings; label: string; step: string }[] = [
+  { key: 'temperature', label: 'Temperature', step: '0.1' },
+  { key: 'topP', label: 'Top-p', step: '0.05' },
+  { key: 'maxOutputTokens', label: 'Max output tokens', step: '1' },
+];
+
+const STAGE_LABELS: Record<PromptStage, string> = {
+  grounding: 'Grounding (search)',
+  extraction: 'Extraction (structured output)',
+};
+
+type DryRunResult = { centers: ScanCenter[]; error?: undefined } | { centers?: undefined; error: string };
+
+const PromptConfigPanel: React.FC<PromptConfigPanelProps> = ({ library, provider, groupedCities, centerRegistry, onUpdateLibrary }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const activeConfig = getActivePromptConfig(library);
+  const [draft, setDraft] = useState<PromptConfig>(activeConfig);
+  const [activateOnSave, setActivateOnSave] = useState(true);
+  const [storedPincodes, setStoredPincodes] = useState<string[]>([]);
+  const [dryRunPincode, setDryRunPincode] = useState('');
+  const [storedResponse, setStoredResponse] = useState<StoredGroundingResponse | null>(null);
+  const [dryRunResult, setDryRunResult] = useState<DryRunResult | null>(null);
+  const [isDryRunning, setIsDryRunning] = useState(false);
+
+  const errors = validatePromptConfig(draft);
+  const stats: PromptVersionStats[] = useMemo(
+    () => (isExpanded ? summarizePromptVersions(groupedCities, centerRegistry) : []),
+    [isExpanded, groupedCities, centerRegistry]
+  );
+
+  // Refreshed on every open, since scans add grounding answers while the panel is closed.
+  useEffect(() => {
+    if (!isExpanded) return;
+    listGroundingResponsePincodes()
+      .then(pincodes => setStoredPincodes(pincodes.slice().sort()))
+      .catch(error => console.error('Failed to list stored grounding responses', error));
+  }, [isExpanded]);
+
+  useEffect(() => {
+    setStoredResponse(null);
+    setDryRunResult(null);
+    if (!dryRunPincode) return;
+    loadGroundingResponse(dryRunPincode)
+      .then(response => setStoredResponse(response ?? null))
+      .catch(error => console.error(`Failed to load the grounding response for ${dryRunPincode}`, error));
+  }, [dryRunPincode]);
+
+  const updateStage = (stage: PromptStage, changes: Partial<StagePromptConfig>) =>
+    setDraft((prev: PromptConfig) => ({ ...prev, [stage]: { ...prev[stage], ...changes } }));
+
+  const handleSettingChange = (stage: PromptStage, key: keyof GenerationSettings) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(event.target.value);
+    updateStage(stage, { [key]: event.target.value === '' || isNaN(value) ? undefined : value });
+  };
+
+  const handleEditVersion = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const config = library.versions.find(version => formatPromptVersion(version) === event.target.value);
+    if (config) setDraft(config);
+  };
+
+  const handleSave = () => {
+    const { version: _version, createdAt: _createdAt, ...fields } = draft;
+    const { library: nextLibrary, config } = addPromptConfigVersion(library, fields);
+    onUpdateLibrary(activateOnSave ? { ...nextLibrary, activeVersion: formatPromptVersion(config) } : nextLibrary);
+    setDraft(config);
+  };
+
+  const handleDownload = () => {
+    downloadFile(JSON.stringify(draft, null, 2), `prompt-${draft.name}-v${draft.version}.json`, 'application/json');
+  };
+
+  const handleDryRun = async () => {
+    if (!storedResponse) return;
+    setIsDryRunning(true);
+    setDryRunResult(null);
+    try {
+      const centers = await extractCenters(provider, storedResponse, storedResponse, draft);
+      setDryRunResult({ centers });
+    } catch (error) {
+      console.error(`Dry run failed for pincode ${storedResponse.pincode}`, error);
+      setDryRunResult({ error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setIsDryRunning(false);
+    }
+  };
+
+  const previewVariables = storedResponse
+    ? { pincode: storedResponse.pincode, district: storedResponse.district, state: storedResponse.stateName, locality: storedResponse.locality ?? '', groundedText: storedResponse.text.trim() }
+    : null;
+  const isDraftSaved = library.versions.some(version => version === draft);
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-4 mb-6 text-sm">
+      <button onClick={() => setIsExpanded(!isExpanded)} className="w-full flex justify-between items-center text-left">
+        <div>
+          <h3 className="font-bold text-cyan-400 text-lg">Prompts</h3>
+          <p className="text-gray-400">
+            New scans use {formatPromptVersion(activeConfig)} · {library.versions.length} saved version{library.versions.length === 1 ? '' : 's'}
+          </p>
+        </div>
+        {isExpanded ? <ChevronUpIcon /> : <ChevronDownIcon />}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-5 animate-fade-in">
+          <div className="flex flex-wrap items-center gap-3 text-gray-400">
+            <label className="flex items-center gap-1">
+              Active version
+              <select
+                value={library.activeVersion}
+                onChange={event => onUpdateLibrary({ ...library, activeVersion: event.target.value })}
+                className="bg-gray-900 border border-gray-700 text-gray-100 rounded-lg py-1 px-2"
+              >
+                {library.versions.map(config => {
+                  const version = formatPromptVersion(config);
+                  return <option key={version} value={version}>{version}</option>;
+                })}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              Edit from
+              <select
+                value={isDraftSaved ? formatPromptVersion(draft) : ''}
+                onChange={handleEditVersion}
+                className="bg-gray-900 border border-gray-700 text-gray-100 rounded-lg py-1 px-2"
+              >
+                {!isDraftSaved && <option value="">Unsaved draft</option>}
+                {library.versions.map(config => {
+                  const version = formatPromptVersion(config);
+                  return <option key={version} value={version}>{version}</option>;
+                })}
+              </select>
+            </label>
+            <span className="text-gray-500">Switching versions affects scans queued from now on; running scans keep theirs.</span>
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3 text-gray-400">
+              <label className="flex items-center gap-1">
+                Name
+                <input
+                  value={draft.name}
+                  onChange={event => setDraft((prev: PromptConfig) => ({ ...prev, name: event.target.value.trim() }))}
+                  className="w-40 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-100 font-mono"
+                />
+              </label>
+              <label className="flex items-center gap-1 flex-1 min-w-[12rem]">
+                Notes
+                <input
+                  value={draft.notes ?? ''}
+                  placeholder="What this version changes"
+                  onChange={event => setDraft((prev: PromptConfig) => ({ ...prev, notes: event.target.value || undefined }))}
+                  className="flex-1 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-100"
+                />
+              </label>
+            </div>
+
+            <datalist id="prompt-model-suggestions">
+              {SUGGESTED_MODELS.map(model => <option key={model} value={model} />)}
+            </datalist>
+            {PROMPT_STAGES.map(stage => (
+              <div key={stage} className="border border-gray-700 rounded-md p-3 space-y-2">
+                <h4 className="font-semibold text-gray-200">{STAGE_LABELS[stage]}</h4>
+                <div className="flex flex-wrap items-center gap-3 text-gray-400">
+                  <label className="flex items-center gap-1">
+                    Model
+                    <input
+                      list="prompt-model-suggestions"
+                      value={draft[stage].model}
+                      onChange={event => updateStage(stage, { model: event.target.value.trim() })}
+                      className="w-48 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-100 font-mono text-xs"
+                    />
+                  </label>
+                  {SETTING_FIELDS.map(field => (
+                    <label key={field.key} className="flex items-center gap-1">
+                      {field.label}
+                      <input
+                        type="number"
+                        min={0}
+                        step={field.step}
+                        value={draft[stage][field.key] ?? ''}
+                        placeholder="Default"
+                        onChange={handleSettingChange(stage, field.key)}
+                        className="w-24 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-100"
+                      />
+                    </label>
+                  ))}
+                </div>
+                <textarea
+                  value={draft[stage].template}
+                  onChange={event => updateStage(stage, { template: event.target.value })}
+                  rows={stage === 'grounding' ? 4 : 10}
+                  className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-100 font-mono text-xs"
+                  aria-label={`${STAGE_LABELS[stage]} prompt`}
+                />
+                <p className="text-gray-500 text-xs">
+                  Placeholders:{' '}
+                  {PROMPT_PLACEHOLDERS[stage].map((placeholder, index) => (
+                    <span key={placeholder.name}>
+                      {index > 0 && ', '}
+                      <code className="text-gray-300">{`{{${placeholder.name}}}`}</code> {placeholder.description.toLowerCase()}
+                      {placeholder.required && ' (required)'}
+                    </span>
+                  ))}
+                </p>
+              </div>
+            ))}
+
+            {errors.length > 0 && (
+              <ul className="list-disc list-inside text-red-300">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+            <div className="flex flex-wrap items-center gap-3">
+              <button
+                onClick={handleSave}
+                disabled={errors.length > 0}
+                className="bg-cyan-600 hover:bg-cyan-700 disabled:bg-gray-700 disabled:text-gray-500 text-white font-bold py-1 px-3 rounded-lg transition-colors"
+              >
+                Save as new version
+              </button>
+              <label className="flex items-center gap-1 text-gray-400">
+                <input type="checkbox" checked={activateOnSave} onChange={event => setActivateOnSave(event.target.checked)} />
+                Use it for new scans
+              </label>
+              <button
+                onClick={handleDownload}
+                className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-1 px-3 rounded-lg transition-colors"
+                title="Download for the command-line tool's --prompt-config option"
+              >
+                Download JSON
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="font-semibold text-gray-200">Dry run</h4>
+            <p className="text-gray-500 text-xs">
+              Renders this draft for a pincode and re-runs extraction on its last stored grounding answer, without a new search.
+              Extraction is still a billed call; its centers are shown here and not saved.
+            </p>
+            {storedPincodes.length === 0 ? (
+              <p className="text-gray-500">No grounding answers are stored yet; they are kept as pincodes are scanned.</p>
+            ) : (
+              <div className="flex flex-wrap items-center gap-3 text-gray-400">
+                <label className="flex items-center gap-1">
+                  Pincode
+                  <select
+                    value={dryRunPincode}
+                    onChange={event => setDryRunPincode(event.target.value)}
+                    className="bg-gray-900 border border-gray-700 text-gray-100 rounded-lg py-1 px-2"
+                  >
+                    <option value="">Choose…</option>
+                    {storedPincodes.map(pincode => <option key={pincode} value={pincode}>{pincode}</option>)}
+                  </select>
+                </label>
+                {storedResponse && (
+                  <span className="text-gray-500">
+                    {storedResponse.district}, {storedResponse.stateName} · captured {new Date(storedResponse.capturedAt).toLocaleString()} with {storedResponse.provenance.promptVersion}
+                  </span>
+                )}
+                <button
+                  onClick={handleDryRun}
+                  disabled={!storedResponse || isDryRunning || errors.length > 0 || !provider.isAvailable()}
+                  className="ml-auto bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 text-white font-bold py-1 px-3 rounded-lg transition-colors"
+                >
+                  {isDryRunning ? 'Extracting…' : 'Run extraction'}
+                </button>
+              </div>
+            )}
+            {previewVariables && (
+              <div className="space-y-2">
+                {PROMPT_STAGES.map(stage => (
+                  <details key={stage}>
+                    <summary className="cursor-pointer text-gray-400">Rendered {stage} prompt</summary>
+                    <pre className="mt-1 max-h-60 overflow-y-auto whitespace-pre-wrap bg-gray-900 border border-gray-700 rounded p-2 text-xs text-gray-300">
+                      {renderPrompt(draft[stage].template, previewVariables)}
+                    </pre>
+                  </details>
+                ))}
+              </div>
+            )}
+            {dryRunResult?.error !== undefined && <p className="text-red-300">Extraction failed: {dryRunResult.error}</p>}
+            {dryRunResult?.centers && (
+              <div>
+                <p className="text-gray-300">{dryRunResult.centers.length} center{dryRunResult.centers.length === 1 ? '' : 's'} extracted</p>
+                <ul className="list-disc list-inside text-gray-300 max-h-60 overflow-y-auto">
+                  {dryRunResult.centers.map((center, index) => (
+                    <li key={`${center.centerName}-${index}`}>
+                      {center.centerName} <span className="text-gray-500">— {center.address}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          {stats.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-gray-200 mb-2">Results by version</h4>
+              <table className="w-full text-left text-gray-300">
+                <thead className="text-gray-500 text-xs">
+                  <tr><th>Version</th><th>Scans</th><th>Returned / scan</th><th>Centers</th><th>Verified</th><th>Rejected</th></tr>
+                </thead>
+                <tbody>
+                  {stats.map(entry => (
+                    <tr key={entry.promptVersion}>
+                      <td className="font-mono text-xs">{entry.promptVersion}</td>
+                      <td>{entry.scans}</td>
+                      <td>{entry.scans > 0 ? (entry.returnedCenters / entry.scans).toFixed(1) : '—'}</td>
+                      <td>{entry.centers}</td>
+                      <td>{entry.verified}</td>
+                      <td>{entry.rejected}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-gray-500 text-xs mt-1">Scans are counted from each pincode's recent history; results from before versioning are not included.</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptConfigPanel;
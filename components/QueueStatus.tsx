@@ -0,0 +1,153 @@
+import React from 'react';
+import { DiscoveryQueueSettings, DiscoveryQueueSnapshot } from '../services/discoveryQueue';
+import { ScanPlanSettings } from '../services/scanPlanner';
+
+interface QueueStatusProps {
+  snapshot: DiscoveryQueueSnapshot;
+  onDiscoverAll: () => void;
+  onStopAll: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onResetCircuit: () => void;
+  onUpdateSettings: (settings: Partial<DiscoveryQueueSettings>) => void;
+  scanPlanSettings: ScanPlanSettings;
+  onUpdateScanPlanSettings: (settings: ScanPlanSettings) => void;
+}
+
+const QueueStatus: React.FC<QueueStatusProps> = ({
+  snapshot,
+  onDiscoverAll,
+  onStopAll,
+  onPause,
+  onResume,
+  onResetCircuit,
+  onUpdateSettings,
+  scanPlanSettings,
+  onUpdateScanPlanSettings,
+}) => {
+  const { pendingCount, activeJobs, isPaused, settings, startedLastMinute, completedCount, failedCount, circuit } = snapshot;
+  const isBusy = pendingCount > 0 || activeJobs.length > 0;
+
+  const handleNumberSetting = (key: 'maxConcurrent' | 'requestsPerMinute') => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(event.target.value, 10);
+    if (!isNaN(value) && value > 0) {
+      onUpdateSettings({ [key]: value });
+    }
+  };
+
+  const handleYieldThreshold = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(event.target.value);
+    if (!isNaN(value) && value >= 0) {
+      onUpdateScanPlanSettings({ ...scanPlanSettings, yieldThreshold: value });
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-4 mb-6 text-sm">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+        <div>
+          <h3 className="font-bold text-cyan-400 text-lg">Discovery Queue</h3>
+          <p className="text-gray-400">
+            {activeJobs.length} running · {pendingCount} waiting · {completedCount} done · {failedCount} failed
+            {isPaused && <span className="text-yellow-400"> · paused</span>}
+          </p>
+          <p className="text-gray-500">
+            {startedLastMinute}/{settings.requestsPerMinute} pincodes started in the last minute
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-1 text-gray-400">
+            Concurrency
+            <input
+              type="number"
+              min={1}
+              value={settings.maxConcurrent}
+              onChange={handleNumberSetting('maxConcurrent')}
+              className="w-16 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-100"
+            />
+          </label>
+          <label className="flex items-center gap-1 text-gray-400">
+            Per minute
+            <input
+              type="number"
+              min={1}
+              value={settings.requestsPerMinute}
+              onChange={handleNumberSetting('requestsPerMinute')}
+              className="w-16 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-100"
+            />
+          </label>
+          <label
+            className="flex items-center gap-1 text-gray-400"
+            title="Scan a few representative pincodes per area first, and the rest only while they keep finding new centers. Applies to districts started from now on."
+          >
+            <input
+              type="checkbox"
+              checked={scanPlanSettings.enabled}
+              onChange={event => onUpdateScanPlanSettings({ ...scanPlanSettings, enabled: event.target.checked })}
+            />
+            Plan scans
+          </label>
+          {scanPlanSettings.enabled && (
+            <label className="flex items-center gap-1 text-gray-400" title="Minimum new centers per scanned pincode for an area to keep expanding">
+              Min. new/pincode
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={scanPlanSettings.yieldThreshold}
+                onChange={handleYieldThreshold}
+                className="w-16 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-100"
+              />
+            </label>
+          )}
+          <button
+            onClick={onDiscoverAll}
+            className="bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-2 px-3 rounded-lg transition-colors"
+          >
+            Discover all
+          </button>
+          <button
+            onClick={isPaused ? onResume : onPause}
+            className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-3 rounded-lg transition-colors"
+          >
+            {isPaused ? 'Resume queue' : 'Pause queue'}
+          </button>
+          <button
+            onClick={onStopAll}
+            disabled={!isBusy}
+            className="bg-red-600 hover:bg-red-700 disabled:bg-gray-700 disabled:text-gray-500 text-white font-bold py-2 px-3 rounded-lg transition-colors"
+          >
+            Stop all
+          </button>
+        </div>
+      </div>
+      {circuit.state !== 'closed' && (
+        <div className="flex flex-wrap items-center justify-between gap-2 mt-3 bg-yellow-900/40 border border-yellow-700 text-yellow-200 rounded-md p-2">
+          <p className="break-words">
+            {circuit.state === 'open' && circuit.openUntil !== null
+              ? `All discovery is on hold until ${new Date(circuit.openUntil).toLocaleTimeString()}.`
+              : 'Checking whether the API has recovered with a single request.'}
+            {circuit.reason && ` ${circuit.reason}`}
+          </p>
+          <button
+            onClick={onResetCircuit}
+            className="bg-yellow-600 hover:bg-yellow-500 text-black font-bold py-1 px-3 rounded-lg transition-colors"
+          >
+            Retry now
+          </button>
+        </div>
+      )}
+      {activeJobs.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {activeJobs.map(job => (
+            <span key={job.key} className="px-2 py-1 rounded-md bg-yellow-500 text-black text-xs font-mono">
+              {job.pincode} · {job.cityName}{job.attempt > 1 ? ` (attempt ${job.attempt})` : ''}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueueStatus;
@@ -0,0 +1,233 @@
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import { CenterRegistry, CityData, ReviewStatus } from '../types';
+import { formatConfidence } from '../services/centerEvidence';
+import { CenterEdits, REVIEW_STATUSES, describeReviewStatus, getReviewStatus } from '../services/centerReview';
+import {
+  CenterSearchFilter,
+  CenterSort,
+  CenterSortKey,
+  DEFAULT_CENTER_SEARCH_FILTER,
+  DEFAULT_CENTER_SORT,
+  buildCenterSearchIndex,
+  filterCenterRows,
+  listDistrictOptions,
+  paginateCenterRows,
+  sortCenterRows,
+} from '../services/centerSearch';
+import { checkPincodeInDistrict } from '../services/contactNormalization';
+import CenterCard from './CenterCard';
+import { ChevronDownIcon, ChevronUpIcon } from './Icons';
+
+interface ResultsBrowserProps {
+  groupedCities: Record<string, CityData[]>;
+  centerRegistry: CenterRegistry;
+  onReviewCenter: (centerId: string, changes: { status?: ReviewStatus; notes?: string }) => void;
+  onEditCenter: (centerId: string, edits: CenterEdits) => void;
+}
+
+const PAGE_SIZES = [25, 50, 100];
+const CONFIDENCE_THRESHOLDS = [0, 0.3, 0.5, 0.7, 0.9];
+
+const SORT_COLUMNS: { key: CenterSortKey; label: string }[] = [
+  { key: 'centerName', label: 'Center' },
+  { key: 'district', label: 'District' },
+  { key: 'reviewStatus', label: 'Review' },
+  { key: 'confidence', label: 'Confidence' },
+  { key: 'updatedAt', label: 'Updated' },
+];
+
+const selectClass = 'bg-gray-900 border border-gray-700 text-gray-100 rounded-lg py-1 px-2';
+const pageButtonClass = 'bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 text-white font-bold py-1 px-3 rounded-lg transition-colors';
+
+const ResultsBrowser: React.FC<ResultsBrowserProps> = ({ groupedCities, centerRegistry, onReviewCenter, onEditCenter }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [filter, setFilter] = useState<CenterSearchFilter>(DEFAULT_CENTER_SEARCH_FILTER);
+  const [sort, setSort] = useState<CenterSort>(DEFAULT_CENTER_SORT);
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Filtering tens of thousands of rows on every keystroke would make the input lag behind typing.
+  const deferredFilter = useDeferredValue(filter);
+
+  // The index is only built while the panel is open, so discovery does not pay for it otherwise.
+  const index = useMemo(
+    () => (isExpanded ? buildCenterSearchIndex(groupedCities, centerRegistry) : []),
+    [groupedCities, centerRegistry, isExpanded]
+  );
+  const matches = useMemo(() => sortCenterRows(filterCenterRows(index, deferredFilter), sort), [index, deferredFilter, sort]);
+  const current = paginateCenterRows(matches, page, pageSize);
+  const districtOptions = useMemo(() => listDistrictOptions(groupedCities, filter.stateName), [groupedCities, filter.stateName]);
+
+  const updateFilter = (changes: Partial<CenterSearchFilter>) => {
+    setFilter((prev: CenterSearchFilter) => ({ ...prev, ...changes }));
+    setPage(0);
+  };
+
+  const handleSort = (key: CenterSortKey) => {
+    setSort((prev: CenterSort) => ({
+      key,
+      direction: prev.key === key && prev.direction === 'asc' ? 'desc' : 'asc',
+    }));
+    setPage(0);
+  };
+
+  const firstShown = matches.length === 0 ? 0 : current.page * pageSize + 1;
+  const lastShown = current.page * pageSize + current.rows.length;
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-4 mb-6 text-sm">
+      <button onClick={() => setIsExpanded(!isExpanded)} className="w-full flex justify-between items-center text-left">
+        <div>
+          <h3 className="font-bold text-cyan-400 text-lg">All Centers</h3>
+          <p className="text-gray-400">Search, filter, and sort every discovered center across all states</p>
+        </div>
+        {isExpanded ? <ChevronUpIcon /> : <ChevronDownIcon />}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-3 animate-fade-in">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="search"
+              value={filter.search}
+              onChange={event => updateFilter({ search: event.target.value })}
+              placeholder="Name, address, or doctor"
+              className={`${selectClass} flex-grow min-w-[12rem]`}
+            />
+            <select
+              value={filter.stateName}
+              onChange={event => updateFilter({ stateName: event.target.value, district: 'all' })}
+              className={selectClass}
+              aria-label="State"
+            >
+              <option value="all">All states</option>
+              {Object.keys(groupedCities).sort().map(stateName => (
+                <option key={stateName} value={stateName}>{stateName}</option>
+              ))}
+            </select>
+            <select
+              value={filter.district}
+              onChange={event => updateFilter({ district: event.target.value })}
+              className={selectClass}
+              aria-label="District"
+            >
+              <option value="all">All districts</option>
+              {districtOptions.map(label => (
+                <option key={label} value={label}>{label}</option>
+              ))}
+            </select>
+            <select
+              value={filter.reviewStatus}
+              onChange={event => updateFilter({ reviewStatus: event.target.value as CenterSearchFilter['reviewStatus'] })}
+              className={selectClass}
+              aria-label="Review status"
+            >
+              <option value="all">Any review status</option>
+              {REVIEW_STATUSES.map(status => (
+                <option key={status.id} value={status.id}>{status.label}</option>
+              ))}
+            </select>
+            <select
+              value={filter.minConfidence}
+              onChange={event => updateFilter({ minConfidence: Number(event.target.value) })}
+              className={selectClass}
+              aria-label="Minimum confidence"
+            >
+              {CONFIDENCE_THRESHOLDS.map(threshold => (
+                <option key={threshold} value={threshold}>
+                  {threshold === 0 ? 'Any confidence' : `≥ ${formatConfidence(threshold)}`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {index.length === 0 ? (
+            <p className="text-gray-500">No centers discovered yet.</p>
+          ) : (
+            <>
+              <div className="overflow-x-auto">
+                <table className="w-full text-left text-gray-300">
+                  <thead className="text-gray-500 text-xs">
+                    <tr>
+                      {SORT_COLUMNS.map(column => (
+                        <th key={column.key} className="py-1 pr-3">
+                          <button onClick={() => handleSort(column.key)} className="hover:text-gray-200">
+                            {column.label}
+                            {sort.key === column.key && (sort.direction === 'asc' ? ' ▲' : ' ▼')}
+                          </button>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {current.rows.map(row => (
+                      <React.Fragment key={row.center.id}>
+                        <tr
+                          onClick={() => setSelectedId(selectedId === row.center.id ? null : row.center.id)}
+                          className={`cursor-pointer border-t border-gray-700 hover:bg-gray-700 ${selectedId === row.center.id ? 'bg-gray-700' : ''}`}
+                        >
+                          <td className="py-1 pr-3">
+                            <p className="text-cyan-300">{row.center.centerName}</p>
+                            <p className="text-xs text-gray-500 truncate max-w-md">{row.center.address}</p>
+                          </td>
+                          <td className="py-1 pr-3">
+                            {row.districtLabels[0]}
+                            {row.districtLabels.length > 1 && <span className="text-xs text-amber-300"> +{row.districtLabels.length - 1}</span>}
+                          </td>
+                          <td className="py-1 pr-3">{describeReviewStatus(getReviewStatus(row.center))}</td>
+                          <td className="py-1 pr-3">{formatConfidence(row.center.confidence)}</td>
+                          <td className="py-1 pr-3 text-xs">{new Date(row.center.updatedAt).toLocaleDateString()}</td>
+                        </tr>
+                        {selectedId === row.center.id && (
+                          <tr>
+                            <td colSpan={SORT_COLUMNS.length} className="py-2">
+                              <CenterCard
+                                center={row.center}
+                                district={row.cities[0].name}
+                                districtLabel={row.districtLabels[0]}
+                                pincodeCheck={checkPincodeInDistrict(row.center, row.cities[0])}
+                                onReview={changes => onReviewCenter(row.center.id, changes)}
+                                onEdit={edits => onEditCenter(row.center.id, edits)}
+                              />
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 text-gray-400">
+                <span>
+                  {matches.length === 0
+                    ? `No centers match (of ${index.length}).`
+                    : `${firstShown}–${lastShown} of ${matches.length} matching (${index.length} total)`}
+                </span>
+                <div className="ml-auto flex items-center gap-2">
+                  <select
+                    value={pageSize}
+                    onChange={event => { setPageSize(Number(event.target.value)); setPage(0); }}
+                    className={selectClass}
+                    aria-label="Rows per page"
+                  >
+                    {PAGE_SIZES.map(size => <option key={size} value={size}>{size} per page</option>)}
+                  </select>
+                  <button onClick={() => setPage(current.page - 1)} disabled={current.page === 0} className={pageButtonClass}>
+                    Previous
+                  </button>
+                  <span>Page {current.page + 1} of {current.pageCount}</span>
+                  <button onClick={() => setPage(current.page + 1)} disabled={current.page >= current.pageCount - 1} className={pageButtonClass}>
+                    Next
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResultsBrowser;
@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import { CityData, DiscoveryRun, RunCenterSnapshot } from '../types';
+import {
+  RESCAN_INTERVALS,
+  RUN_CHANGE_FIELD_LABELS,
+  RunDiff,
+  diffRuns,
+  getNextRescanAt,
+  getRunProgress,
+  listRuns,
+} from '../services/discoveryRuns';
+import { ChevronDownIcon, ChevronUpIcon } from './Icons';
+
+interface RunHistoryProps {
+  cityData: CityData;
+  onRescan: () => void;
+  onSetRescanInterval: (days?: number) => void;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+const SnapshotList: React.FC<{ title: string; snapshots: RunCenterSnapshot[]; className: string }> = ({ title, snapshots, className }) => (
+  <div>
+    <h5 className={`font-semibold ${className}`}>{title} ({snapshots.length})</h5>
+    <ul className="list-disc list-inside text-gray-300">
+      {snapshots.map(snapshot => (
+        <li key={snapshot.centerId}>
+          {snapshot.centerName} <span className="text-gray-500">— {snapshot.address}</span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const RunHistory: React.FC<RunHistoryProps> = ({ cityData, onRescan, onSetRescanInterval }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const runs = listRuns(cityData);
+  const [baseNumber, setBaseNumber] = useState<number | null>(null);
+  const [compareNumber, setCompareNumber] = useState<number | null>(null);
+
+  // Defaults to the latest run against the one before it, following new runs as they start.
+  const compare = runs.find(run => run.number === compareNumber) ?? runs[runs.length - 1];
+  const base = runs.find(run => run.number === baseNumber) ?? runs[runs.length - 2];
+  const diff: RunDiff | null = useMemo(
+    () => (isExpanded && base && compare && base !== compare ? diffRuns(base, compare) : null),
+    [isExpanded, base, compare]
+  );
+  const nextRescanAt = getNextRescanAt(cityData);
+  const isRunning = cityData.status === 'running';
+
+  const describeRun = (run: DiscoveryRun) => {
+    const { scanned, total } = getRunProgress(cityData, run);
+    if (run.completedAt) return 'Completed';
+    if (run.number === cityData.currentRun?.number) return `In progress (${scanned}/${total})`;
+    return `Cut short (${scanned}/${total})`;
+  };
+  const isPartial = (run?: DiscoveryRun) => Boolean(run && !run.completedAt);
+
+  const handleIntervalChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const days = parseInt(event.target.value, 10);
+    onSetRescanInterval(isNaN(days) ? undefined : days);
+  };
+
+  return (
+    <div className="mt-4 border-t border-gray-700 pt-4">
+      <button onClick={() => setIsExpanded(!isExpanded)} className="w-full flex justify-between items-center text-left text-lg font-semibold text-gray-200 hover:text-white">
+        <span>Runs & Changes ({runs.length})</span>
+        {isExpanded ? <ChevronUpIcon /> : <ChevronDownIcon />}
+      </button>
+      {isExpanded && (
+        <div className="mt-3 space-y-4 text-sm animate-fade-in">
+          <div className="flex flex-wrap items-center gap-3 text-gray-400">
+            <label className="flex items-center gap-1">
+              Re-scan
+              <select
+                value={cityData.rescanIntervalDays ?? ''}
+                onChange={handleIntervalChange}
+                className="bg-gray-900 border border-gray-700 text-gray-100 rounded-lg py-1 px-2"
+              >
+                {RESCAN_INTERVALS.map(interval => (
+                  <option key={interval.label} value={interval.days ?? ''}>{interval.label}</option>
+                ))}
+              </select>
+            </label>
+            {nextRescanAt && <span>Next scheduled re-scan: {nextRescanAt.toLocaleDateString()}</span>}
+            <button
+              onClick={onRescan}
+              disabled={isRunning}
+              className="ml-auto bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 text-white font-bold py-1 px-3 rounded-lg transition-colors"
+              title="Start a new run from scratch; the current results are kept in the history"
+            >
+              Re-scan now
+            </button>
+          </div>
+          <p className="text-gray-500 text-xs">
+            Scheduled re-scans start while this page is open, once a completed district is due.
+          </p>
+
+          {runs.length === 0 ? (
+            <p className="text-gray-500">
+              These results predate run tracking. The next re-scan starts run 1, and later runs can be compared with it.
+            </p>
+          ) : (
+            <table className="w-full text-left text-gray-300">
+              <thead className="text-gray-500 text-xs">
+                <tr><th>Run</th><th>Started</th><th>Trigger</th><th>Centers</th><th>Status</th></tr>
+              </thead>
+              <tbody>
+                {[...runs].reverse().map(run => (
+                  <tr key={run.number}>
+                    <td>#{run.number}</td>
+                    <td>{formatDate(run.startedAt)}</td>
+                    <td className="capitalize">{run.trigger}</td>
+                    <td>{run.centers.length}</td>
+                    <td>{describeRun(run)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {runs.length > 1 && base && compare && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2 text-gray-400">
+                Compare run
+                <select
+                  value={base.number}
+                  onChange={event => setBaseNumber(parseInt(event.target.value, 10))}
+                  className="bg-gray-900 border border-gray-700 text-gray-100 rounded-lg py-1 px-2"
+                  aria-label="Earlier run"
+                >
+                  {runs.map(run => <option key={run.number} value={run.number}>#{run.number}</option>)}
+                </select>
+                with
+                <select
+                  value={compare.number}
+                  onChange={event => setCompareNumber(parseInt(event.target.value, 10))}
+                  className="bg-gray-900 border border-gray-700 text-gray-100 rounded-lg py-1 px-2"
+                  aria-label="Later run"
+                >
+                  {runs.map(run => <option key={run.number} value={run.number}>#{run.number}</option>)}
+                </select>
+              </div>
+              {(isPartial(base) || isPartial(compare)) && (
+                <p className="text-yellow-400 text-xs">
+                  Not every pincode was scanned in both runs, so some centers may appear added or disappeared only because their pincode was skipped.
+                </p>
+              )}
+              {!diff ? (
+                <p className="text-gray-500">Pick two different runs.</p>
+              ) : (
+                <div className="space-y-3 max-h-80 overflow-y-auto pr-2">
+                  <p className="text-gray-400">
+                    {diff.added.length} added · {diff.removed.length} disappeared · {diff.changed.length} changed · {diff.unchanged} unchanged
+                  </p>
+                  {diff.added.length > 0 && <SnapshotList title="Added" snapshots={diff.added} className="text-green-400" />}
+                  {diff.removed.length > 0 && <SnapshotList title="Disappeared" snapshots={diff.removed} className="text-red-400" />}
+                  {diff.changed.length > 0 && (
+                    <div>
+                      <h5 className="font-semibold text-orange-300">Changed ({diff.changed.length})</h5>
+                      <ul className="space-y-2 text-gray-300">
+                        {diff.changed.map(change => (
+                          <li key={change.after.centerId}>
+                            <span className="font-semibold">{change.after.centerName}</span>
+                            {change.fields.map(field => (
+                              <div key={field} className="ml-4 text-xs">
+                                <span className="text-gray-500">{RUN_CHANGE_FIELD_LABELS[field]}:</span>{' '}
+                                <span className="line-through text-gray-500">{change.before[field] || '—'}</span>{' → '}
+                                <span>{change.after[field] || '—'}</span>
+                              </div>
+                            ))}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RunHistory;
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { CityData, ScanPlanAction, ScanPlanDecision } from '../types';
+import { ScanPlanGroupState, ScanPlanSummary, summarizeScanPlan } from '../services/scanPlanner';
+import { ChevronDownIcon, ChevronUpIcon } from './Icons';
+
+interface ScanPlanPanelProps {
+  cityData: CityData;
+  onOverride: (groupId: string, action: ScanPlanAction) => void;
+  onSetThreshold: (yieldThreshold: number) => void;
+}
+
+const GROUP_STATE_LABELS: Record<ScanPlanGroupState, { label: string; className: string }> = {
+  sampling: { label: 'Sampling', className: 'text-indigo-300' },
+  expanding: { label: 'Expanding', className: 'text-cyan-300' },
+  skipped: { label: 'Rest skipped', className: 'text-gray-400' },
+  done: { label: 'Done', className: 'text-green-400' },
+};
+
+const describeDecision = (decision: ScanPlanDecision) => {
+  if (decision.by === 'user') return decision.action === 'expand' ? 'You chose to scan the rest' : 'You chose to skip the rest';
+  if (decision.yield === undefined) return 'Every scan in the wave failed; scanning the next wave';
+  return `${decision.yield} new per pincode; ${decision.action === 'expand' ? 'scanning the next wave' : 'skipped the rest'}`;
+};
+
+const ScanPlanPanel: React.FC<ScanPlanPanelProps> = ({ cityData, onOverride, onSetThreshold }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const plan = cityData.scanPlan;
+  const summary: ScanPlanSummary | undefined = isExpanded ? summarizeScanPlan(cityData) : undefined;
+  const skippedCount = cityData.pincodes.filter(p => p.status === 'skipped').length;
+  if (!plan) return null;
+
+  const handleThresholdChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(event.target.value);
+    if (!isNaN(value) && value >= 0) {
+      onSetThreshold(value);
+    }
+  };
+
+  return (
+    <div className="mt-4 border-t border-gray-700 pt-4">
+      <button onClick={() => setIsExpanded(!isExpanded)} className="w-full flex justify-between items-center text-left text-lg font-semibold text-gray-200 hover:text-white">
+        <span>Scan Plan ({plan.groups.length} areas{skippedCount > 0 ? `, ${skippedCount} pincodes skipped` : ''})</span>
+        {isExpanded ? <ChevronUpIcon /> : <ChevronDownIcon />}
+      </button>
+      {isExpanded && summary && (
+        <div className="mt-3 space-y-3 text-sm animate-fade-in">
+          <div className="flex flex-wrap items-center gap-3 text-gray-400">
+            <label className="flex items-center gap-1" title="Applies to decisions made from now on">
+              Keep expanding an area while it finds at least
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={plan.yieldThreshold}
+                onChange={handleThresholdChange}
+                className="w-16 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-100"
+              />
+              new centers per pincode
+            </label>
+            <span>
+              {summary.skippedPincodes} skipped · {summary.heldPincodes} waiting on a decision
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead className="text-gray-500 text-xs uppercase">
+                <tr>
+                  <th className="py-1 pr-3">Area</th>
+                  <th className="py-1 pr-3">Pincodes</th>
+                  <th className="py-1 pr-3">Scanned</th>
+                  <th className="py-1 pr-3">State</th>
+                  <th className="py-1 pr-3">Last decision</th>
+                  <th className="py-1"></th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-300">
+                {summary.groups.map(({ group, state, scanned, released, lastDecision }) => {
+                  const remaining = group.pincodes.length - released;
+                  return (
+                    <tr key={group.id} className="border-t border-gray-700 align-top">
+                      <td className="py-1 pr-3">
+                        {group.label}
+                        <span className="block text-gray-500 text-xs font-mono">Sampled {group.waves[0]?.join(', ')}</span>
+                      </td>
+                      <td className="py-1 pr-3">{group.pincodes.length}</td>
+                      <td className="py-1 pr-3">{scanned}</td>
+                      <td className={`py-1 pr-3 ${GROUP_STATE_LABELS[state].className}`}>{GROUP_STATE_LABELS[state].label}</td>
+                      <td className="py-1 pr-3 text-gray-400">{lastDecision ? describeDecision(lastDecision) : '—'}</td>
+                      <td className="py-1 whitespace-nowrap">
+                        {remaining > 0 && (
+                          <button
+                            onClick={() => onOverride(group.id, 'expand')}
+                            className="bg-cyan-600 hover:bg-cyan-700 text-white text-xs font-bold py-1 px-2 rounded-md transition-colors mr-1"
+                          >
+                            Scan rest ({remaining})
+                          </button>
+                        )}
+                        {remaining > 0 && state !== 'skipped' && (
+                          <button
+                            onClick={() => onOverride(group.id, 'skip')}
+                            className="bg-gray-600 hover:bg-gray-500 text-white text-xs font-bold py-1 px-2 rounded-md transition-colors"
+                          >
+                            Skip rest
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScanPlanPanel;
@@ -1,26 +1,94 @@
-import React, { useState } from 'react';
-import { CityData } from '../types';
+import React, { useEffect, useState } from 'react';
+import { CenterRegistry, CityData, ReviewStatus, ScanPlanAction } from '../types';
+import { CostSummary, formatUsd } from '../services/costAccounting';
+import { CenterEdits } from '../services/centerReview';
+import { cityKey } from '../services/discoveryQueue';
+import { ResultsExportFormat, downloadResults } from '../services/resultsExport';
 import CityTile from './CityTile';
+import ExportButtons from './ExportButtons';
 import { ChevronDownIcon, ChevronUpIcon } from './Icons';
 
 interface StateGroupProps {
   stateName: string;
   cities: CityData[];
-  onUpdateCity: (cityName: string, updater: (city: CityData) => CityData) => void;
+  centerRegistry: CenterRegistry;
+  outstandingByCity: Record<string, number>;
+  costSummary: CostSummary;
+  includeRejectedInExports: boolean;
+  /** A district in this state to open and scroll to, e.g. from the coverage map. */
+  focusedCity?: { cityName: string; token: number };
+  onDiscoverState: () => void;
+  onDiscoverCity: (city: CityData) => void;
+  onStopCity: (city: CityData) => void;
+  onRetryPincode: (city: CityData, pincodeCode: string) => void;
+  /** Re-runs extraction on cached grounding answers; without codes, for every cached pincode of the city. */
+  onReextractPincodes: (city: CityData, pincodeCodes?: string[]) => void;
+  onRescanCity: (city: CityData) => void;
+  onSetRescanInterval: (city: CityData, days?: number) => void;
+  onOverrideScanPlan: (city: CityData, groupId: string, action: ScanPlanAction) => void;
+  onSetScanPlanThreshold: (city: CityData, yieldThreshold: number) => void;
+  onReviewCenter: (centerId: string, changes: { status?: ReviewStatus; notes?: string }) => void;
+  onEditCenter: (centerId: string, edits: CenterEdits) => void;
 }
 
-const StateGroup: React.FC<StateGroupProps> = ({ stateName, cities, onUpdateCity }) => {
+const StateGroup: React.FC<StateGroupProps> = ({
+  stateName,
+  cities,
+  centerRegistry,
+  outstandingByCity,
+  costSummary,
+  includeRejectedInExports,
+  focusedCity,
+  onDiscoverState,
+  onDiscoverCity,
+  onStopCity,
+  onRetryPincode,
+  onReextractPincodes,
+  onRescanCity,
+  onSetRescanInterval,
+  onOverrideScanPlan,
+  onSetScanPlanThreshold,
+  onReviewCenter,
+  onEditCenter,
+}) => {
   const [isExpanded, setIsExpanded] = useState(true);
 
+  useEffect(() => {
+    if (focusedCity) setIsExpanded(true);
+  }, [focusedCity]);
+  const stateCost = costSummary.byState[stateName];
+  const hasResults = cities.some(city => city.centerIds.length > 0);
+  const hasIdleCities = cities.some(city => city.status !== 'running' && city.status !== 'completed');
+
+  const handleDiscoverState = (event: React.MouseEvent<HTMLButtonElement>) => {
+    event.stopPropagation();
+    onDiscoverState();
+  };
+
+  const handleExport = (format: ResultsExportFormat) => {
+    downloadResults({ [stateName]: cities }, centerRegistry, format, `CT_Scan_Results_${stateName}`, {
+      includeRejected: includeRejectedInExports,
+    });
+  };
+
   return (
     <div className="bg-gray-800/50 rounded-lg mb-6 border border-gray-700">
-      <header 
+      <header
         className="p-4 cursor-pointer flex justify-between items-center"
         onClick={() => setIsExpanded(!isExpanded)}
       >
         <h2 className="text-2xl font-bold text-cyan-300">{stateName}</h2>
         <div className="flex items-center gap-4">
+          <ExportButtons label="Export" disabled={!hasResults} onExport={handleExport} />
           <span className="text-gray-400">{cities.length} {cities.length === 1 ? 'District' : 'Districts'}</span>
+          {stateCost && <span className="text-gray-400" title={`${stateCost.calls} Gemini calls`}>Est. {formatUsd(stateCost.costUsd)}</span>}
+          <button
+            onClick={handleDiscoverState}
+            disabled={!hasIdleCities}
+            className="bg-cyan-700 hover:bg-cyan-600 disabled:bg-gray-700 disabled:text-gray-500 text-white text-sm font-bold py-1 px-3 rounded-lg transition-colors"
+          >
+            Discover all in state
+          </button>
           <button className="p-1 text-gray-400 hover:text-white">
             {isExpanded ? <ChevronUpIcon /> : <ChevronDownIcon />}
           </button>
@@ -33,7 +101,22 @@ const StateGroup: React.FC<StateGroupProps> = ({ stateName, cities, onUpdateCity
               <CityTile
                 key={city.name}
                 cityData={city}
-                onUpdate={(updater) => onUpdateCity(city.name, updater)}
+                centerRegistry={centerRegistry}
+                outstandingJobs={outstandingByCity[cityKey(stateName, city.name)] ?? 0}
+                cost={costSummary.byCity[cityKey(stateName, city.name)]}
+                pincodeCosts={costSummary.byPincode}
+                includeRejectedInExports={includeRejectedInExports}
+                focusToken={focusedCity?.cityName === city.name ? focusedCity.token : undefined}
+                onDiscover={() => onDiscoverCity(city)}
+                onStop={() => onStopCity(city)}
+                onRetryPincode={(pincodeCode) => onRetryPincode(city, pincodeCode)}
+                onReextract={(pincodeCodes) => onReextractPincodes(city, pincodeCodes)}
+                onRescan={() => onRescanCity(city)}
+                onSetRescanInterval={(days) => onSetRescanInterval(city, days)}
+                onOverrideScanPlan={(groupId, action) => onOverrideScanPlan(city, groupId, action)}
+                onSetScanPlanThreshold={(yieldThreshold) => onSetScanPlanThreshold(city, yieldThreshold)}
+                onReviewCenter={onReviewCenter}
+                onEditCenter={onEditCenter}
               />
             ))}
           </div>
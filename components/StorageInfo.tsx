@@ -1,50 +1,64 @@
 import React, { useState, useEffect } from 'react';
+import { StorageEstimate, getStorageEstimate } from '../services/persistence';
 
 interface StorageInfoProps {
-  data: object;
+  /** Any value that changes when persisted data changes; used to refresh the estimate. */
+  changeToken: unknown;
 }
 
-const STORAGE_QUOTA_KB = 5120; // 5 MB quota
+// Writes are incremental, so re-estimating on every state change would be wasted work.
+const REFRESH_DEBOUNCE_MS = 2000;
 
-const StorageInfo: React.FC<StorageInfoProps> = ({ data }) => {
-  const [usedKB, setUsedKB] = useState(0);
+const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+  return `${(bytes / 1024).toFixed(2)} KB`;
+};
+
+const StorageInfo: React.FC<StorageInfoProps> = ({ changeToken }) => {
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
 
   useEffect(() => {
-    const calculateSize = () => {
-      try {
-        const jsonString = JSON.stringify(data);
-        // Rough estimate: each character is approx 1 byte. For UTF-16, it can be 2 bytes.
-        // This provides a good-enough estimate for user feedback.
-        const sizeInBytes = new Blob([jsonString]).size;
-        const sizeInKB = parseFloat((sizeInBytes / 1024).toFixed(2));
-        setUsedKB(sizeInKB);
-      } catch (error) {
-        console.error("Could not calculate storage size:", error);
-        setUsedKB(0);
-      }
-    };
-
-    calculateSize();
-  }, [data]);
-
-  const remainingKB = Math.max(0, STORAGE_QUOTA_KB - usedKB);
-  const usedPercentage = (usedKB / STORAGE_QUOTA_KB) * 100;
+    const timer = setTimeout(() => {
+      getStorageEstimate()
+        .then(setEstimate)
+        .catch(error => {
+          console.error("Could not estimate storage usage:", error);
+          setEstimate(null);
+        });
+    }, REFRESH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [changeToken]);
+
+  if (!estimate) {
+    return (
+      <div className="absolute top-4 right-4 bg-gray-800 p-3 rounded-lg shadow-lg text-xs text-gray-300 border border-gray-700">
+        <h3 className="font-bold text-cyan-400 mb-2 text-sm">Browser Storage</h3>
+        <p>Usage estimate unavailable.</p>
+      </div>
+    );
+  }
+
+  const { usageBytes, quotaBytes } = estimate;
+  const remainingBytes = Math.max(0, quotaBytes - usageBytes);
+  const usedPercentage = quotaBytes > 0 ? (usageBytes / quotaBytes) * 100 : 0;
 
   return (
     <div className="absolute top-4 right-4 bg-gray-800 p-3 rounded-lg shadow-lg text-xs text-gray-300 border border-gray-700">
       <h3 className="font-bold text-cyan-400 mb-2 text-sm">Browser Storage</h3>
       <div className="space-y-1">
         <p>
-          <span className="font-semibold">Used:</span> {usedKB} KB
+          <span className="font-semibold">Used:</span> {formatBytes(usageBytes)}
         </p>
         <p>
-          <span className="font-semibold">Available:</span> {remainingKB.toFixed(2)} KB
+          <span className="font-semibold">Available:</span> {formatBytes(remainingBytes)}
         </p>
       </div>
       <div className="w-full bg-gray-700 rounded-full h-2 mt-2">
-        <div 
-          className="bg-cyan-600 h-2 rounded-full" 
-          style={{ width: `${usedPercentage}%` }}
+        <div
+          className="bg-cyan-600 h-2 rounded-full"
+          style={{ width: `${Math.max(usedPercentage, 0.5)}%` }}
           title={`${usedPercentage.toFixed(2)}% used`}
         ></div>
       </div>
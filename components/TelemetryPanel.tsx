@@ -0,0 +1,230 @@
+import React, { useState, useMemo } from 'react';
+import { GeminiCallTelemetry } from '../services/geminiService';
+import {
+  DEFAULT_TELEMETRY_FILTER,
+  TelemetryFilter,
+  downloadTelemetry,
+  filterTelemetry,
+  summarizeTelemetry,
+} from '../services/telemetryStats';
+import { ChevronDownIcon, ChevronUpIcon } from './Icons';
+
+interface TelemetryPanelProps {
+  entries: GeminiCallTelemetry[];
+  onClear: () => void;
+}
+
+// Rendering thousands of rows would make the panel sluggish; exports always include every match.
+const MAX_LOG_ROWS = 200;
+
+const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`);
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+const TelemetryPanel: React.FC<TelemetryPanelProps> = ({ entries, onClear }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [filter, setFilter] = useState<TelemetryFilter>(DEFAULT_TELEMETRY_FILTER);
+
+  const filtered = useMemo(() => (isExpanded ? filterTelemetry(entries, filter) : []), [entries, filter, isExpanded]);
+  const summary = useMemo(() => summarizeTelemetry(filtered), [filtered]);
+  const peakMinute = Math.max(1, ...summary.callsPerMinute.map(bucket => bucket.calls));
+
+  const updateFilter = (changes: Partial<TelemetryFilter>) => setFilter((prev: TelemetryFilter) => ({ ...prev, ...changes }));
+
+  const handleClear = () => {
+    if (window.confirm('Delete all stored Gemini call telemetry?')) {
+      onClear();
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-4 mb-6 text-sm">
+      <button onClick={() => setIsExpanded(!isExpanded)} className="w-full flex justify-between items-center text-left">
+        <div>
+          <h3 className="font-bold text-cyan-400 text-lg">Gemini Telemetry</h3>
+          <p className="text-gray-400">{entries.length} calls recorded</p>
+        </div>
+        {isExpanded ? <ChevronUpIcon /> : <ChevronDownIcon />}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-5 animate-fade-in">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={filter.stage}
+              onChange={event => updateFilter({ stage: event.target.value as TelemetryFilter['stage'] })}
+              className="bg-gray-900 border border-gray-700 text-gray-100 rounded-lg py-1 px-2"
+            >
+              <option value="all">All stages</option>
+              <option value="grounding">Grounding</option>
+              <option value="extraction">Extraction</option>
+            </select>
+            <select
+              value={filter.status}
+              onChange={event => updateFilter({ status: event.target.value as TelemetryFilter['status'] })}
+              className="bg-gray-900 border border-gray-700 text-gray-100 rounded-lg py-1 px-2"
+            >
+              <option value="all">All outcomes</option>
+              <option value="success">Success</option>
+              <option value="error">Error</option>
+            </select>
+            <input
+              type="search"
+              value={filter.search}
+              onChange={event => updateFilter({ search: event.target.value })}
+              placeholder="Pincode or error text"
+              className="bg-gray-900 border border-gray-700 text-gray-100 rounded-lg py-1 px-2 flex-grow min-w-[10rem]"
+            />
+            <button
+              onClick={() => downloadTelemetry(filtered, 'csv')}
+              disabled={filtered.length === 0}
+              className="bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 text-white font-bold py-1 px-3 rounded-lg transition-colors"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={() => downloadTelemetry(filtered, 'json')}
+              disabled={filtered.length === 0}
+              className="bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 text-white font-bold py-1 px-3 rounded-lg transition-colors"
+            >
+              Export JSON
+            </button>
+            <button
+              onClick={handleClear}
+              disabled={entries.length === 0}
+              className="bg-red-600 hover:bg-red-700 disabled:bg-gray-700 disabled:text-gray-500 text-white font-bold py-1 px-3 rounded-lg transition-colors"
+            >
+              Clear
+            </button>
+          </div>
+
+          {filtered.length === 0 ? (
+            <p className="text-gray-500">No Gemini calls match. Calls made with the offline provider are not recorded.</p>
+          ) : (
+            <>
+              <p className="text-gray-300">
+                {summary.calls} calls · {summary.errors} errors ({formatPercent(summary.errorRate)}) · {summary.averageCallsPerMinute.toFixed(1)} calls/min on average
+              </p>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <div>
+                  <h4 className="font-semibold text-gray-200 mb-2">Latency by stage</h4>
+                  <table className="w-full text-left text-gray-300">
+                    <thead className="text-gray-500 text-xs">
+                      <tr><th>Stage</th><th>Calls</th><th>Errors</th><th>p50</th><th>p90</th><th>p99</th><th>Max</th></tr>
+                    </thead>
+                    <tbody>
+                      {summary.stages.map(stage => (
+                        <tr key={stage.stage}>
+                          <td className="capitalize">{stage.stage}</td>
+                          <td>{stage.calls}</td>
+                          <td>{stage.errors}</td>
+                          <td>{formatMs(stage.p50Ms)}</td>
+                          <td>{formatMs(stage.p90Ms)}</td>
+                          <td>{formatMs(stage.p99Ms)}</td>
+                          <td>{formatMs(stage.maxMs)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div>
+                  <h4 className="font-semibold text-gray-200 mb-2">Calls per minute</h4>
+                  <div className="flex items-end gap-1 h-20">
+                    {summary.callsPerMinute.map(bucket => (
+                      <div
+                        key={bucket.minute}
+                        className="flex-1 flex flex-col justify-end h-full"
+                        title={`${new Date(bucket.minute).toLocaleTimeString()}: ${bucket.calls} calls, ${bucket.errors} errors`}
+                      >
+                        <div className="bg-red-500" style={{ height: `${(bucket.errors / peakMinute) * 100}%` }}></div>
+                        <div className="bg-cyan-600" style={{ height: `${((bucket.calls - bucket.errors) / peakMinute) * 100}%` }}></div>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-gray-500 text-xs mt-1">{summary.callsPerMinute.length} minutes up to the latest call; red is errors.</p>
+                </div>
+
+                <div>
+                  <h4 className="font-semibold text-gray-200 mb-2">Errors by message</h4>
+                  {summary.errorGroups.length === 0 ? (
+                    <p className="text-gray-500">No errors.</p>
+                  ) : (
+                    <ul className="space-y-1 max-h-40 overflow-y-auto">
+                      {summary.errorGroups.map(group => (
+                        <li key={group.message} className="text-red-300">
+                          <span className="font-semibold">{group.count}×</span> ({formatPercent(group.rate)}, {group.stages.join('/')}) {group.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                <div>
+                  <h4 className="font-semibold text-gray-200 mb-2">Extraction validation</h4>
+                  <p className="text-gray-300">
+                    {summary.validation.accepted} centers accepted ({summary.validation.repaired} repaired) · {summary.validation.rejected} rejected
+                  </p>
+                  {summary.rejectingPincodes.length > 0 && (
+                    <ul className="mt-1 space-y-1 text-gray-300 max-h-40 overflow-y-auto">
+                      {summary.rejectingPincodes.map(stats => (
+                        <li key={stats.pincode} className="text-xs" title={stats.rejections.join('\n')}>
+                          <span className="font-mono">{stats.pincode}</span> · {stats.accepted} accepted, {stats.rejected} rejected
+                          {stats.rejections.length > 0 && <span className="text-gray-500"> · {stats.rejections[stats.rejections.length - 1]}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                <div>
+                  <h4 className="font-semibold text-gray-200 mb-2">Slowest pincodes</h4>
+                  <ul className="space-y-1 text-gray-300">
+                    {summary.slowestPincodes.map(stats => (
+                      <li key={stats.pincode} className="font-mono text-xs">
+                        {stats.pincode} · {formatMs(stats.totalMs)} total over {stats.calls} calls · slowest {formatMs(stats.maxMs)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+
+              <div>
+                <h4 className="font-semibold text-gray-200 mb-2">
+                  Call log{filtered.length > MAX_LOG_ROWS && ` (latest ${MAX_LOG_ROWS} of ${filtered.length})`}
+                </h4>
+                <div className="max-h-72 overflow-y-auto">
+                  <table className="w-full text-left text-xs text-gray-300">
+                    <thead className="text-gray-500 sticky top-0 bg-gray-800">
+                      <tr><th>Time</th><th>Pincode</th><th>Stage</th><th>Outcome</th><th>Duration</th><th>Prompt</th><th>Response</th><th>Tokens in/out</th><th>Kept/dropped</th><th>Error</th></tr>
+                    </thead>
+                    <tbody>
+                      {filtered.slice(-MAX_LOG_ROWS).reverse().map(entry => (
+                        <tr key={entry.id} className={entry.status === 'error' ? 'text-red-300' : ''}>
+                          <td>{new Date(entry.startedAt).toLocaleString()}</td>
+                          <td className="font-mono">{entry.pincode}</td>
+                          <td>{entry.stage}</td>
+                          <td>{entry.status}</td>
+                          <td>{formatMs(entry.durationMs)}</td>
+                          <td>{entry.promptChars}</td>
+                          <td>{entry.responseChars ?? '—'}</td>
+                          <td>{entry.inputTokens !== undefined ? `${entry.inputTokens}/${entry.outputTokens ?? 0}` : '—'}</td>
+                          <td title={entry.rejections?.join('\n')}>
+                            {entry.acceptedCount !== undefined ? `${entry.acceptedCount}/${entry.rejectedCount ?? 0}` : '—'}
+                          </td>
+                          <td className="break-all">{entry.errorMessage ?? ''}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TelemetryPanel;
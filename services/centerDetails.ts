@@ -0,0 +1,108 @@
+import { CtScannerDetails, ImagingModality, OwnershipType, ScanCenter } from '../types';
+
+export const IMAGING_MODALITIES: ImagingModality[] = ['MRI', 'X-ray', 'Ultrasound', 'PET-CT'];
+
+export const OWNERSHIP_TYPES: { id: OwnershipType; label: string }[] = [
+    { id: 'government', label: 'Government' },
+    { id: 'private-chain', label: 'Private chain' },
+    { id: 'standalone', label: 'Standalone private' },
+];
+
+// Keys are lower-case with punctuation removed, so "x ray", "X-Ray" and "USG" all resolve.
+const MODALITY_ALIASES: Record<string, ImagingModality> = {
+    mri: 'MRI',
+    xray: 'X-ray',
+    radiography: 'X-ray',
+    ultrasound: 'Ultrasound',
+    ultrasonography: 'Ultrasound',
+    usg: 'Ultrasound',
+    sonography: 'Ultrasound',
+    petct: 'PET-CT',
+    pet: 'PET-CT',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const cleanString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+export const normalizeModalities = (value: unknown): ImagingModality[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    const modalities = new Set<ImagingModality>();
+    value.forEach(entry => {
+        const modality = typeof entry === 'string' ? MODALITY_ALIASES[entry.toLowerCase().replace(/[^a-z]/g, '')] : undefined;
+        if (modality) modalities.add(modality);
+    });
+    return modalities.size > 0 ? IMAGING_MODALITIES.filter(modality => modalities.has(modality)) : undefined;
+};
+
+export const normalizeScanner = (value: unknown): CtScannerDetails | undefined => {
+    if (typeof value !== 'object' || value === null) return undefined;
+    const { sliceCount, manufacturer } = value as Record<string, unknown>;
+    const scanner: CtScannerDetails = {
+        ...(typeof sliceCount === 'number' && Number.isInteger(sliceCount) && sliceCount > 0 ? { sliceCount } : {}),
+        ...(cleanString(manufacturer) ? { manufacturer: cleanString(manufacturer) } : {}),
+    };
+    return Object.keys(scanner).length > 0 ? scanner : undefined;
+};
+
+/** Only http(s) links are kept; a bare domain gets https:// so it can be opened. */
+const normalizeWebsite = (value: unknown) => {
+    const website = cleanString(value);
+    if (!website || /\s/.test(website)) return undefined;
+    if (/^https?:\/\//i.test(website)) return website;
+    return /^[a-z0-9-]+(\.[a-z0-9-]+)+(\/.*)?$/i.test(website) ? `https://${website}` : undefined;
+};
+
+export const isOwnershipType = (value: unknown): value is OwnershipType => OWNERSHIP_TYPES.some(type => type.id === value);
+
+type DetailField = 'modalities' | 'ctScanner' | 'operatingHours' | 'isOpen24x7' | 'ownership' | 'chainName' | 'website' | 'email';
+
+/** Drops optional detail fields the model filled with the wrong type or an unusable value. */
+export const normalizeCenterDetails = (center: ScanCenter): ScanCenter => {
+    const {
+        modalities, ctScanner, operatingHours, isOpen24x7, ownership, chainName, website, email, ...rest
+    } = center;
+    const cleanEmail = cleanString(email)?.toLowerCase();
+    const details: Pick<ScanCenter, DetailField> = {
+        modalities: normalizeModalities(modalities),
+        ctScanner: normalizeScanner(ctScanner),
+        operatingHours: cleanString(operatingHours),
+        isOpen24x7: typeof isOpen24x7 === 'boolean' ? isOpen24x7 : undefined,
+        ownership: isOwnershipType(ownership) ? ownership : undefined,
+        chainName: cleanString(chainName),
+        website: normalizeWebsite(website),
+        email: cleanEmail && EMAIL_PATTERN.test(cleanEmail) ? cleanEmail : undefined,
+    };
+    return {
+        ...rest,
+        ...Object.fromEntries(Object.entries(details).filter(([, value]) => value !== undefined)),
+    };
+};
+
+/** Fills details the existing center lacks; modalities are combined. */
+export const mergeCenterDetails = (existing: ScanCenter, incoming: ScanCenter): Pick<ScanCenter, DetailField> => ({
+    modalities: existing.modalities || incoming.modalities
+        ? IMAGING_MODALITIES.filter(m => existing.modalities?.includes(m) || incoming.modalities?.includes(m))
+        : undefined,
+    ctScanner: existing.ctScanner || incoming.ctScanner ? { ...incoming.ctScanner, ...existing.ctScanner } : undefined,
+    operatingHours: existing.operatingHours ?? incoming.operatingHours,
+    isOpen24x7: existing.isOpen24x7 ?? incoming.isOpen24x7,
+    ownership: existing.ownership ?? incoming.ownership,
+    chainName: existing.chainName ?? incoming.chainName,
+    website: existing.website ?? incoming.website,
+    email: existing.email ?? incoming.email,
+});
+
+export const describeOwnership = (ownership?: OwnershipType) =>
+    OWNERSHIP_TYPES.find(type => type.id === ownership)?.label;
+
+/** e.g. "128-slice, Siemens"; undefined when nothing about the scanner is known. */
+export const formatCtScanner = (scanner?: CtScannerDetails) => {
+    const parts = [scanner?.sliceCount ? `${scanner.sliceCount}-slice` : '', scanner?.manufacturer ?? ''].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : undefined;
+};
+
+export const formatOperatingHours = (center: ScanCenter) => {
+    if (center.isOpen24x7) return center.operatingHours ? `24x7 (${center.operatingHours})` : '24x7';
+    return center.operatingHours;
+};
@@ -0,0 +1,97 @@
+import { EvidenceCategory, GroundingSource, ScanCenter } from '../types';
+
+/** A span of grounded text and the indices of the sources that back it. */
+export interface GroundingSupport {
+    text: string;
+    sourceIndices: number[];
+}
+
+export const EVIDENCE_CATEGORIES: { id: EvidenceCategory; label: string }[] = [
+    { id: 'explicit-listing', label: 'Lists CT scan as a service' },
+    { id: 'equipment-mention', label: 'Mentions CT equipment' },
+    { id: 'inferred', label: 'Inferred from facility type' },
+];
+
+const EVIDENCE_RANK: Record<EvidenceCategory, number> = {
+    'explicit-listing': 3,
+    'equipment-mention': 2,
+    inferred: 1,
+};
+
+export const describeEvidenceCategory = (category?: EvidenceCategory) =>
+    EVIDENCE_CATEGORIES.find(entry => entry.id === category)?.label ?? 'Not categorized';
+
+export const isEvidenceCategory = (value: unknown): value is EvidenceCategory =>
+    typeof value === 'string' && value in EVIDENCE_RANK;
+
+export const strongerEvidence = (a?: EvidenceCategory, b?: EvidenceCategory) => {
+    if (!a) return b;
+    if (!b) return a;
+    return EVIDENCE_RANK[b] > EVIDENCE_RANK[a] ? b : a;
+};
+
+export const higherConfidence = (a?: number, b?: number) =>
+    a === undefined ? b : b === undefined ? a : Math.max(a, b);
+
+export const mergeSources = (existing: GroundingSource[] = [], incoming: GroundingSource[] = []) => {
+    const byUri = new Map<string, GroundingSource>();
+    [...existing, ...incoming].forEach(source => {
+        if (!byUri.has(source.uri)) byUri.set(source.uri, source);
+    });
+    return Array.from(byUri.values());
+};
+
+// Models occasionally answer on a 0–100 scale despite the schema description.
+const normalizeConfidence = (value: unknown) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) return undefined;
+    const scaled = value > 1 ? value / 100 : value;
+    return Math.min(1, Math.round(scaled * 100) / 100);
+};
+
+/** Drops or rescales evidence fields the model filled in incorrectly. */
+export const normalizeCenterEvidence = (center: ScanCenter): ScanCenter => {
+    const { confidence: _confidence, evidenceCategory: _category, ...rest } = center;
+    const confidence = normalizeConfidence(center.confidence);
+    return {
+        ...rest,
+        ...(confidence !== undefined ? { confidence } : {}),
+        ...(isEvidenceCategory(center.evidenceCategory) ? { evidenceCategory: center.evidenceCategory } : {}),
+    };
+};
+
+const normalizeName = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Gives each center the grounding sources whose supported text mentions it by name. When the
+ * citations cannot be tied to a center, it gets every source from the pincode's search.
+ */
+export const attachGroundingSources = (
+    centers: ScanCenter[],
+    sources: GroundingSource[] = [],
+    supports: GroundingSupport[] = []
+): ScanCenter[] => {
+    const citable = sources.filter(source => source.uri);
+    if (citable.length === 0) {
+        return centers;
+    }
+    const normalizedSupports = supports.map(support => ({ ...support, text: normalizeName(support.text) }));
+
+    return centers.map(center => {
+        const name = normalizeName(center.centerName);
+        const indices = new Set<number>();
+        if (name) {
+            normalizedSupports
+                .filter(support => support.text.includes(name))
+                .forEach(support => support.sourceIndices.forEach(index => indices.add(index)));
+        }
+        const cited = Array.from(indices).sort((a, b) => a - b).map(index => sources[index]).filter(source => source?.uri);
+        return { ...center, sources: mergeSources(center.sources, cited.length > 0 ? cited : citable) };
+    });
+};
+
+/** Centers without a score only pass when no threshold is set. */
+export const meetsConfidenceThreshold = (center: ScanCenter, threshold: number) =>
+    threshold <= 0 || (center.confidence ?? 0) >= threshold;
+
+export const formatConfidence = (confidence?: number) =>
+    confidence === undefined ? 'Unscored' : `${Math.round(confidence * 100)}%`;
@@ -0,0 +1,257 @@
+import { CenterRegistry, CenterSighting, RegisteredCenter, ScanCenter } from '../types';
+import { mergeCenterDetails } from './centerDetails';
+import { higherConfidence, mergeSources, strongerEvidence } from './centerEvidence';
+import { isFieldEdited } from './centerReview';
+import { extractPincode, parseIndianPhoneNumbers } from './contactNormalization';
+
+// Words that vary between listings of the same center and carry no identity.
+const NAME_STOPWORDS = new Set([
+    'the', 'and', 'of', 'pvt', 'private', 'ltd', 'limited', 'llp', 'a', 'unit',
+    'centre', 'center', 'clinic', 'diagnostic', 'diagnostics', 'imaging', 'scan', 'scans', 'scanning',
+]);
+
+const ADDRESS_STOPWORDS = new Set(['road', 'rd', 'street', 'st', 'near', 'opp', 'opposite', 'india', 'no', 'the', 'and']);
+
+const NAME_MATCH_THRESHOLD = 0.8;
+const NAME_WITH_ADDRESS_THRESHOLD = 0.5;
+const ADDRESS_MATCH_THRESHOLD = 0.6;
+
+const tokenize = (value: string, stopwords: Set<string>) =>
+    value
+        .toLowerCase()
+        .replace(/&/g, ' and ')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .split(' ')
+        .filter(token => token && !stopwords.has(token));
+
+export const normalizeCenterName = (name: string) => tokenize(name, NAME_STOPWORDS).join(' ');
+
+const addressTokens = (address: string) => {
+    const pincode = extractPincode(address);
+    return new Set(tokenize(address, ADDRESS_STOPWORDS).filter(token => token !== pincode));
+};
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+    if (a.size === 0 || b.size === 0) return 0;
+    let intersection = 0;
+    a.forEach(token => {
+        if (b.has(token)) intersection++;
+    });
+    return intersection / (a.size + b.size - intersection);
+};
+
+interface CenterFingerprint {
+    nameTokens: Set<string>;
+    pincode?: string;
+    phones: string[];
+    addressTokens: Set<string>;
+}
+
+const fingerprintCenter = (center: ScanCenter): CenterFingerprint => ({
+    nameTokens: new Set(normalizeCenterName(center.centerName).split(' ').filter(Boolean)),
+    pincode: extractPincode(center.address),
+    phones: parseIndianPhoneNumbers(center.contactDetails || '').map(phone => phone.e164),
+    addressTokens: addressTokens(center.address),
+});
+
+/**
+ * Two listings are the same center when they share a phone number, or when their names
+ * agree closely within the same pincode, or when names partially agree and the address
+ * tokens overlap heavily.
+ */
+const isSameCenter = (a: CenterFingerprint, b: CenterFingerprint) => {
+    if (a.phones.some(phone => b.phones.includes(phone))) {
+        return true;
+    }
+
+    const nameSimilarity = jaccard(a.nameTokens, b.nameTokens);
+    const samePincode = Boolean(a.pincode && b.pincode && a.pincode === b.pincode);
+    const pincodeConflict = Boolean(a.pincode && b.pincode && a.pincode !== b.pincode);
+
+    if (samePincode && nameSimilarity >= NAME_MATCH_THRESHOLD) {
+        return true;
+    }
+
+    return !pincodeConflict
+        && nameSimilarity >= NAME_WITH_ADDRESS_THRESHOLD
+        && jaccard(a.addressTokens, b.addressTokens) >= ADDRESS_MATCH_THRESHOLD;
+};
+
+const hashString = (value: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash.toString(36);
+};
+
+/** IDs derive from the first listing's normalized name and pincode, so they survive reloads and re-imports. */
+const createCenterId = (center: ScanCenter, registry: CenterRegistry) => {
+    const base = `ctr-${hashString(`${normalizeCenterName(center.centerName)}|${extractPincode(center.address) ?? ''}`)}`;
+    let id = base;
+    let suffix = 2;
+    while (registry[id]) {
+        id = `${base}-${suffix++}`;
+    }
+    return id;
+};
+
+const mergeDoctorLists = (existing: string[], incoming: string[]) => {
+    const seen = new Set(existing.map(name => name.trim().toLowerCase()));
+    const merged = [...existing];
+    for (const name of incoming) {
+        const key = name.trim().toLowerCase();
+        if (key && !seen.has(key)) {
+            seen.add(key);
+            merged.push(name.trim());
+        }
+    }
+    return merged;
+};
+
+const hasSighting = (center: RegisteredCenter, sighting: CenterSighting) =>
+    center.sightings.some(s => s.pincode === sighting.pincode && s.cityName === sighting.cityName && s.stateName === sighting.stateName);
+
+// Discovered values only fill gaps, and never touch a field a reviewer corrected by hand.
+const mergeIntoCenter = (existing: RegisteredCenter, incoming: ScanCenter, sighting: CenterSighting): RegisteredCenter => ({
+    ...existing,
+    address: isFieldEdited(existing, 'address') ? existing.address : existing.address || incoming.address,
+    contactDetails: isFieldEdited(existing, 'contactDetails') ? existing.contactDetails : existing.contactDetails || incoming.contactDetails,
+    googleMapsLink: existing.googleMapsLink || incoming.googleMapsLink,
+    reasoning: existing.reasoning || incoming.reasoning,
+    coordinates: existing.coordinates ?? incoming.coordinates,
+    confidence: higherConfidence(existing.confidence, incoming.confidence),
+    evidenceCategory: strongerEvidence(existing.evidenceCategory, incoming.evidenceCategory),
+    sources: mergeSources(existing.sources, incoming.sources),
+    ...mergeCenterDetails(existing, incoming),
+    doctorDetails: isFieldEdited(existing, 'doctorDetails')
+        ? existing.doctorDetails
+        : mergeDoctorLists(existing.doctorDetails ?? [], incoming.doctorDetails ?? []),
+    sightings: hasSighting(existing, sighting) ? existing.sightings : [...existing.sightings, sighting],
+    updatedAt: sighting.foundAt,
+});
+
+export interface RegisterCentersResult {
+    registry: CenterRegistry;
+    /** Canonical IDs for each incoming center, in input order (duplicates collapse to one ID). */
+    centerIds: string[];
+    /** IDs that did not exist in the registry before this call. */
+    createdIds: string[];
+}
+
+export interface CenterSightingEntry {
+    center: ScanCenter;
+    sighting: CenterSighting;
+}
+
+// Registered centers are immutable, so a fingerprint can be reused for as long as the object lives.
+const fingerprintCache = new WeakMap<RegisteredCenter, CenterFingerprint>();
+
+const getFingerprint = (center: RegisteredCenter) => {
+    let fingerprint = fingerprintCache.get(center);
+    if (!fingerprint) {
+        fingerprint = fingerprintCenter(center);
+        fingerprintCache.set(center, fingerprint);
+    }
+    return fingerprint;
+};
+
+/**
+ * Every match rule needs either a shared phone number or at least one shared name token,
+ * so an inverted index over those keys narrows candidates without scanning the registry.
+ */
+const indexKeys = (fingerprint: CenterFingerprint) => [
+    ...fingerprint.phones.map(phone => `tel:${phone}`),
+    ...Array.from(fingerprint.nameTokens, token => `name:${token}`),
+];
+
+const createCandidateIndex = () => {
+    const index = new Map<string, Set<string>>();
+    const add = (id: string, fingerprint: CenterFingerprint) => {
+        for (const key of indexKeys(fingerprint)) {
+            if (!index.has(key)) index.set(key, new Set());
+            index.get(key)!.add(id);
+        }
+    };
+    const candidates = (fingerprint: CenterFingerprint) => {
+        const ids = new Set<string>();
+        indexKeys(fingerprint).forEach(key => index.get(key)?.forEach(id => ids.add(id)));
+        return ids;
+    };
+    return { add, candidates };
+};
+
+/**
+ * Merges centers, each with its own sighting, into the registry. The input registry is not
+ * mutated. `centerIds` lines up with `entries`.
+ */
+export const registerCenterSightings = (registry: CenterRegistry, entries: CenterSightingEntry[]): RegisterCentersResult => {
+    const nextRegistry: CenterRegistry = { ...registry };
+    const fingerprints = new Map<string, CenterFingerprint>();
+    const candidateIndex = createCandidateIndex();
+    for (const center of Object.values(registry)) {
+        const fingerprint = getFingerprint(center);
+        fingerprints.set(center.id, fingerprint);
+        candidateIndex.add(center.id, fingerprint);
+    }
+    const centerIds: string[] = [];
+    const createdIds: string[] = [];
+
+    for (const { center, sighting } of entries) {
+        const fingerprint = fingerprintCenter(center);
+        let matchedId: string | undefined;
+        for (const id of candidateIndex.candidates(fingerprint)) {
+            if (isSameCenter(fingerprint, fingerprints.get(id)!)) {
+                matchedId = id;
+                break;
+            }
+        }
+
+        if (matchedId) {
+            nextRegistry[matchedId] = mergeIntoCenter(nextRegistry[matchedId], center, sighting);
+        } else {
+            matchedId = createCenterId(center, nextRegistry);
+            nextRegistry[matchedId] = {
+                ...center,
+                doctorDetails: center.doctorDetails ?? [],
+                id: matchedId,
+                sightings: [sighting],
+                firstSeenAt: sighting.foundAt,
+                updatedAt: sighting.foundAt,
+            };
+            fingerprints.set(matchedId, fingerprint);
+            candidateIndex.add(matchedId, fingerprint);
+            createdIds.push(matchedId);
+        }
+
+        centerIds.push(matchedId);
+    }
+
+    const mergedCount = entries.length - createdIds.length;
+    if (mergedCount > 0) {
+        console.log(`Merged ${mergedCount} of ${entries.length} centers into existing canonical centers.`);
+    }
+    return { registry: nextRegistry, centerIds, createdIds };
+};
+
+/**
+ * Merges centers found by one pincode scan into the registry. The input registry is not mutated.
+ */
+export const registerCenters = (
+    registry: CenterRegistry,
+    centers: ScanCenter[],
+    sighting: CenterSighting
+): RegisterCentersResult => {
+    const result = registerCenterSightings(registry, centers.map(center => ({ center, sighting })));
+    return { ...result, centerIds: Array.from(new Set(result.centerIds)) };
+};
+
+export const resolveCenters = (registry: CenterRegistry, centerIds: string[]): RegisteredCenter[] =>
+    centerIds.map(id => registry[id]).filter((center): center is RegisteredCenter => Boolean(center));
+
+export const summarizeSightings = (center: RegisteredCenter) => {
+    const districts = Array.from(new Set(center.sightings.map(s => `${s.cityName}, ${s.stateName}`)));
+    const pincodes = Array.from(new Set(center.sightings.map(s => s.pincode).filter(Boolean)));
+    return { districts, pincodes };
+};
@@ -0,0 +1,90 @@
+import { CenterRegistry, CenterReview, EditableCenterField, RegisteredCenter, ReviewStatus, ScanCenter } from '../types';
+
+export type CenterEdits = Partial<Pick<ScanCenter, EditableCenterField>>;
+
+export const REVIEW_STATUSES: { id: ReviewStatus; label: string }[] = [
+    { id: 'unreviewed', label: 'Unreviewed' },
+    { id: 'verified', label: 'Verified' },
+    { id: 'needs-call', label: 'Needs call' },
+    { id: 'rejected', label: 'Rejected' },
+];
+
+const EDITABLE_FIELDS: EditableCenterField[] = ['centerName', 'address', 'contactDetails', 'doctorDetails'];
+
+const EMPTY_REVIEW: CenterReview = { status: 'unreviewed', notes: '', editedFields: [] };
+
+export const isReviewStatus = (value: unknown): value is ReviewStatus =>
+    REVIEW_STATUSES.some(status => status.id === value);
+
+export const getReviewStatus = (center: RegisteredCenter): ReviewStatus => center.review?.status ?? 'unreviewed';
+
+export const describeReviewStatus = (status: ReviewStatus) =>
+    REVIEW_STATUSES.find(entry => entry.id === status)?.label ?? status;
+
+export const isRejected = (center: RegisteredCenter) => getReviewStatus(center) === 'rejected';
+
+export const isFieldEdited = (center: RegisteredCenter, field: EditableCenterField) =>
+    Boolean(center.review?.editedFields.includes(field));
+
+const sameValue = (a: string | string[], b: string | string[]) =>
+    Array.isArray(a) && Array.isArray(b) ? a.length === b.length && a.every((value, i) => value === b[i]) : a === b;
+
+const updateCenter = (registry: CenterRegistry, id: string, updater: (center: RegisteredCenter) => RegisteredCenter) => {
+    const center = registry[id];
+    return center ? { ...registry, [id]: updater(center) } : registry;
+};
+
+/** Sets the review status and/or notes of one center. The input registry is not mutated. */
+export const setCenterReview = (
+    registry: CenterRegistry,
+    id: string,
+    changes: Partial<Pick<CenterReview, 'status' | 'notes'>>,
+    now = new Date().toISOString()
+): CenterRegistry =>
+    updateCenter(registry, id, center => ({
+        ...center,
+        review: { ...EMPTY_REVIEW, ...center.review, ...changes, reviewedAt: now },
+    }));
+
+/**
+ * Applies hand corrections to one center. Only fields whose value actually changed are
+ * marked as edited, so saving an untouched form does not freeze discovered values.
+ */
+export const editCenterFields = (
+    registry: CenterRegistry,
+    id: string,
+    edits: CenterEdits,
+    now = new Date().toISOString()
+): CenterRegistry =>
+    updateCenter(registry, id, center => {
+        const changed = EDITABLE_FIELDS.filter(field => edits[field] !== undefined && !sameValue(edits[field]!, center[field] ?? ''));
+        if (changed.length === 0) {
+            return center;
+        }
+        const review = { ...EMPTY_REVIEW, ...center.review };
+        return {
+            ...center,
+            ...Object.fromEntries(changed.map(field => [field, edits[field]])),
+            review: {
+                ...review,
+                editedFields: Array.from(new Set([...review.editedFields, ...changed])),
+                editedAt: now,
+            },
+        };
+    });
+
+const latestReviewTime = (review?: CenterReview) =>
+    [review?.reviewedAt ?? '', review?.editedAt ?? ''].sort().pop() ?? '';
+
+/**
+ * Carries an imported center's review onto the registry center it merged into, when the
+ * imported review is the more recent one. Its hand-edited values come along with it.
+ */
+export const adoptImportedReview = (target: RegisteredCenter, imported: RegisteredCenter): RegisteredCenter => {
+    if (!imported.review || (target.review && latestReviewTime(imported.review) <= latestReviewTime(target.review))) {
+        return target;
+    }
+    const editedValues = Object.fromEntries(imported.review.editedFields.map(field => [field, imported[field]]));
+    const editedFields = Array.from(new Set([...(target.review?.editedFields ?? []), ...imported.review.editedFields]));
+    return { ...target, ...editedValues, review: { ...imported.review, editedFields } };
+};
@@ -0,0 +1,126 @@
+import { CenterRegistry, CityData, RegisteredCenter, ReviewStatus } from '../types';
+import { meetsConfidenceThreshold } from './centerEvidence';
+import { REVIEW_STATUSES, getReviewStatus } from './centerReview';
+
+/** One entry per canonical center, with every district whose results list it. */
+export interface CenterSearchRow {
+    center: RegisteredCenter;
+    cities: CityData[];
+    /** "District, State" labels, in the order the districts were loaded. */
+    districtLabels: string[];
+    /** Lower-cased name, address, and doctors, built once so typing does not re-join strings. */
+    searchText: string;
+}
+
+export interface CenterSearchFilter {
+    /** Whitespace-separated terms; every term must appear in the name, address, or a doctor. */
+    search: string;
+    stateName: string | 'all';
+    /** A "District, State" label. */
+    district: string | 'all';
+    reviewStatus: ReviewStatus | 'all';
+    minConfidence: number;
+}
+
+export const DEFAULT_CENTER_SEARCH_FILTER: CenterSearchFilter = {
+    search: '',
+    stateName: 'all',
+    district: 'all',
+    reviewStatus: 'all',
+    minConfidence: 0,
+};
+
+export type CenterSortKey = 'centerName' | 'district' | 'reviewStatus' | 'confidence' | 'updatedAt';
+
+export interface CenterSort {
+    key: CenterSortKey;
+    direction: 'asc' | 'desc';
+}
+
+export const DEFAULT_CENTER_SORT: CenterSort = { key: 'centerName', direction: 'asc' };
+
+export const getDistrictLabel = (city: CityData) => `${city.name}, ${city.stateName}`;
+
+/**
+ * Builds the search rows from the districts' center lists. Centers no district lists any more
+ * (for example after a district was replaced by an import) are left out, matching the tiles.
+ */
+export const buildCenterSearchIndex = (
+    groupedCities: Record<string, CityData[]>,
+    registry: CenterRegistry
+): CenterSearchRow[] => {
+    const rows = new Map<string, CenterSearchRow>();
+    for (const stateName of Object.keys(groupedCities).sort()) {
+        for (const city of groupedCities[stateName]) {
+            for (const id of new Set(city.centerIds)) {
+                const center = registry[id];
+                if (!center) continue;
+                const row = rows.get(id);
+                if (row) {
+                    row.cities.push(city);
+                    row.districtLabels.push(getDistrictLabel(city));
+                } else {
+                    rows.set(id, {
+                        center,
+                        cities: [city],
+                        districtLabels: [getDistrictLabel(city)],
+                        searchText: [center.centerName, center.address, ...(center.doctorDetails ?? [])].join('\n').toLowerCase(),
+                    });
+                }
+            }
+        }
+    }
+    return Array.from(rows.values());
+};
+
+export const filterCenterRows = (rows: CenterSearchRow[], filter: CenterSearchFilter) => {
+    const terms = filter.search.toLowerCase().split(/\s+/).filter(Boolean);
+    return rows.filter(row =>
+        (filter.stateName === 'all' || row.cities.some(city => city.stateName === filter.stateName))
+        && (filter.district === 'all' || row.districtLabels.includes(filter.district))
+        && (filter.reviewStatus === 'all' || getReviewStatus(row.center) === filter.reviewStatus)
+        && meetsConfidenceThreshold(row.center, filter.minConfidence)
+        && terms.every(term => row.searchText.includes(term))
+    );
+};
+
+const REVIEW_ORDER = new Map(REVIEW_STATUSES.map((status, index) => [status.id, index]));
+
+// A shared collator is much faster than localeCompare when sorting tens of thousands of rows.
+const collator = new Intl.Collator(undefined, { sensitivity: 'base', numeric: true });
+const compareText = collator.compare;
+
+const COMPARATORS: Record<CenterSortKey, (a: CenterSearchRow, b: CenterSearchRow) => number> = {
+    centerName: (a, b) => compareText(a.center.centerName, b.center.centerName),
+    district: (a, b) => compareText(a.districtLabels[0] ?? '', b.districtLabels[0] ?? ''),
+    reviewStatus: (a, b) => REVIEW_ORDER.get(getReviewStatus(a.center))! - REVIEW_ORDER.get(getReviewStatus(b.center))!,
+    confidence: (a, b) => (a.center.confidence ?? -1) - (b.center.confidence ?? -1),
+    updatedAt: (a, b) => compareText(a.center.updatedAt, b.center.updatedAt),
+};
+
+/** Returns a sorted copy; ties fall back to the center name so paging is stable. */
+export const sortCenterRows = (rows: CenterSearchRow[], sort: CenterSort) => {
+    const compare = COMPARATORS[sort.key];
+    const sign = sort.direction === 'asc' ? 1 : -1;
+    return [...rows].sort((a, b) => sign * compare(a, b) || COMPARATORS.centerName(a, b) || compareText(a.center.id, b.center.id));
+};
+
+export interface CenterPage {
+    rows: CenterSearchRow[];
+    /** Zero-based, clamped to the last page. */
+    page: number;
+    pageCount: number;
+}
+
+export const paginateCenterRows = (rows: CenterSearchRow[], page: number, pageSize: number): CenterPage => {
+    const pageCount = Math.max(1, Math.ceil(rows.length / pageSize));
+    const current = Math.min(Math.max(0, page), pageCount - 1);
+    return { rows: rows.slice(current * pageSize, (current + 1) * pageSize), page: current, pageCount };
+};
+
+/** Districts to offer in the district filter, limited to one state when a state is chosen. */
+export const listDistrictOptions = (groupedCities: Record<string, CityData[]>, stateName: string | 'all') =>
+    Object.keys(groupedCities)
+        .filter(state => stateName === 'all' || state === stateName)
+        .sort()
+        .flatMap(state => groupedCities[state].map(getDistrictLabel));
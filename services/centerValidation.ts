@@ -0,0 +1,156 @@
+import { GeoCoordinates, ScanCenter } from '../types';
+import { isOwnershipType, normalizeModalities, normalizeScanner } from './centerDetails';
+import { isEvidenceCategory } from './centerEvidence';
+
+/** An extracted entry that could not be turned into a usable center. */
+export interface RejectedCenter {
+    /** Position in the model's list, from 0. */
+    index: number;
+    centerName?: string;
+    reasons: string[];
+}
+
+export interface CenterValidationResult {
+    centers: ScanCenter[];
+    rejected: RejectedCenter[];
+    /** Accepted centers that needed at least one field coerced or rebuilt. */
+    repairedCount: number;
+}
+
+type OptionalField =
+    | 'confidence' | 'evidenceCategory' | 'modalities' | 'ctScanner' | 'operatingHours'
+    | 'isOpen24x7' | 'ownership' | 'chainName' | 'website' | 'email';
+
+// Google's own domains only; a pattern such as /google\.[a-z.]+/ also accepts google.com.attacker.io.
+const GOOGLE_DOMAINS = ['google.com', 'google.co.in', 'google.co.uk', 'google.com.au', 'google.ca', 'google.ae', 'google.com.sg'];
+const MAPS_HOSTS = new Set([
+    ...GOOGLE_DOMAINS.flatMap(domain => [domain, `www.${domain}`, `maps.${domain}`]),
+    'maps.app.goo.gl',
+    'goo.gl',
+]);
+
+export const buildMapsSearchLink = (centerName: string, address: string) =>
+    `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(`${centerName} ${address}`.trim())}`;
+
+/** Accepts http(s) links on Google Maps hosts; google.com links must point into `/maps`. */
+export const isGoogleMapsLink = (value: string) => {
+    try {
+        const url = new URL(value);
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') return false;
+        if (!MAPS_HOSTS.has(url.hostname)) return false;
+        return url.hostname.startsWith('maps.') || url.hostname === 'goo.gl' ? true : url.pathname.startsWith('/maps');
+    } catch {
+        return false;
+    }
+};
+
+const cleanText = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+const readCoordinate = (value: unknown) => {
+    const number = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+const readCoordinates = (value: unknown): GeoCoordinates | undefined => {
+    if (typeof value !== 'object' || value === null) return undefined;
+    const { lat: rawLat, lng: rawLng } = value as Record<string, unknown>;
+    const lat = readCoordinate(rawLat);
+    const lng = readCoordinate(rawLng);
+    if (lat === undefined || lng === undefined || Math.abs(lat) > 90 || Math.abs(lng) > 180) return undefined;
+    return { lat, lng };
+};
+
+const readDoctors = (value: unknown): string[] | undefined => {
+    if (Array.isArray(value)) {
+        return value.filter((doctor): doctor is string => typeof doctor === 'string').map(cleanText).filter(Boolean);
+    }
+    if (typeof value === 'string') {
+        // Commas are left alone: they often separate a doctor's name from their degrees.
+        return value.split(/[;\n]/).map(cleanText).filter(Boolean);
+    }
+    return undefined;
+};
+
+const readString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+// Only the type is checked here; `normalizeCenterEvidence` and `normalizeCenterDetails` clean the values.
+const readOptionalFields = (raw: Record<string, unknown>): Pick<ScanCenter, OptionalField> => ({
+    confidence: typeof raw.confidence === 'number' ? raw.confidence : undefined,
+    evidenceCategory: isEvidenceCategory(raw.evidenceCategory) ? raw.evidenceCategory : undefined,
+    modalities: normalizeModalities(raw.modalities),
+    ctScanner: normalizeScanner(raw.ctScanner),
+    operatingHours: readString(raw.operatingHours),
+    isOpen24x7: typeof raw.isOpen24x7 === 'boolean' ? raw.isOpen24x7 : undefined,
+    ownership: isOwnershipType(raw.ownership) ? raw.ownership : undefined,
+    chainName: readString(raw.chainName),
+    website: readString(raw.website),
+    email: readString(raw.email),
+});
+
+const readContact = (value: unknown): string | undefined => {
+    if (typeof value === 'string') return cleanText(value);
+    if (typeof value === 'number') return String(value);
+    if (Array.isArray(value)) return value.filter(part => typeof part === 'string' || typeof part === 'number').join('; ');
+    return undefined;
+};
+
+const validateEntry = (entry: unknown, index: number): { center?: ScanCenter; repaired: boolean; rejection?: RejectedCenter } => {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+        return { repaired: false, rejection: { index, reasons: ['not an object'] } };
+    }
+    const raw = entry as Record<string, unknown>;
+    const centerName = typeof raw.centerName === 'string' ? cleanText(raw.centerName) : '';
+    const address = typeof raw.address === 'string' ? cleanText(raw.address) : '';
+    const reasons: string[] = [];
+    if (!centerName) reasons.push('missing name');
+    if (!address) reasons.push('missing address');
+    if (reasons.length > 0) {
+        return { repaired: false, rejection: { index, ...(centerName ? { centerName } : {}), reasons } };
+    }
+
+    let repaired = false;
+    const contactDetails = readContact(raw.contactDetails);
+    const doctorDetails = readDoctors(raw.doctorDetails);
+    const reasoning = typeof raw.reasoning === 'string' ? cleanText(raw.reasoning) : undefined;
+    const mapsLink = typeof raw.googleMapsLink === 'string' ? raw.googleMapsLink.trim() : '';
+    const coordinates = readCoordinates(raw.coordinates);
+    if (typeof raw.contactDetails !== 'string' || !Array.isArray(raw.doctorDetails) || reasoning === undefined) repaired = true;
+    if (!isGoogleMapsLink(mapsLink)) repaired = true;
+    if (raw.coordinates !== undefined) {
+        const { lat, lng } = (raw.coordinates ?? {}) as Record<string, unknown>;
+        if (!coordinates || typeof lat !== 'number' || typeof lng !== 'number') repaired = true;
+    }
+
+    const optional = readOptionalFields(raw);
+    const center: ScanCenter = {
+        ...Object.fromEntries(Object.entries(optional).filter(([, value]) => value !== undefined)),
+        centerName,
+        address,
+        contactDetails: contactDetails ?? '',
+        doctorDetails: doctorDetails ?? [],
+        googleMapsLink: isGoogleMapsLink(mapsLink) ? mapsLink : buildMapsSearchLink(centerName, address),
+        reasoning: reasoning ?? '',
+        ...(coordinates ? { coordinates } : {}),
+    };
+    return { center, repaired };
+};
+
+/**
+ * Checks each entry of an extraction answer at runtime. Recoverable problems are coerced:
+ * text is trimmed, missing lists become empty, and a missing or non-Maps link is rebuilt from
+ * the name and address. Entries without a name or address are rejected with their reasons.
+ * Fields outside `ScanCenter` are dropped, and citations only ever come from grounding.
+ */
+export const validateExtractedCenters = (entries: unknown[]): CenterValidationResult => {
+    const result: CenterValidationResult = { centers: [], rejected: [], repairedCount: 0 };
+    entries.forEach((entry, index) => {
+        const { center, repaired, rejection } = validateEntry(entry, index);
+        if (rejection) result.rejected.push(rejection);
+        if (center) result.centers.push(center);
+        if (repaired) result.repairedCount++;
+    });
+    return result;
+};
+
+export const describeRejection = ({ index, centerName, reasons }: RejectedCenter) =>
+    `#${index + 1}${centerName ? ` (${centerName})` : ''}: ${reasons.join(', ')}`;
@@ -0,0 +1,87 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerSnapshot {
+    state: CircuitState;
+    /** Epoch ms at which an open circuit lets a probe through; `null` unless open. */
+    openUntil: number | null;
+    reason: string | null;
+    /** Consecutive trips without a healthy response; each one doubles the cooldown. */
+    consecutiveTrips: number;
+}
+
+export interface CircuitBreakerOptions {
+    baseCooldownMs: number;
+    maxCooldownMs: number;
+}
+
+export interface CircuitBreaker {
+    /** Whether a new call may start now. Once the cooldown has passed, only one probe is let through. */
+    tryAcquire: (now: number) => boolean;
+    /** The API answered without reporting quota exhaustion; ignored while the cooldown is still running. */
+    markHealthy: (now: number) => void;
+    trip: (now: number, retryAfterMs: number | undefined, reason: string) => void;
+    reset: () => void;
+    getSnapshot: (now: number) => CircuitBreakerSnapshot;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+    baseCooldownMs: 30_000,
+    maxCooldownMs: 15 * 60_000,
+};
+
+/**
+ * Creates the breaker shared by every discovery job. Tripping it stops all new calls until
+ * the cooldown (or the server's retry-after hint, if longer) has passed; a single probe then
+ * decides whether to close it again or trip it with a doubled cooldown.
+ */
+export const createCircuitBreaker = (options: Partial<CircuitBreakerOptions> = {}): CircuitBreaker => {
+    const { baseCooldownMs, maxCooldownMs } = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+    let openUntil: number | null = null;
+    let reason: string | null = null;
+    let consecutiveTrips = 0;
+    let probeInFlight = false;
+
+    const getState = (now: number): CircuitState => {
+        if (openUntil === null) return 'closed';
+        return now < openUntil ? 'open' : 'half-open';
+    };
+
+    const close = () => {
+        openUntil = null;
+        reason = null;
+        consecutiveTrips = 0;
+        probeInFlight = false;
+    };
+
+    return {
+        tryAcquire: (now) => {
+            const state = getState(now);
+            if (state === 'closed') return true;
+            if (state === 'open' || probeInFlight) return false;
+            probeInFlight = true;
+            return true;
+        },
+        markHealthy: (now) => {
+            if (getState(now) !== 'open') close();
+        },
+        trip: (now, retryAfterMs, tripReason) => {
+            reason = tripReason;
+            probeInFlight = false;
+            // Calls that were already in flight when the circuit opened only extend the current cooldown.
+            if (getState(now) === 'open' && openUntil !== null) {
+                openUntil = Math.max(openUntil, now + (retryAfterMs ?? 0));
+                return;
+            }
+            consecutiveTrips++;
+            const cooldownMs = Math.min(maxCooldownMs, baseCooldownMs * 2 ** (consecutiveTrips - 1));
+            openUntil = now + Math.max(cooldownMs, retryAfterMs ?? 0);
+        },
+        reset: close,
+        getSnapshot: (now) => ({
+            state: getState(now),
+            openUntil: getState(now) === 'open' ? openUntil : null,
+            reason,
+            consecutiveTrips,
+        }),
+    };
+};
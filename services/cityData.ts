@@ -0,0 +1,220 @@
+import { CityData, Pincode } from '../types';
+
+const sortGroupedCities = (groupedCities: Record<string, CityData[]>) => {
+  const sortedStateNames = Object.keys(groupedCities).sort();
+  const result: Record<string, CityData[]> = {};
+
+  for (const stateName of sortedStateNames) {
+    result[stateName] = groupedCities[stateName]
+      .slice()
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  return result;
+};
+
+export const groupCitiesByState = (cities: CityData[]) =>
+  sortGroupedCities(cities.reduce((acc, city) => {
+    if (!acc[city.stateName]) {
+      acc[city.stateName] = [];
+    }
+    acc[city.stateName].push(city);
+    return acc;
+  }, {} as Record<string, CityData[]>));
+
+/** Replaces one district via `updater`; returns the same object when nothing changed. */
+export const updateCityInGroups = (
+  groupedCities: Record<string, CityData[]>,
+  stateName: string,
+  cityName: string,
+  updater: (city: CityData) => CityData
+) => {
+  const citiesInState = groupedCities[stateName];
+  if (!citiesInState) return groupedCities;
+
+  const cityIndex = citiesInState.findIndex(c => c.name === cityName);
+  if (cityIndex === -1) return groupedCities;
+
+  const updatedCity = updater(citiesInState[cityIndex]);
+  if (updatedCity === citiesInState[cityIndex]) return groupedCities;
+
+  const updatedCitiesInState = [...citiesInState];
+  updatedCitiesInState[cityIndex] = updatedCity;
+
+  return {
+    ...groupedCities,
+    [stateName]: updatedCitiesInState,
+  };
+};
+
+export const mergeAdditionalCities = (existingGrouped: Record<string, CityData[]>, newCities: CityData[]) => {
+  if (newCities.length === 0) {
+    return existingGrouped;
+  }
+
+  const clonedGrouped: Record<string, CityData[]> = {};
+  for (const [stateName, cities] of Object.entries(existingGrouped)) {
+    clonedGrouped[stateName] = cities.map(city => ({
+      ...city,
+      pincodes: city.pincodes.map(p => ({ ...p })),
+    }));
+  }
+
+  for (const additionalCity of newCities) {
+    const stateName = additionalCity.stateName;
+    const clonedAdditionalCity: CityData = {
+      ...additionalCity,
+      pincodes: additionalCity.pincodes.map(p => ({ ...p })),
+    };
+
+    if (!clonedGrouped[stateName]) {
+      clonedGrouped[stateName] = [clonedAdditionalCity];
+      continue;
+    }
+
+    const citiesInState = clonedGrouped[stateName];
+    const cityIndex = citiesInState.findIndex(city => city.name === clonedAdditionalCity.name);
+
+    if (cityIndex === -1) {
+      clonedGrouped[stateName] = [...citiesInState, clonedAdditionalCity];
+      continue;
+    }
+
+    const existingCity = citiesInState[cityIndex];
+    const existingPincodes = new Set(existingCity.pincodes.map(p => p.code));
+    const mergedPincodes = [...existingCity.pincodes];
+    let addedNewPincode = false;
+
+    for (const newPincode of clonedAdditionalCity.pincodes) {
+      if (!existingPincodes.has(newPincode.code)) {
+        mergedPincodes.push({ ...newPincode, status: 'pending' });
+        addedNewPincode = true;
+      }
+    }
+
+    if (addedNewPincode || clonedAdditionalCity.population > existingCity.population) {
+      const updatedCity: CityData = {
+        ...existingCity,
+        population: Math.max(existingCity.population, clonedAdditionalCity.population),
+        pincodes: mergedPincodes,
+      };
+
+      const updatedCities = [...citiesInState];
+      updatedCities[cityIndex] = updatedCity;
+      clonedGrouped[stateName] = updatedCities;
+    }
+  }
+
+  return sortGroupedCities(clonedGrouped);
+};
+
+export interface CityMergeSummary {
+  newStates: string[];
+  newDistricts: { stateName: string; name: string; pincodeCount: number }[];
+  extendedDistricts: { stateName: string; name: string; addedPincodeCount: number; populationRaised: boolean }[];
+  addedPincodeCount: number;
+  unchangedDistrictCount: number;
+  /** Districts that already exist under a different state and would be added again. */
+  stateConflicts: { name: string; existingStates: string[]; incomingState: string }[];
+}
+
+/**
+ * Describes what `mergeAdditionalCities` would change, by diffing its actual result against
+ * the current data so the preview can never disagree with the merge.
+ */
+export const summarizeAdditionalCities = (existingGrouped: Record<string, CityData[]>, newCities: CityData[]): CityMergeSummary => {
+  const merged = mergeAdditionalCities(existingGrouped, newCities);
+  const statesByDistrict = new Map<string, string[]>();
+  for (const [stateName, cities] of Object.entries(existingGrouped)) {
+    for (const city of cities) {
+      statesByDistrict.set(city.name, [...(statesByDistrict.get(city.name) ?? []), stateName]);
+    }
+  }
+
+  const summary: CityMergeSummary = {
+    newStates: Object.keys(merged).filter(stateName => !existingGrouped[stateName]),
+    newDistricts: [],
+    extendedDistricts: [],
+    addedPincodeCount: 0,
+    unchangedDistrictCount: 0,
+    stateConflicts: [],
+  };
+
+  for (const [stateName, cities] of Object.entries(merged)) {
+    for (const city of cities) {
+      const before = existingGrouped[stateName]?.find(existing => existing.name === city.name);
+      if (!before) {
+        summary.newDistricts.push({ stateName, name: city.name, pincodeCount: city.pincodes.length });
+        summary.addedPincodeCount += city.pincodes.length;
+        const existingStates = statesByDistrict.get(city.name);
+        if (existingStates) {
+          summary.stateConflicts.push({ name: city.name, existingStates, incomingState: stateName });
+        }
+        continue;
+      }
+      const addedPincodeCount = city.pincodes.length - before.pincodes.length;
+      const populationRaised = city.population > before.population;
+      if (addedPincodeCount > 0 || populationRaised) {
+        summary.extendedDistricts.push({ stateName, name: city.name, addedPincodeCount, populationRaised });
+        summary.addedPincodeCount += addedPincodeCount;
+      } else if (newCities.some(incoming => incoming.stateName === stateName && incoming.name === city.name)) {
+        summary.unchangedDistrictCount++;
+      }
+    }
+  }
+
+  return summary;
+};
+
+/** A district is complete once every pincode is scanned or was skipped by its scan plan. */
+export const isPincodeDone = (pincode: Pincode) => pincode.status === 'scanned' || pincode.status === 'skipped';
+
+const mergePincodeProgress = (existing: Pincode, incoming: Pincode): Pincode =>
+  existing.status !== 'scanned' && incoming.status === 'scanned' ? { ...incoming } : existing;
+
+/**
+ * Merges cities from another session. Like `mergeAdditionalCities`, existing districts and
+ * their progress are never discarded; unlike it, imported pincodes keep their scan status
+ * and results so work done elsewhere is not repeated.
+ */
+export const mergeProjectCities = (existingGrouped: Record<string, CityData[]>, incomingCities: CityData[]) => {
+  const merged: Record<string, CityData[]> = {};
+  for (const [stateName, cities] of Object.entries(existingGrouped)) {
+    merged[stateName] = [...cities];
+  }
+
+  for (const incomingCity of incomingCities) {
+    const citiesInState = merged[incomingCity.stateName] ?? [];
+    const cityIndex = citiesInState.findIndex(city => city.name === incomingCity.name);
+
+    if (cityIndex === -1) {
+      merged[incomingCity.stateName] = [...citiesInState, incomingCity];
+      continue;
+    }
+
+    const existingCity = citiesInState[cityIndex];
+    const incomingPincodes = new Map(incomingCity.pincodes.map(p => [p.code, p]));
+    const existingCodes = new Set(existingCity.pincodes.map(p => p.code));
+    const pincodes = [
+      ...existingCity.pincodes.map(p => (incomingPincodes.has(p.code) ? mergePincodeProgress(p, incomingPincodes.get(p.code)!) : p)),
+      ...incomingCity.pincodes.filter(p => !existingCodes.has(p.code)).map(p => ({ ...p })),
+    ];
+    const centerIds = Array.from(new Set([...existingCity.centerIds, ...incomingCity.centerIds]));
+    const allDone = pincodes.every(isPincodeDone);
+
+    const updatedCities = [...citiesInState];
+    updatedCities[cityIndex] = {
+      ...existingCity,
+      population: Math.max(existingCity.population, incomingCity.population),
+      pincodes,
+      centerIds,
+      centersFound: centerIds.length,
+      status: allDone ? 'completed' : existingCity.status === 'completed' ? 'stopped' : existingCity.status,
+      // Run histories cannot be interleaved, so the imported one is only taken when this district has none.
+      ...(existingCity.currentRun ? {} : { currentRun: incomingCity.currentRun, runHistory: incomingCity.runHistory }),
+    };
+    merged[incomingCity.stateName] = updatedCities;
+  }
+
+  return sortGroupedCities(merged);
+};
@@ -0,0 +1,213 @@
+import { CityData, ScanCenter } from '../types';
+
+/** An address split into the parts Indian postal addresses usually carry, most specific first. */
+export interface StructuredAddress {
+    /** Building, street, and anything else before the locality. */
+    line: string;
+    locality?: string;
+    city?: string;
+    district?: string;
+    state?: string;
+    pincode?: string;
+}
+
+/** `unknown` is a number starting 6-9 written in a form an STD code could also take. */
+export type PhoneNumberType = 'mobile' | 'landline' | 'toll-free' | 'unknown';
+
+export interface ParsedPhoneNumber {
+    /** The number as written in the contact details. */
+    raw: string;
+    e164: string;
+    type: PhoneNumberType;
+}
+
+/** Whether a center's address pincode belongs to the district that found it. */
+export type PincodeCheck = 'in-district' | 'outside-district' | 'missing';
+
+export interface NormalizedContact {
+    address: StructuredAddress;
+    phones: ParsedPhoneNumber[];
+}
+
+const STATES_AND_UNION_TERRITORIES = [
+    'Andaman and Nicobar Islands', 'Andhra Pradesh', 'Arunachal Pradesh', 'Assam', 'Bihar', 'Chandigarh',
+    'Chhattisgarh', 'Dadra and Nagar Haveli and Daman and Diu', 'Delhi', 'Goa', 'Gujarat', 'Haryana',
+    'Himachal Pradesh', 'Jammu and Kashmir', 'Jharkhand', 'Karnataka', 'Kerala', 'Ladakh', 'Lakshadweep',
+    'Madhya Pradesh', 'Maharashtra', 'Manipur', 'Meghalaya', 'Mizoram', 'Nagaland', 'Odisha', 'Puducherry',
+    'Punjab', 'Rajasthan', 'Sikkim', 'Tamil Nadu', 'Telangana', 'Tripura', 'Uttar Pradesh', 'Uttarakhand',
+    'West Bengal',
+];
+
+// Spellings seen in listings, the CSV, and the India Post directory that differ from the official names above.
+const STATE_ALIASES: Record<string, string> = {
+    chattisgarh: 'Chhattisgarh',
+    'dadra and nagar haveli': 'Dadra and Nagar Haveli and Daman and Diu',
+    'daman and diu': 'Dadra and Nagar Haveli and Daman and Diu',
+    'new delhi': 'Delhi',
+    'nct of delhi': 'Delhi',
+    orissa: 'Odisha',
+    pondicherry: 'Puducherry',
+    uttaranchal: 'Uttarakhand',
+    'j&k': 'Jammu and Kashmir',
+};
+
+const normalizeKey = (value: string) => value.toLowerCase().replace(/&/g, ' and ').replace(/[^a-z]+/g, ' ').trim();
+
+const STATE_LOOKUP = new Map<string, string>([
+    ...STATES_AND_UNION_TERRITORIES.map(state => [normalizeKey(state), state] as [string, string]),
+    ...Object.entries(STATE_ALIASES).map(([alias, state]) => [normalizeKey(alias), state] as [string, string]),
+]);
+
+/** The official name for a state or union territory spelling; unknown names are returned as given. */
+export const canonicalStateName = (name: string) => STATE_LOOKUP.get(normalizeKey(name)) ?? name;
+
+const PINCODE_PATTERN = /(?<!\d)[1-9]\d{2}\s?\d{3}(?!\d)/g;
+
+/** Returns the last 6-digit pincode in an address; "110 001" is read as 110001. */
+export const extractPincode = (address: string): string | undefined => {
+    const matches = address.match(PINCODE_PATTERN);
+    return matches ? matches[matches.length - 1].replace(/\s/g, '') : undefined;
+};
+
+const findLastIndex = <T>(items: T[], predicate: (item: T) => boolean) => {
+    for (let i = items.length - 1; i >= 0; i--) {
+        if (predicate(items[i])) return i;
+    }
+    return -1;
+};
+
+const findState = (part: string) => STATE_LOOKUP.get(normalizeKey(part));
+
+/**
+ * Splits a free-text address on commas and reads it from the end: pincode, state, city,
+ * then locality; whatever is left is the address line. A part naming the district the
+ * center was found in is taken as the district. This is a heuristic for the comma-separated
+ * addresses the model returns, not a full postal parser.
+ */
+export const parseIndianAddress = (address: string, hints: { district?: string } = {}): StructuredAddress => {
+    const pincode = extractPincode(address);
+    const parts = address
+        .split(/[,\n]/)
+        .map(part => part
+            .replace(PINCODE_PATTERN, '')
+            .replace(/\b(pin\s*code|pin)\b\s*[:.-]?/gi, '')
+            .replace(/^[\s-]+|[\s-]+$/g, ''))
+        .filter(part => part && normalizeKey(part) !== 'india');
+
+    let state: string | undefined;
+    const stateIndex = findLastIndex(parts, part => Boolean(findState(part)));
+    if (stateIndex !== -1) {
+        state = findState(parts[stateIndex]);
+        // "New Delhi" names both the city and the state; keep it as the city too.
+        if (normalizeKey(parts[stateIndex]) !== 'new delhi') {
+            parts.splice(stateIndex, 1);
+        }
+    }
+
+    const districtKey = hints.district ? normalizeKey(hints.district) : '';
+    const district = districtKey ? parts.find(part => normalizeKey(part) === districtKey) : undefined;
+
+    const city = parts.length > 1 ? parts.pop() : undefined;
+    const locality = parts.length > 1 ? parts.pop() : undefined;
+
+    return {
+        line: parts.join(', '),
+        ...(locality ? { locality } : {}),
+        ...(city ? { city } : {}),
+        ...(district ? { district } : {}),
+        ...(state ? { state } : {}),
+        ...(pincode ? { pincode } : {}),
+    };
+};
+
+/**
+ * Reads a national significant number (the digits after +91) into E.164 form. Mobile numbers
+ * are ten digits starting with 6-9; landlines are ten digits of STD code plus subscriber number;
+ * toll-free numbers start with 1800. Numbers written without an STD code cannot be dialled
+ * from outside their area, so they are dropped.
+ */
+const toNationalNumber = (digits: string): string | undefined => {
+    if (digits.startsWith('0091')) digits = digits.slice(4);
+    else if (digits.length === 12 && digits.startsWith('91')) digits = digits.slice(2);
+    else if (digits.length === 11 && digits.startsWith('0')) digits = digits.slice(1);
+
+    if (/^1800\d{6,7}$/.test(digits)) return digits;
+    return /^[1-9]\d{9}$/.test(digits) ? digits : undefined;
+};
+
+/**
+ * Landline STD codes such as 80 (Bengaluru) and 79 (Ahmedabad) also start with 6-9, so the
+ * leading digit alone cannot tell them from mobiles. A number counts as a mobile only when it
+ * is written without a trunk 0 and without a leading 2-4 digit group, which is how STD codes
+ * are written ("080 2222 3333", "+91-80-2222-3333").
+ */
+const getPhoneType = (national: string, raw: string): PhoneNumberType => {
+    if (national.startsWith('1800')) return 'toll-free';
+    if (!/^[6-9]/.test(national)) return 'landline';
+
+    const groups = raw.match(/\d+/g) ?? [];
+    if (groups.join('').length > 10 && (groups[0] === '91' || groups[0] === '0091')) {
+        groups.shift();
+    } else if (groups[0]?.length === 12 && groups[0].startsWith('91')) {
+        groups[0] = groups[0].slice(2);
+    }
+    const [first = ''] = groups;
+    return first.startsWith('0') || (first.length >= 2 && first.length <= 4) ? 'unknown' : 'mobile';
+};
+
+/** Parses every Indian phone number in a contact string, in order and without duplicates. */
+export const parseIndianPhoneNumbers = (contactDetails: string): ParsedPhoneNumber[] => {
+    const seen = new Set<string>();
+    const numbers: ParsedPhoneNumber[] = [];
+    for (const candidate of contactDetails.split(/[,;/|]|\bor\b/i)) {
+        const national = toNationalNumber(candidate.replace(/\D/g, ''));
+        if (!national) continue;
+        const e164 = `+91${national}`;
+        if (seen.has(e164)) continue;
+        seen.add(e164);
+        numbers.push({ raw: candidate.trim(), e164, type: getPhoneType(national, candidate) });
+    }
+    return numbers;
+};
+
+export const PHONE_TYPE_LABELS: Record<PhoneNumberType, string> = {
+    mobile: 'Mobile',
+    landline: 'Landline',
+    'toll-free': 'Toll-free',
+    unknown: 'Mobile or landline',
+};
+
+// Centers are immutable, so parsing once per object is enough; an edit produces a new object.
+const contactCache = new WeakMap<ScanCenter, Map<string, NormalizedContact>>();
+
+/** Parses a center's address and phone numbers, using the district it was found in as a hint. */
+export const normalizeContact = (center: ScanCenter, district?: string): NormalizedContact => {
+    let byDistrict = contactCache.get(center);
+    if (!byDistrict) {
+        byDistrict = new Map();
+        contactCache.set(center, byDistrict);
+    }
+    const key = district ?? '';
+    let contact = byDistrict.get(key);
+    if (!contact) {
+        contact = {
+            address: parseIndianAddress(center.address, { district }),
+            phones: parseIndianPhoneNumbers(center.contactDetails || ''),
+        };
+        byDistrict.set(key, contact);
+    }
+    return contact;
+};
+
+/** Compares a center's address pincode with the pincodes the district lists in the CSV. */
+export const checkPincodeInDistrict = (center: ScanCenter, city: CityData): PincodeCheck => {
+    const pincode = extractPincode(center.address);
+    if (!pincode) return 'missing';
+    return city.pincodes.some(p => p.code === pincode) ? 'in-district' : 'outside-district';
+};
+
+export const PINCODE_CHECK_LABELS: Record<PincodeCheck, string> = {
+    'in-district': 'Pincode in district',
+    'outside-district': 'Pincode outside district',
+    missing: 'No pincode in address',
+};
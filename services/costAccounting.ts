@@ -0,0 +1,216 @@
+import { CityData } from '../types';
+import { cityKey } from './discoveryQueue';
+import { GeminiCallTelemetry } from './geminiService';
+import { GEMINI_MODEL } from './promptConfig';
+
+/** USD prices for one model. Token prices are per million tokens. */
+export interface ModelPricing {
+    inputPerMillion: number;
+    outputPerMillion: number;
+    groundingPerMillion: number;
+    /** Flat charge for each grounding call that used Search/Maps. */
+    perGroundedRequest: number;
+}
+
+export type PriceTable = Record<string, ModelPricing>;
+
+export interface BudgetSettings {
+    /** Estimated spend, in USD, at which discovery is paused; `null` disables the cap. */
+    capUsd: number | null;
+    /** Only calls made after this moment count against the cap; `null` counts every recorded call. */
+    periodStartedAt: string | null;
+}
+
+export interface UsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    groundingTokens: number;
+    groundedRequests: number;
+    costUsd: number;
+}
+
+export interface CostSummary {
+    total: UsageTotals;
+    session: UsageTotals;
+    byState: Record<string, UsageTotals>;
+    /** Keyed by `cityKey(stateName, cityName)`. */
+    byCity: Record<string, UsageTotals>;
+    byPincode: Record<string, UsageTotals>;
+    /** Calls for pincodes that are not in any loaded district. */
+    unattributed: UsageTotals;
+}
+
+const PRICING_STORAGE_KEY = 'ctScanDiscovererPricing';
+const BUDGET_STORAGE_KEY = 'ctScanDiscovererBudget';
+
+// Published list prices for prompts up to 200k tokens; edit them in the app when they change.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+    [GEMINI_MODEL]: {
+        inputPerMillion: 1.25,
+        outputPerMillion: 10,
+        groundingPerMillion: 1.25,
+        perGroundedRequest: 0.035,
+    },
+    // Cheaper models that prompt configurations can pick per stage.
+    'gemini-2.5-flash': {
+        inputPerMillion: 0.3,
+        outputPerMillion: 2.5,
+        groundingPerMillion: 0.3,
+        perGroundedRequest: 0.035,
+    },
+    'gemini-2.5-flash-lite': {
+        inputPerMillion: 0.1,
+        outputPerMillion: 0.4,
+        groundingPerMillion: 0.1,
+        perGroundedRequest: 0.035,
+    },
+};
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = { capUsd: null, periodStartedAt: null };
+
+export const emptyUsageTotals = (): UsageTotals => ({
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    groundingTokens: 0,
+    groundedRequests: 0,
+    costUsd: 0,
+});
+
+// Older records have no model; every call so far went to the default one.
+const getPricing = (entry: GeminiCallTelemetry, priceTable: PriceTable): ModelPricing | undefined =>
+    priceTable[entry.model ?? GEMINI_MODEL];
+
+/** Failed calls with no usage metadata cost nothing; an unpriced model is counted at zero. */
+export const estimateCallCost = (entry: GeminiCallTelemetry, priceTable: PriceTable) => {
+    const pricing = getPricing(entry, priceTable);
+    if (!pricing) {
+        return 0;
+    }
+    const grounded = entry.stage === 'grounding' && entry.status === 'success' ? 1 : 0;
+    return ((entry.inputTokens ?? 0) * pricing.inputPerMillion
+        + (entry.outputTokens ?? 0) * pricing.outputPerMillion
+        + (entry.groundingTokens ?? 0) * pricing.groundingPerMillion) / 1_000_000
+        + grounded * pricing.perGroundedRequest;
+};
+
+const addCall = (totals: UsageTotals, entry: GeminiCallTelemetry, costUsd: number) => {
+    totals.calls++;
+    totals.inputTokens += entry.inputTokens ?? 0;
+    totals.outputTokens += entry.outputTokens ?? 0;
+    totals.groundingTokens += entry.groundingTokens ?? 0;
+    if (entry.stage === 'grounding' && entry.status === 'success') totals.groundedRequests++;
+    totals.costUsd += costUsd;
+};
+
+const addTo = (record: Record<string, UsageTotals>, key: string, entry: GeminiCallTelemetry, costUsd: number) => {
+    if (!record[key]) record[key] = emptyUsageTotals();
+    addCall(record[key], entry, costUsd);
+};
+
+/**
+ * Rolls telemetry up by pincode, district, state, and session. Telemetry records only the
+ * pincode, so a call is attributed to the first loaded district that lists it.
+ */
+export const summarizeCosts = (
+    entries: GeminiCallTelemetry[],
+    groupedCities: Record<string, CityData[]>,
+    priceTable: PriceTable,
+    sessionStartedAt: string
+): CostSummary => {
+    const cityByPincode = new Map<string, CityData>();
+    for (const cities of Object.values(groupedCities)) {
+        for (const city of cities) {
+            city.pincodes.forEach(p => {
+                if (!cityByPincode.has(p.code)) cityByPincode.set(p.code, city);
+            });
+        }
+    }
+
+    const summary: CostSummary = {
+        total: emptyUsageTotals(),
+        session: emptyUsageTotals(),
+        byState: {},
+        byCity: {},
+        byPincode: {},
+        unattributed: emptyUsageTotals(),
+    };
+
+    for (const entry of entries) {
+        const costUsd = estimateCallCost(entry, priceTable);
+        addCall(summary.total, entry, costUsd);
+        if (entry.startedAt >= sessionStartedAt) addCall(summary.session, entry, costUsd);
+        addTo(summary.byPincode, entry.pincode, entry, costUsd);
+
+        const city = cityByPincode.get(entry.pincode);
+        if (city) {
+            addTo(summary.byCity, cityKey(city.stateName, city.name), entry, costUsd);
+            addTo(summary.byState, city.stateName, entry, costUsd);
+        } else {
+            addCall(summary.unattributed, entry, costUsd);
+        }
+    }
+
+    return summary;
+};
+
+export const getBudgetSpend = (entries: GeminiCallTelemetry[], priceTable: PriceTable, budget: BudgetSettings) =>
+    entries.reduce((total, entry) =>
+        budget.periodStartedAt && entry.startedAt < budget.periodStartedAt ? total : total + estimateCallCost(entry, priceTable), 0);
+
+export const isBudgetExceeded = (spendUsd: number, budget: BudgetSettings) =>
+    budget.capUsd !== null && spendUsd >= budget.capUsd;
+
+export const formatUsd = (value: number) => `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+
+const isModelPricing = (value: unknown): value is ModelPricing =>
+    typeof value === 'object' && value !== null
+    && ['inputPerMillion', 'outputPerMillion', 'groundingPerMillion', 'perGroundedRequest']
+        .every(key => typeof (value as Record<string, unknown>)[key] === 'number');
+
+/** Stored prices override the defaults per model; malformed entries are ignored. */
+export const loadPriceTable = (): PriceTable => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(PRICING_STORAGE_KEY) ?? '{}') as Record<string, unknown>;
+        const table: PriceTable = { ...DEFAULT_PRICE_TABLE };
+        for (const [model, pricing] of Object.entries(stored)) {
+            if (isModelPricing(pricing)) table[model] = pricing;
+        }
+        return table;
+    } catch (error) {
+        console.error('Failed to read the price table', error);
+        return { ...DEFAULT_PRICE_TABLE };
+    }
+};
+
+export const savePriceTable = (priceTable: PriceTable) => {
+    try {
+        localStorage.setItem(PRICING_STORAGE_KEY, JSON.stringify(priceTable));
+    } catch (error) {
+        console.error('Failed to save the price table', error);
+    }
+};
+
+export const loadBudgetSettings = (): BudgetSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(BUDGET_STORAGE_KEY) ?? 'null') as Partial<BudgetSettings> | null;
+        if (stored) {
+            return {
+                capUsd: typeof stored.capUsd === 'number' && stored.capUsd >= 0 ? stored.capUsd : null,
+                periodStartedAt: typeof stored.periodStartedAt === 'string' ? stored.periodStartedAt : null,
+            };
+        }
+    } catch (error) {
+        console.error('Failed to read budget settings', error);
+    }
+    return DEFAULT_BUDGET_SETTINGS;
+};
+
+export const saveBudgetSettings = (budget: BudgetSettings) => {
+    try {
+        localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+    } catch (error) {
+        console.error('Failed to save budget settings', error);
+    }
+};
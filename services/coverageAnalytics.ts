@@ -0,0 +1,197 @@
+import { CenterRegistry, CityData } from '../types';
+import { resolveCenters } from './centerRegistry';
+import { isRejected } from './centerReview';
+import { downloadFile } from './fileDownload';
+import { escapeCsvField } from './resultsExport';
+
+/**
+ * - `not-scanned`: no pincode has been scanned yet, so the count says nothing.
+ * - `none`: scanning has started and found no centers.
+ * - `below-threshold` / `adequate`: compared with the centers-per-million threshold.
+ * - `no-population`: centers were found but the CSV gives no population to divide by.
+ */
+export type CoverageLevel = 'not-scanned' | 'none' | 'below-threshold' | 'adequate' | 'no-population';
+
+export const COVERAGE_LEVEL_LABELS: Record<CoverageLevel, string> = {
+    'not-scanned': 'Not scanned',
+    none: 'No centers',
+    'below-threshold': 'Below threshold',
+    adequate: 'At or above threshold',
+    'no-population': 'No population data',
+};
+
+export interface CoverageRow {
+    stateName: string;
+    /** Missing on state rows. */
+    district?: string;
+    population: number;
+    /** Centers that have not been rejected in review. */
+    centers: number;
+    centersPerMillion?: number;
+    pincodes: number;
+    scannedPincodes: number;
+    /** Share of pincodes scanned, 0–1. */
+    scanCompleteness: number;
+    level: CoverageLevel;
+}
+
+export interface CoverageAnalysis {
+    districts: CoverageRow[];
+    states: CoverageRow[];
+    total: CoverageRow;
+}
+
+export interface CoverageSettings {
+    /** Districts below this many centers per million people are flagged as underserved. */
+    thresholdPerMillion: number;
+}
+
+export const DEFAULT_COVERAGE_SETTINGS: CoverageSettings = { thresholdPerMillion: 2 };
+
+const COVERAGE_STORAGE_KEY = 'ctScanDiscovererCoverageSettings';
+
+export const getCentersPerMillion = (centers: number, population: number) =>
+    population > 0 ? (centers / population) * 1_000_000 : undefined;
+
+const classifyCoverage = (row: Omit<CoverageRow, 'level'>, settings: CoverageSettings): CoverageLevel => {
+    if (row.scannedPincodes === 0) return 'not-scanned';
+    if (row.centers === 0) return 'none';
+    if (row.centersPerMillion === undefined) return 'no-population';
+    return row.centersPerMillion < settings.thresholdPerMillion ? 'below-threshold' : 'adequate';
+};
+
+const buildRow = (
+    stateName: string,
+    district: string | undefined,
+    population: number,
+    centerIds: Set<string>,
+    pincodes: CityData['pincodes'],
+    settings: CoverageSettings
+): CoverageRow => {
+    const scannedPincodes = pincodes.filter(p => p.status === 'scanned').length;
+    const row = {
+        stateName,
+        ...(district !== undefined ? { district } : {}),
+        population,
+        centers: centerIds.size,
+        centersPerMillion: getCentersPerMillion(centerIds.size, population),
+        pincodes: pincodes.length,
+        scannedPincodes,
+        scanCompleteness: pincodes.length > 0 ? scannedPincodes / pincodes.length : 0,
+    };
+    return { ...row, level: classifyCoverage(row, settings) };
+};
+
+/**
+ * Computes coverage per district, per state, and overall. A center listed by two districts
+ * counts in both district rows but once in their state and in the total, so state ratios are
+ * not inflated by overlap. Rejected centers are never counted.
+ */
+export const analyzeCoverage = (
+    groupedCities: Record<string, CityData[]>,
+    registry: CenterRegistry,
+    settings: CoverageSettings = DEFAULT_COVERAGE_SETTINGS
+): CoverageAnalysis => {
+    const districts: CoverageRow[] = [];
+    const states: CoverageRow[] = [];
+    const allIds = new Set<string>();
+    const allPincodes: CityData['pincodes'] = [];
+    let totalPopulation = 0;
+
+    for (const stateName of Object.keys(groupedCities).sort()) {
+        const stateIds = new Set<string>();
+        const statePincodes: CityData['pincodes'] = [];
+        let statePopulation = 0;
+        for (const city of groupedCities[stateName]) {
+            const ids = new Set(resolveCenters(registry, city.centerIds).filter(center => !isRejected(center)).map(center => center.id));
+            districts.push(buildRow(stateName, city.name, city.population, ids, city.pincodes, settings));
+            ids.forEach(id => stateIds.add(id));
+            statePincodes.push(...city.pincodes);
+            statePopulation += city.population;
+        }
+        states.push(buildRow(stateName, undefined, statePopulation, stateIds, statePincodes, settings));
+        stateIds.forEach(id => allIds.add(id));
+        allPincodes.push(...statePincodes);
+        totalPopulation += statePopulation;
+    }
+
+    return { districts, states, total: buildRow('All states', undefined, totalPopulation, allIds, allPincodes, settings) };
+};
+
+export const isUnderserved = (row: CoverageRow) => row.level === 'none' || row.level === 'below-threshold';
+
+export type CoverageSortKey = 'centersPerMillion' | 'centers' | 'population' | 'scanCompleteness' | 'name';
+
+/**
+ * Sorts rows for ranking. Rows without a ratio (no population) go last in either direction,
+ * so "least served first" really starts with the least served.
+ */
+export const sortCoverageRows = (rows: CoverageRow[], key: CoverageSortKey, direction: 'asc' | 'desc') => {
+    const sign = direction === 'asc' ? 1 : -1;
+    const name = (row: CoverageRow) => `${row.district ?? ''}, ${row.stateName}`;
+    return [...rows].sort((a, b) => {
+        if (key === 'name') return sign * name(a).localeCompare(name(b));
+        if (key === 'centersPerMillion') {
+            if (a.centersPerMillion === undefined || b.centersPerMillion === undefined) {
+                return (a.centersPerMillion === undefined ? 1 : 0) - (b.centersPerMillion === undefined ? 1 : 0);
+            }
+            return sign * (a.centersPerMillion - b.centersPerMillion) || name(a).localeCompare(name(b));
+        }
+        return sign * (a[key] - b[key]) || name(a).localeCompare(name(b));
+    });
+};
+
+export const formatPerMillion = (value?: number) => (value === undefined ? '—' : value.toFixed(2));
+
+const COVERAGE_COLUMNS: { header: string; value: (row: CoverageRow) => string | number | undefined }[] = [
+    { header: 'Level', value: row => (row.district !== undefined ? 'District' : 'State') },
+    { header: 'State', value: row => row.stateName },
+    { header: 'District', value: row => row.district },
+    { header: 'Population', value: row => row.population },
+    { header: 'Centers', value: row => row.centers },
+    { header: 'Centers per Million', value: row => (row.centersPerMillion === undefined ? undefined : Number(row.centersPerMillion.toFixed(3))) },
+    { header: 'Pincodes', value: row => row.pincodes },
+    { header: 'Scanned Pincodes', value: row => row.scannedPincodes },
+    { header: 'Scan Completeness (%)', value: row => Math.round(row.scanCompleteness * 1000) / 10 },
+    { header: 'Coverage', value: row => row.level },
+];
+
+/** States first, then districts, each in the order given; the threshold is noted in the last column header. */
+export const buildCoverageCsv = (analysis: CoverageAnalysis, settings: CoverageSettings) => {
+    const rows = [...analysis.states, ...analysis.districts];
+    const headers = [...COVERAGE_COLUMNS.map(column => column.header), `Underserved (< ${settings.thresholdPerMillion}/M)`];
+    const lines = [
+        headers.map(escapeCsvField).join(','),
+        ...rows.map(row => [
+            ...COVERAGE_COLUMNS.map(column => escapeCsvField(column.value(row))),
+            escapeCsvField(isUnderserved(row) ? 'yes' : 'no'),
+        ].join(',')),
+    ];
+    // Same BOM and CRLF conventions as the results CSV, so Excel opens it directly.
+    return '\uFEFF' + lines.join('\r\n');
+};
+
+export const downloadCoverageAnalysis = (analysis: CoverageAnalysis, settings: CoverageSettings) => {
+    const dateStamp = new Date().toISOString().slice(0, 10);
+    downloadFile(buildCoverageCsv(analysis, settings), `CT_Coverage_Analysis_${dateStamp}.csv`, 'text/csv;charset=utf-8;');
+};
+
+export const loadCoverageSettings = (): CoverageSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(COVERAGE_STORAGE_KEY) ?? 'null') as Partial<CoverageSettings> | null;
+        if (stored && typeof stored.thresholdPerMillion === 'number' && stored.thresholdPerMillion >= 0) {
+            return { thresholdPerMillion: stored.thresholdPerMillion };
+        }
+    } catch (error) {
+        console.error('Failed to read coverage settings', error);
+    }
+    return DEFAULT_COVERAGE_SETTINGS;
+};
+
+export const saveCoverageSettings = (settings: CoverageSettings) => {
+    try {
+        localStorage.setItem(COVERAGE_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error('Failed to save coverage settings', error);
+    }
+};
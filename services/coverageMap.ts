@@ -0,0 +1,244 @@
+import { CenterRegistry, CityData, GeoCoordinates, RegisteredCenter } from '../types';
+import { resolveCenters } from './centerRegistry';
+import { cityKey } from './discoveryQueue';
+
+/**
+ * District boundaries are read from a GeoJSON file served next to `Selected_centers.csv`, so the
+ * map needs no tile server or network access. Without the file, districts are drawn as circles
+ * around the centers they found.
+ */
+export const DISTRICT_BOUNDARIES_URL = '/india_districts.geojson';
+
+type Ring = [number, number][];
+
+export type BoundaryGeometry =
+    | { type: 'Polygon'; coordinates: Ring[] }
+    | { type: 'MultiPolygon'; coordinates: Ring[][] };
+
+export interface BoundaryFeature {
+    properties: Record<string, unknown>;
+    geometry: BoundaryGeometry;
+}
+
+export type ShadingMetric = 'progress' | 'centersPerMillion';
+
+export const SHADING_METRICS: { id: ShadingMetric; label: string }[] = [
+    { id: 'progress', label: 'Scan progress' },
+    { id: 'centersPerMillion', label: 'Centers per million people' },
+];
+
+/** A rectangle in longitude/latitude degrees. */
+export interface GeoBounds {
+    west: number;
+    south: number;
+    east: number;
+    north: number;
+}
+
+export const INDIA_BOUNDS: GeoBounds = { west: 68, south: 6.5, east: 97.5, north: 37.5 };
+
+// Property names used for district and state by the common Indian boundary datasets.
+const DISTRICT_PROPERTIES = ['district', 'DISTRICT', 'dtname', 'DTNAME', 'NAME_2', 'name'];
+const STATE_PROPERTIES = ['st_nm', 'ST_NM', 'state', 'STATE', 'stname', 'NAME_1'];
+
+const isPolygonGeometry = (geometry: unknown): geometry is BoundaryGeometry =>
+    typeof geometry === 'object' && geometry !== null
+    && ['Polygon', 'MultiPolygon'].includes((geometry as { type?: unknown }).type as string)
+    && Array.isArray((geometry as { coordinates?: unknown }).coordinates);
+
+/** Fetches the boundary file; resolves to null when it is not deployed or cannot be read. */
+export const loadDistrictBoundaries = async (): Promise<BoundaryFeature[] | null> => {
+    try {
+        const response = await fetch(DISTRICT_BOUNDARIES_URL);
+        if (!response.ok) {
+            return null;
+        }
+        const collection = await response.json();
+        if (!Array.isArray(collection?.features)) {
+            console.warn(`${DISTRICT_BOUNDARIES_URL} is not a GeoJSON FeatureCollection; drawing districts as circles.`);
+            return null;
+        }
+        return collection.features.filter((feature: { geometry?: unknown }) => isPolygonGeometry(feature?.geometry));
+    } catch (error) {
+        console.warn('Could not load district boundaries; drawing districts as circles.', error);
+        return null;
+    }
+};
+
+const normalizeName = (value: string) => value.toLowerCase().replace(/&/g, ' and ').replace(/[^a-z]+/g, ' ').trim();
+
+const readProperty = (feature: BoundaryFeature, keys: string[]) => {
+    for (const key of keys) {
+        const value = feature.properties?.[key];
+        if (typeof value === 'string' && value.trim()) return normalizeName(value);
+    }
+    return undefined;
+};
+
+/**
+ * Pairs each district with its boundary by name. A feature that names a state must also match the
+ * district's state, so same-named districts in different states (Aurangabad, Bilaspur) stay apart.
+ */
+export const matchDistrictBoundaries = (features: BoundaryFeature[], cities: CityData[]) => {
+    const byDistrict = new Map<string, BoundaryFeature[]>();
+    features.forEach(feature => {
+        const district = readProperty(feature, DISTRICT_PROPERTIES);
+        if (district) byDistrict.set(district, [...(byDistrict.get(district) ?? []), feature]);
+    });
+    // Keyed by `cityKey` so matches survive the district objects being replaced on every update.
+    const matches = new Map<string, BoundaryFeature>();
+    cities.forEach(city => {
+        const state = normalizeName(city.stateName);
+        const match = (byDistrict.get(normalizeName(city.name)) ?? []).find(feature => {
+            const featureState = readProperty(feature, STATE_PROPERTIES);
+            // Containment lets "NCT of Delhi" match "Delhi".
+            return !featureState || featureState.includes(state) || state.includes(featureState);
+        });
+        if (match) matches.set(cityKey(city.stateName, city.name), match);
+    });
+    return matches;
+};
+
+export const hasValidCoordinates = (center: RegisteredCenter): center is RegisteredCenter & { coordinates: GeoCoordinates } =>
+    Boolean(center.coordinates && Number.isFinite(center.coordinates.lat) && Number.isFinite(center.coordinates.lng));
+
+/** Share of the district's pincodes scanned, or its centers per million people. */
+export const getDistrictMetric = (city: CityData, metric: ShadingMetric): number | undefined => {
+    if (metric === 'progress') {
+        return city.pincodes.length > 0 ? city.pincodes.filter(p => p.status === 'scanned').length / city.pincodes.length : undefined;
+    }
+    return city.population > 0 ? (city.centerIds.length / city.population) * 1_000_000 : undefined;
+};
+
+export const formatDistrictMetric = (value: number | undefined, metric: ShadingMetric) => {
+    if (value === undefined) return 'No data';
+    return metric === 'progress' ? `${Math.round(value * 100)}% scanned` : `${value.toFixed(1)} centers per million`;
+};
+
+/** Cyan shades from dark (0) to bright (max); districts without a value are grey. */
+export const getShadeColor = (value: number | undefined, max: number) => {
+    if (value === undefined) return '#374151';
+    const share = max > 0 ? Math.min(1, value / max) : 0;
+    const lightness = 18 + Math.round(share * 42);
+    return `hsl(188, 80%, ${lightness}%)`;
+};
+
+export interface DistrictMapEntry {
+    city: CityData;
+    boundary?: BoundaryFeature;
+    /** Mean position of the district's geocoded centers; used when there is no boundary. */
+    centroid?: GeoCoordinates;
+    centers: (RegisteredCenter & { coordinates: GeoCoordinates })[];
+}
+
+/** Collects each district's geocoded centers and boundary. Centers listed by two districts appear in both. */
+export const buildDistrictMapEntries = (
+    groupedCities: Record<string, CityData[]>,
+    registry: CenterRegistry,
+    boundaries: Map<string, BoundaryFeature>
+): DistrictMapEntry[] =>
+    Object.keys(groupedCities).sort().flatMap(stateName => groupedCities[stateName].map(city => {
+        const centers = resolveCenters(registry, city.centerIds).filter(hasValidCoordinates);
+        const centroid = centers.length > 0
+            ? {
+                lat: centers.reduce((sum, center) => sum + center.coordinates.lat, 0) / centers.length,
+                lng: centers.reduce((sum, center) => sum + center.coordinates.lng, 0) / centers.length,
+            }
+            : undefined;
+        return { city, boundary: boundaries.get(cityKey(city.stateName, city.name)), centroid, centers };
+    }));
+
+const forEachVertex = (geometry: BoundaryGeometry, visit: (lng: number, lat: number) => void) => {
+    const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+    polygons.forEach(rings => rings.forEach(ring => ring.forEach(([lng, lat]) => visit(lng, lat))));
+};
+
+/**
+ * Bounds of the mapped districts: their boundaries where known, otherwise their geocoded
+ * centers, padded slightly. Falls back to all of India when nothing can be placed.
+ */
+export const getEntriesBounds = (entries: DistrictMapEntry[], paddingDegrees = 0.2): GeoBounds => {
+    const bounds = { west: Infinity, south: Infinity, east: -Infinity, north: -Infinity };
+    const extend = (lng: number, lat: number) => {
+        bounds.west = Math.min(bounds.west, lng);
+        bounds.east = Math.max(bounds.east, lng);
+        bounds.south = Math.min(bounds.south, lat);
+        bounds.north = Math.max(bounds.north, lat);
+    };
+    entries.forEach(entry => {
+        if (entry.boundary) forEachVertex(entry.boundary.geometry, extend);
+        entry.centers.forEach(center => extend(center.coordinates.lng, center.coordinates.lat));
+    });
+    if (!Number.isFinite(bounds.west)) return INDIA_BOUNDS;
+    return {
+        west: bounds.west - paddingDegrees,
+        south: bounds.south - paddingDegrees,
+        east: bounds.east + paddingDegrees,
+        north: bounds.north + paddingDegrees,
+    };
+};
+
+export interface MapProjection {
+    project: (point: GeoCoordinates) => { x: number; y: number };
+}
+
+/**
+ * An equirectangular projection scaled by the cosine of the middle latitude, fitted to the
+ * given width and height. India spans little enough latitude that the distortion is small.
+ */
+export const createProjection = (bounds: GeoBounds, width: number, height: number): MapProjection => {
+    const midLat = ((bounds.north + bounds.south) / 2) * (Math.PI / 180);
+    const xScale = Math.cos(midLat);
+    const spanX = Math.max(1e-6, (bounds.east - bounds.west) * xScale);
+    const spanY = Math.max(1e-6, bounds.north - bounds.south);
+    const scale = Math.min(width / spanX, height / spanY);
+    const offsetX = (width - spanX * scale) / 2;
+    const offsetY = (height - spanY * scale) / 2;
+    return {
+        project: ({ lat, lng }) => ({
+            x: offsetX + (lng - bounds.west) * xScale * scale,
+            y: offsetY + (bounds.north - lat) * scale,
+        }),
+    };
+};
+
+export const geometryToPath = (geometry: BoundaryGeometry, projection: MapProjection) => {
+    const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+    return polygons
+        .flatMap(rings => rings.map(ring => ring
+            .map(([lng, lat], index) => {
+                const { x, y } = projection.project({ lat, lng });
+                return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+            })
+            .join('') + 'Z'))
+        .join('');
+};
+
+export interface MarkerCluster<T> {
+    x: number;
+    y: number;
+    items: T[];
+}
+
+/**
+ * Groups projected points into grid cells of `cellSize` screen pixels at the given zoom; each
+ * cluster sits at the mean of its points. Cells shrink in map units as the zoom grows, so
+ * clusters split apart when zooming in.
+ */
+export const clusterPoints = <T>(points: { x: number; y: number; item: T }[], cellSize: number, zoom: number): MarkerCluster<T>[] => {
+    const size = cellSize / zoom;
+    const cells = new Map<string, { sumX: number; sumY: number; items: T[] }>();
+    points.forEach(({ x, y, item }) => {
+        const key = `${Math.floor(x / size)}:${Math.floor(y / size)}`;
+        const cell = cells.get(key) ?? { sumX: 0, sumY: 0, items: [] };
+        cell.sumX += x;
+        cell.sumY += y;
+        cell.items.push(item);
+        cells.set(key, cell);
+    });
+    return Array.from(cells.values()).map(cell => ({
+        x: cell.sumX / cell.items.length,
+        y: cell.sumY / cell.items.length,
+        items: cell.items,
+    }));
+};
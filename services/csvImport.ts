@@ -0,0 +1,235 @@
+import { CityData } from '../types';
+
+export type CsvImportField = 'pincode' | 'district' | 'state' | 'population' | 'flag';
+
+/** Column index for each field; `null` means the field is not mapped. */
+export type CsvColumnMapping = Record<CsvImportField, number | null>;
+
+export const CSV_IMPORT_FIELDS: { id: CsvImportField; label: string; required: boolean }[] = [
+    { id: 'pincode', label: 'Pincode', required: true },
+    { id: 'district', label: 'District', required: true },
+    { id: 'state', label: 'State', required: true },
+    { id: 'population', label: 'Population', required: true },
+    { id: 'flag', label: 'Include flag (Y/N)', required: false },
+];
+
+export interface CsvTable {
+    header: string[];
+    /** Data records, without the header. */
+    rows: string[][];
+}
+
+export interface CsvRowIssue {
+    /** 1-based record number as a spreadsheet shows it; the header is row 1. */
+    rowNumber: number;
+    message: string;
+}
+
+export interface CsvValidationResult {
+    cities: CityData[];
+    issues: CsvRowIssue[];
+    totalRows: number;
+    acceptedRows: number;
+    /** Rows left out because the include flag was not set. */
+    skippedRows: number;
+}
+
+/**
+ * RFC 4180 parser: quoted fields may contain commas, line breaks and doubled quotes.
+ * Accepts CRLF, LF or bare CR line endings and a leading byte-order mark.
+ */
+export const parseCsvRows = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+    const endField = () => {
+        row.push(field);
+        field = '';
+    };
+    const endRow = () => {
+        endField();
+        rows.push(row);
+        row = [];
+    };
+
+    while (i < text.length) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i += 2;
+                continue;
+            }
+            if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+            i++;
+            continue;
+        }
+
+        if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === ',') {
+            endField();
+        } else if (char === '\r' || char === '\n') {
+            endRow();
+            if (char === '\r' && text[i + 1] === '\n') i++;
+        } else {
+            field += char;
+        }
+        i++;
+    }
+
+    if (field !== '' || row.length > 0) {
+        endRow();
+    }
+
+    // Blank lines carry no record.
+    return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+export const readCsvTable = (text: string): CsvTable => {
+    const [header = [], ...rows] = parseCsvRows(text);
+    return { header: header.map(cell => cell.trim()), rows };
+};
+
+const HEADER_ALIASES: Record<Exclude<CsvImportField, 'flag'>, string[]> = {
+    pincode: ['pincode', 'pin code', 'pin', 'postal code', 'postcode', 'zip'],
+    district: ['district', 'district name', 'city', 'districtname'],
+    state: ['statename', 'state name', 'state', 'state/ut'],
+    population: ['population', 'district population', 'pop'],
+};
+
+const FLAG_HEADERS = ['', 'flag', 'selected', 'include', 'y/n'];
+const FLAG_TRUE_VALUES = new Set(['y', 'yes', 'true', '1']);
+const FLAG_VALUES = new Set([...FLAG_TRUE_VALUES, 'n', 'no', 'false', '0', '']);
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_\s]+/g, ' ').trim();
+
+/** Guesses a mapping from header names; an unnamed column holding only Y/N values becomes the include flag. */
+export const guessColumnMapping = (table: CsvTable): CsvColumnMapping => {
+    const headers = table.header.map(normalizeHeader);
+    const findColumn = (aliases: string[]) => {
+        for (const alias of aliases) {
+            const index = headers.indexOf(alias);
+            if (index !== -1) return index;
+        }
+        return null;
+    };
+
+    const flagIndex = headers.findIndex((header, index) =>
+        FLAG_HEADERS.includes(header)
+        && table.rows.length > 0
+        && table.rows.every(row => FLAG_VALUES.has((row[index] ?? '').trim().toLowerCase()))
+    );
+
+    return {
+        pincode: findColumn(HEADER_ALIASES.pincode),
+        district: findColumn(HEADER_ALIASES.district),
+        state: findColumn(HEADER_ALIASES.state),
+        population: findColumn(HEADER_ALIASES.population),
+        flag: flagIndex === -1 ? null : flagIndex,
+    };
+};
+
+export const getMissingRequiredFields = (mapping: CsvColumnMapping) =>
+    CSV_IMPORT_FIELDS.filter(field => field.required && mapping[field.id] === null).map(field => field.id);
+
+const PINCODE_PATTERN = /^[1-9]\d{5}$/;
+
+/**
+ * Validates every row against the mapping and groups accepted rows into districts. A district
+ * keeps the state and population of its first accepted row; rows that place it in another
+ * state are reported rather than silently merged.
+ */
+export const validateCsvTable = (table: CsvTable, mapping: CsvColumnMapping): CsvValidationResult => {
+    const issues: CsvRowIssue[] = [];
+    const missing = getMissingRequiredFields(mapping);
+    if (missing.length > 0) {
+        return { cities: [], issues, totalRows: table.rows.length, acceptedRows: 0, skippedRows: 0 };
+    }
+
+    const cell = (row: string[], field: CsvImportField) => {
+        const index = mapping[field];
+        return index === null ? '' : (row[index] ?? '').trim();
+    };
+
+    const cityMap = new Map<string, { population: number; pincodes: Set<string>; stateName: string; firstRow: number }>();
+    let acceptedRows = 0;
+    let skippedRows = 0;
+
+    table.rows.forEach((row, index) => {
+        const rowNumber = index + 2;
+        if (mapping.flag !== null && !FLAG_TRUE_VALUES.has(cell(row, 'flag').toLowerCase())) {
+            skippedRows++;
+            return;
+        }
+
+        const pincode = cell(row, 'pincode').replace(/\s+/g, '');
+        const district = cell(row, 'district');
+        const stateName = cell(row, 'state');
+        const populationText = cell(row, 'population').replace(/[,\s]/g, '');
+        const rowIssues: string[] = [];
+
+        if (!PINCODE_PATTERN.test(pincode)) {
+            rowIssues.push(pincode ? `pincode "${pincode}" is not a 6-digit pincode` : 'pincode is empty');
+        }
+        if (!district) rowIssues.push('district is empty');
+        if (!stateName) rowIssues.push('state is empty');
+        if (!/^\d+$/.test(populationText)) {
+            rowIssues.push(populationText ? `population "${cell(row, 'population')}" is not a whole number` : 'population is empty');
+        }
+
+        const existing = district ? cityMap.get(district) : undefined;
+        if (existing && stateName && existing.stateName !== stateName) {
+            rowIssues.push(`district "${district}" is in ${existing.stateName} on row ${existing.firstRow} but ${stateName} here`);
+        }
+
+        if (rowIssues.length > 0) {
+            issues.push({ rowNumber, message: rowIssues.join('; ') });
+            return;
+        }
+
+        if (!existing) {
+            cityMap.set(district, { population: parseInt(populationText, 10), pincodes: new Set(), stateName, firstRow: rowNumber });
+        }
+        cityMap.get(district)!.pincodes.add(pincode);
+        acceptedRows++;
+    });
+
+    const cities: CityData[] = Array.from(cityMap.entries(), ([name, data]) => ({
+        name,
+        stateName: data.stateName,
+        population: data.population,
+        pincodes: Array.from(data.pincodes).sort().map(code => ({ code, status: 'pending' as const })),
+        status: 'idle' as const,
+        centerIds: [],
+        currentPincodeIndex: 0,
+        centersFound: 0,
+    }));
+    cities.sort((a, b) => a.stateName.localeCompare(b.stateName) || a.name.localeCompare(b.name));
+
+    return { cities, issues, totalRows: table.rows.length, acceptedRows, skippedRows };
+};
+
+/** Parses CSV text with the guessed column mapping; used where no one can review a preview. */
+export const parseCSV = (csvText: string): CityData[] => {
+    const table = readCsvTable(csvText);
+    const mapping = guessColumnMapping(table);
+    const missing = getMissingRequiredFields(mapping);
+    if (missing.length > 0) {
+        console.error(`CSV header has no column for: ${missing.join(', ')}`);
+        return [];
+    }
+
+    const { cities, issues } = validateCsvTable(table, mapping);
+    if (issues.length > 0) {
+        console.warn(`Skipped ${issues.length} invalid CSV row(s):`, issues.map(issue => `Row ${issue.rowNumber}: ${issue.message}`));
+    }
+    return cities;
+};
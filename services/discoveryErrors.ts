@@ -0,0 +1,116 @@
+import { DiscoveryErrorKind } from '../types';
+
+const RETRYABLE_KINDS = new Set<DiscoveryErrorKind>(['quota', 'transient', 'unknown']);
+
+const KIND_LABELS: Record<DiscoveryErrorKind, string> = {
+    quota: 'API quota exhausted',
+    transient: 'Temporary API failure',
+    safety: 'Blocked by safety filters',
+    'bad-request': 'Request rejected as invalid',
+    auth: 'API key missing or rejected',
+    parse: 'Model output could not be parsed',
+    unknown: 'Unexpected error',
+};
+
+export const describeErrorKind = (kind: DiscoveryErrorKind) => KIND_LABELS[kind];
+
+export const isRetryableErrorKind = (kind: DiscoveryErrorKind) => RETRYABLE_KINDS.has(kind);
+
+/** A classified discovery failure; the queue reads `kind` and `retryAfterMs` to decide what to do next. */
+export interface DiscoveryError extends Error {
+    kind: DiscoveryErrorKind;
+    retryable: boolean;
+    /** Server-suggested wait before retrying, when the response included one. */
+    retryAfterMs?: number;
+    httpStatus?: number;
+    /** The model's unparsed answer, for parse failures. */
+    rawOutput?: string;
+}
+
+export const createDiscoveryError = (
+    kind: DiscoveryErrorKind,
+    message: string,
+    options: { retryAfterMs?: number; httpStatus?: number; rawOutput?: string } = {}
+): DiscoveryError =>
+    Object.assign(new Error(message), {
+        name: 'DiscoveryError',
+        kind,
+        retryable: isRetryableErrorKind(kind),
+        ...options,
+    });
+
+export const isDiscoveryError = (error: unknown): error is DiscoveryError =>
+    error instanceof Error && error.name === 'DiscoveryError' && 'kind' in error;
+
+interface ApiErrorBody {
+    code?: number;
+    message?: string;
+    status?: string;
+    details?: { '@type'?: string; retryDelay?: string }[];
+}
+
+// The Gemini SDK puts the JSON error body in the message, sometimes after a short prefix.
+const parseApiErrorBody = (message: string): ApiErrorBody | undefined => {
+    const start = message.indexOf('{');
+    if (start === -1) return undefined;
+    try {
+        const parsed = JSON.parse(message.slice(start)) as { error?: ApiErrorBody };
+        return parsed.error;
+    } catch {
+        return undefined;
+    }
+};
+
+/** Parses google.rpc.RetryInfo delays such as "23s" or "1.5s". */
+const parseRetryDelay = (body?: ApiErrorBody) => {
+    const delay = body?.details?.find(detail => detail.retryDelay)?.retryDelay;
+    const match = delay?.match(/^(\d+(?:\.\d+)?)s$/);
+    return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+const kindFromStatus = (httpStatus?: number, rpcStatus?: string): DiscoveryErrorKind | undefined => {
+    if (httpStatus === 429 || rpcStatus === 'RESOURCE_EXHAUSTED') return 'quota';
+    if (httpStatus === 401 || httpStatus === 403 || rpcStatus === 'UNAUTHENTICATED' || rpcStatus === 'PERMISSION_DENIED') return 'auth';
+    if (httpStatus === 408 || rpcStatus === 'DEADLINE_EXCEEDED' || rpcStatus === 'UNAVAILABLE') return 'transient';
+    if (httpStatus !== undefined && httpStatus >= 500) return 'transient';
+    if (httpStatus !== undefined && httpStatus >= 400) return 'bad-request';
+    return undefined;
+};
+
+// JSON.stringify returns undefined for undefined, functions, and symbols, and throws on cycles and BigInts.
+const describeThrownValue = (value: unknown) => {
+    try {
+        return JSON.stringify(value) ?? String(value);
+    } catch {
+        return String(value);
+    }
+};
+
+/**
+ * Turns anything a provider throws into a `DiscoveryError`. HTTP and RPC status codes are
+ * used when present; otherwise the message is matched against known failure phrases.
+ */
+export const classifyDiscoveryError = (error: unknown): DiscoveryError => {
+    if (isDiscoveryError(error)) {
+        return error;
+    }
+
+    const rawMessage = error instanceof Error ? error.message : typeof error === 'string' ? error : describeThrownValue(error);
+    const body = parseApiErrorBody(rawMessage);
+    const statusValue = (error as { status?: unknown } | null)?.status;
+    const httpStatus = typeof statusValue === 'number' ? statusValue : body?.code;
+    const message = body?.message ?? rawMessage;
+    const retryAfterMs = parseRetryDelay(body);
+
+    let kind = kindFromStatus(httpStatus, body?.status);
+    if (!kind) {
+        if (/api[_ ]?key/i.test(message)) kind = 'auth';
+        else if (/quota|rate limit|too many requests/i.test(message)) kind = 'quota';
+        else if (/failed to fetch|network|timed? ?out|ECONNRESET|socket hang up/i.test(message)) kind = 'transient';
+        // Only the SDK's own block reasons; words like "blocked" also appear in proxy and network errors.
+        else if (/\b(SAFETY|PROHIBITED_CONTENT)\b|blockReason/.test(message)) kind = 'safety';
+        else kind = 'unknown';
+    }
+
+    return createDiscoveryError(kind, message, { retryAfterMs, httpStatus });
+};
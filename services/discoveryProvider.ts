@@ -0,0 +1,192 @@
+import { DiscoveryProvenance, GroundingSource, ScanCenter } from '../types';
+import { normalizeCenterDetails } from './centerDetails';
+import { GroundingSupport, attachGroundingSources, normalizeCenterEvidence } from './centerEvidence';
+import { classifyDiscoveryError, createDiscoveryError } from './discoveryErrors';
+import { PromptConfig, formatPromptVersion } from './promptConfig';
+
+export type DiscoveryProviderId = 'gemini' | 'mock';
+
+export interface GroundingResult {
+    text: string;
+    /** Pages the grounding call cited, in the order its supports refer to them. */
+    sources?: GroundingSource[];
+    supports?: GroundingSupport[];
+}
+
+/** What is being scanned; district and state fill the prompt placeholders. */
+export interface DiscoveryRequest {
+    pincode: string;
+    district: string;
+    stateName: string;
+    /** Main post office name, once a postal directory has been imported. */
+    locality?: string;
+}
+
+/** An extraction whose answer could not be parsed, kept with the grounding answer it came from. */
+export interface ExtractionFailure {
+    error: string;
+    rawOutput: string;
+    failedAt: string;
+    provenance: DiscoveryProvenance;
+}
+
+/**
+ * The latest grounding answer for a pincode, with its citations. It is kept so extraction can
+ * be re-run and prompts tried against it without repeating the search.
+ */
+export interface StoredGroundingResponse extends GroundingResult, DiscoveryRequest {
+    capturedAt: string;
+    provenance: DiscoveryProvenance;
+    /** The last extraction from this answer, if it failed to parse; cleared once one succeeds. */
+    extractionFailure?: ExtractionFailure;
+}
+
+/**
+ * A discovery backend split into the same two steps the Gemini pipeline uses:
+ * a grounding call that gathers free text about centers near a pincode, and an
+ * extraction call that turns that text into structured `ScanCenter` records.
+ */
+export interface DiscoveryProvider {
+    id: DiscoveryProviderId;
+    label: string;
+    description: string;
+    isAvailable: () => boolean;
+    ground: (request: DiscoveryRequest, config: PromptConfig) => Promise<GroundingResult>;
+    extract: (request: DiscoveryRequest, groundedText: string, config: PromptConfig) => Promise<ScanCenter[]>;
+    /** The model each stage runs on under `config`, as stamped on results. */
+    getModels: (config: PromptConfig) => { grounding: string; extraction: string };
+}
+
+export const getProvenance = (provider: DiscoveryProvider, config: PromptConfig): DiscoveryProvenance => {
+    const models = provider.getModels(config);
+    return { promptVersion: formatPromptVersion(config), groundingModel: models.grounding, extractionModel: models.extraction };
+};
+
+const groundingListeners = new Set<(response: StoredGroundingResponse) => void>();
+
+const emitGroundingResponse = (response: StoredGroundingResponse) =>
+    groundingListeners.forEach(listener => listener(response));
+
+/**
+ * Called with every non-empty grounding answer, for callers that keep them, and again when an
+ * extraction from it fails to parse or later succeeds.
+ */
+export const subscribeToGroundingResponses = (listener: (response: StoredGroundingResponse) => void) => {
+    groundingListeners.add(listener);
+    return () => {
+        groundingListeners.delete(listener);
+    };
+};
+
+/**
+ * Turns extracted centers into normalized `ScanCenter` records with their citations attached.
+ * Shared by discovery and by prompt dry runs, so both see the same output.
+ */
+export const extractCenters = async (
+    provider: DiscoveryProvider,
+    request: DiscoveryRequest,
+    grounded: GroundingResult,
+    config: PromptConfig
+): Promise<ScanCenter[]> => {
+    const centers = await provider.extract(request, grounded.text.trim(), config);
+    const normalized = centers.map(center => normalizeCenterDetails(normalizeCenterEvidence(center)));
+    return attachGroundingSources(normalized, grounded.sources, grounded.supports);
+};
+
+/** Extracts from a stored answer, recording a parse failure on it (or clearing an old one). */
+const extractFromStored = async (
+    provider: DiscoveryProvider,
+    request: DiscoveryRequest,
+    stored: StoredGroundingResponse,
+    config: PromptConfig
+): Promise<ScanCenter[]> => {
+    try {
+        const centers = await extractCenters(provider, request, stored, config);
+        if (stored.extractionFailure) {
+            const { extractionFailure: _extractionFailure, ...cleared } = stored;
+            emitGroundingResponse(cleared);
+        }
+        return centers;
+    } catch (error) {
+        const discoveryError = classifyDiscoveryError(error);
+        if (discoveryError.kind === 'parse') {
+            emitGroundingResponse({
+                ...stored,
+                extractionFailure: {
+                    error: discoveryError.message,
+                    rawOutput: discoveryError.rawOutput ?? '',
+                    failedAt: new Date().toISOString(),
+                    provenance: getProvenance(provider, config),
+                },
+            });
+        }
+        throw discoveryError;
+    }
+};
+
+/** Provenance for an extraction that re-ran on `stored`: the grounding side comes from the stored answer. */
+export const getReplayProvenance = (
+    provider: DiscoveryProvider,
+    config: PromptConfig,
+    stored: StoredGroundingResponse
+): DiscoveryProvenance => ({
+    ...getProvenance(provider, config),
+    groundingModel: stored.provenance.groundingModel,
+    replayedFrom: stored.provenance.promptVersion,
+});
+
+/**
+ * Runs grounding then extraction for one pincode. Duplicate handling is left to the
+ * center registry, which compares results across every district. Failures are rethrown
+ * as a classified `DiscoveryError` so the queue can decide whether to retry.
+ */
+export const findAndAnalyzeCTScans = async (
+  provider: DiscoveryProvider,
+  request: DiscoveryRequest,
+  config: PromptConfig
+): Promise<ScanCenter[]> => {
+  const { pincode } = request;
+  try {
+    const grounded = await provider.ground(request, config);
+    if (!grounded.text.trim()) {
+      console.log(`No initial information found for pincode ${pincode}.`);
+      return [];
+    }
+    const stored: StoredGroundingResponse = {
+      ...request,
+      ...grounded,
+      capturedAt: new Date().toISOString(),
+      provenance: getProvenance(provider, config),
+    };
+    emitGroundingResponse(stored);
+
+    return await extractFromStored(provider, request, stored, config);
+  } catch (error) {
+    const discoveryError = classifyDiscoveryError(error);
+    console.error(`Error discovering scans in pincode ${pincode} via ${provider.id} (${discoveryError.kind}):`, discoveryError.message);
+    throw discoveryError;
+  }
+};
+
+/**
+ * Re-runs only extraction, on a cached grounding answer, so a new prompt or schema can be
+ * applied without another search. Errors are classified as in `findAndAnalyzeCTScans`.
+ */
+export const reextractCTScans = async (
+  provider: DiscoveryProvider,
+  request: DiscoveryRequest,
+  stored: StoredGroundingResponse | undefined,
+  config: PromptConfig
+): Promise<ScanCenter[]> => {
+  const { pincode } = request;
+  if (!stored) {
+    throw createDiscoveryError('bad-request', `No cached grounding answer for pincode ${pincode}; scan it again instead.`);
+  }
+  try {
+    return await extractFromStored(provider, request, stored, config);
+  } catch (error) {
+    const discoveryError = classifyDiscoveryError(error);
+    console.error(`Error re-extracting pincode ${pincode} via ${provider.id} (${discoveryError.kind}):`, discoveryError.message);
+    throw discoveryError;
+  }
+};
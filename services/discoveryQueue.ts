@@ -0,0 +1,338 @@
+import { CircuitBreakerSnapshot, createCircuitBreaker } from './circuitBreaker';
+import { DiscoveryError, classifyDiscoveryError, describeErrorKind } from './discoveryErrors';
+
+/** `reextract` re-runs only extraction, on the pincode's cached grounding answer. */
+export type DiscoveryJobMode = 'discover' | 'reextract';
+
+export interface DiscoveryJob {
+    key: string;
+    stateName: string;
+    cityName: string;
+    pincode: string;
+    /** Main post office name, passed through to the prompts. */
+    locality?: string;
+    /** Defaults to `discover`. */
+    mode?: DiscoveryJobMode;
+    /** Higher runs first; ties keep enqueue order. */
+    priority: number;
+    attempt: number;
+    enqueuedAt: number;
+    /** Earliest time (epoch ms) the job may start; used for retry back-off. */
+    notBefore: number;
+}
+
+export interface DiscoveryQueueSettings {
+    maxConcurrent: number;
+    requestsPerMinute: number;
+    maxAttempts: number;
+    /** Base delay before the second attempt; it doubles per attempt, with jitter. */
+    retryDelayMs: number;
+    /** Cap on the computed back-off; a longer server retry-after hint still wins. */
+    maxRetryDelayMs: number;
+}
+
+export interface DiscoveryQueueHandlers {
+    /** Runs one pincode; throwing marks the attempt as failed. */
+    run: (job: DiscoveryJob) => Promise<void>;
+    onRetry: (job: DiscoveryJob, error: DiscoveryError) => void;
+    /** Called when attempts run out or the error is not retryable. */
+    onFailure: (job: DiscoveryJob, error: DiscoveryError) => void;
+    /** Called after every attempt that will not be retried, successful or not. */
+    onSettled: (job: DiscoveryJob) => void;
+}
+
+export interface DiscoveryQueueSnapshot {
+    pendingCount: number;
+    activeJobs: DiscoveryJob[];
+    isPaused: boolean;
+    settings: DiscoveryQueueSettings;
+    startedLastMinute: number;
+    completedCount: number;
+    failedCount: number;
+    /** Pending + active jobs per city, keyed by `cityKey`. */
+    outstandingByCity: Record<string, number>;
+    /** The shared quota breaker; while open no job starts. */
+    circuit: CircuitBreakerSnapshot;
+}
+
+export interface DiscoveryQueue {
+    enqueue: (jobs: Omit<DiscoveryJob, 'key' | 'attempt' | 'enqueuedAt' | 'notBefore'>[]) => void;
+    dequeueCity: (stateName: string, cityName: string) => void;
+    dequeueAll: () => void;
+    hasOutstandingJobs: (stateName: string, cityName: string) => boolean;
+    isActive: (job: DiscoveryJob) => boolean;
+    pause: () => void;
+    resume: () => void;
+    /** Closes the quota breaker and makes every waiting job eligible to start immediately. */
+    resetCircuit: () => void;
+    updateSettings: (settings: Partial<DiscoveryQueueSettings>) => void;
+    getSnapshot: () => DiscoveryQueueSnapshot;
+    subscribe: (listener: (snapshot: DiscoveryQueueSnapshot) => void) => () => void;
+}
+
+export const DEFAULT_QUEUE_SETTINGS: DiscoveryQueueSettings = {
+    maxConcurrent: 2,
+    requestsPerMinute: 20,
+    maxAttempts: 3,
+    retryDelayMs: 5000,
+    maxRetryDelayMs: 60_000,
+};
+
+const RATE_WINDOW_MS = 60_000;
+
+export const cityKey = (stateName: string, cityName: string) => `${stateName}::${cityName}`;
+
+const jobKey = (stateName: string, cityName: string, pincode: string) => `${cityKey(stateName, cityName)}::${pincode}`;
+
+const compareJobs = (a: DiscoveryJob, b: DiscoveryJob) =>
+    b.priority - a.priority || a.enqueuedAt - b.enqueuedAt;
+
+/**
+ * Exponential back-off with "equal jitter": half the doubled delay is fixed and half is random,
+ * so parallel jobs that failed together do not retry in lockstep. A server hint is a floor.
+ */
+export const computeRetryDelay = (
+    attempt: number,
+    settings: Pick<DiscoveryQueueSettings, 'retryDelayMs' | 'maxRetryDelayMs'>,
+    retryAfterMs?: number,
+    random: () => number = Math.random
+) => {
+    const exponential = Math.min(settings.maxRetryDelayMs, settings.retryDelayMs * 2 ** (attempt - 1));
+    const jittered = exponential / 2 + random() * (exponential / 2);
+    return Math.round(Math.max(jittered, retryAfterMs ?? 0));
+};
+
+/**
+ * Creates the single scheduler that owns every pending pincode. It enforces a global
+ * concurrency limit and a sliding-window requests-per-minute budget, retries retryable
+ * failures with jittered exponential back-off, and notifies subscribers whenever its state
+ * changes. Quota errors trip a shared circuit breaker that holds back every job until the
+ * API recovers; they do not use up the job's attempts.
+ */
+export const createDiscoveryQueue = (
+    handlers: DiscoveryQueueHandlers,
+    initialSettings: Partial<DiscoveryQueueSettings> = {}
+): DiscoveryQueue => {
+    let settings: DiscoveryQueueSettings = { ...DEFAULT_QUEUE_SETTINGS, ...initialSettings };
+    let pending: DiscoveryJob[] = [];
+    const active = new Map<string, DiscoveryJob>();
+    // Dequeued while in flight: their results are ignored, but their calls still hold a concurrency slot.
+    const cancelled = new Set<DiscoveryJob>();
+    const startTimes: number[] = [];
+    const listeners = new Set<(snapshot: DiscoveryQueueSnapshot) => void>();
+    let isPaused = false;
+    let completedCount = 0;
+    let failedCount = 0;
+    let enqueueCounter = 0;
+    let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+    const breaker = createCircuitBreaker();
+
+    const pruneStartTimes = (now: number) => {
+        while (startTimes.length > 0 && now - startTimes[0] >= RATE_WINDOW_MS) {
+            startTimes.shift();
+        }
+    };
+
+    const getSnapshot = (): DiscoveryQueueSnapshot => {
+        const now = Date.now();
+        pruneStartTimes(now);
+        const outstandingByCity: Record<string, number> = {};
+        for (const job of [...pending, ...active.values()]) {
+            const key = cityKey(job.stateName, job.cityName);
+            outstandingByCity[key] = (outstandingByCity[key] ?? 0) + 1;
+        }
+        return {
+            pendingCount: pending.length,
+            activeJobs: Array.from(active.values()),
+            isPaused,
+            settings: { ...settings },
+            startedLastMinute: startTimes.length,
+            completedCount,
+            failedCount,
+            outstandingByCity,
+            circuit: breaker.getSnapshot(now),
+        };
+    };
+
+    const notify = () => {
+        const snapshot = getSnapshot();
+        listeners.forEach(listener => listener(snapshot));
+    };
+
+    const scheduleWake = (delayMs: number) => {
+        if (wakeTimer !== null) {
+            clearTimeout(wakeTimer);
+        }
+        wakeTimer = setTimeout(() => {
+            wakeTimer = null;
+            pump();
+        }, Math.max(0, delayMs));
+    };
+
+    // A dequeued job may be re-enqueued under the same key while its first run is still in flight.
+    const isCurrent = (job: DiscoveryJob) => active.get(job.key) === job;
+
+    const cancel = (job: DiscoveryJob) => {
+        active.delete(job.key);
+        cancelled.add(job);
+    };
+
+    const requeue = (job: DiscoveryJob) => {
+        pending.push(job);
+        pending.sort(compareJobs);
+    };
+
+    const runJob = async (job: DiscoveryJob) => {
+        let willRetry = false;
+        try {
+            await handlers.run(job);
+            breaker.markHealthy(Date.now());
+            if (isCurrent(job)) {
+                completedCount++;
+            }
+        } catch (rawError) {
+            const error = classifyDiscoveryError(rawError);
+            const now = Date.now();
+            if (error.kind === 'quota') {
+                breaker.trip(now, error.retryAfterMs, `${describeErrorKind(error.kind)}: ${error.message}`);
+            } else {
+                breaker.markHealthy(now);
+            }
+
+            if (!isCurrent(job)) {
+                // The job was dequeued while in flight; its outcome no longer matters.
+            } else if (error.kind === 'quota') {
+                willRetry = true;
+                handlers.onRetry(job, error);
+                requeue({ ...job, notBefore: breaker.getSnapshot(now).openUntil ?? now });
+            } else if (error.retryable && job.attempt < settings.maxAttempts) {
+                willRetry = true;
+                handlers.onRetry(job, error);
+                requeue({ ...job, attempt: job.attempt + 1, notBefore: now + computeRetryDelay(job.attempt, settings, error.retryAfterMs) });
+            } else {
+                failedCount++;
+                handlers.onFailure(job, error);
+            }
+        } finally {
+            const wasActive = isCurrent(job);
+            if (wasActive) {
+                active.delete(job.key);
+            }
+            cancelled.delete(job);
+            if (wasActive && !willRetry) {
+                handlers.onSettled(job);
+            }
+            notify();
+            pump();
+        }
+    };
+
+    function pump() {
+        if (isPaused) {
+            return;
+        }
+
+        let nextWakeAt = Infinity;
+        let startedAny = false;
+
+        while (active.size + cancelled.size < settings.maxConcurrent && pending.length > 0) {
+            const now = Date.now();
+            pruneStartTimes(now);
+            if (startTimes.length >= settings.requestsPerMinute) {
+                nextWakeAt = Math.min(nextWakeAt, startTimes[0] + RATE_WINDOW_MS);
+                break;
+            }
+
+            const readyIndex = pending.findIndex(job => job.notBefore <= now);
+            if (readyIndex === -1) {
+                nextWakeAt = Math.min(nextWakeAt, ...pending.map(job => job.notBefore));
+                break;
+            }
+
+            if (!breaker.tryAcquire(now)) {
+                // While a half-open probe is in flight there is nothing to wait for; its outcome pumps again.
+                const { openUntil } = breaker.getSnapshot(now);
+                if (openUntil !== null) {
+                    nextWakeAt = Math.min(nextWakeAt, openUntil);
+                }
+                break;
+            }
+
+            const [job] = pending.splice(readyIndex, 1);
+            active.set(job.key, job);
+            startTimes.push(now);
+            startedAny = true;
+            void runJob(job);
+        }
+
+        if (nextWakeAt !== Infinity) {
+            scheduleWake(nextWakeAt - Date.now());
+        }
+        if (startedAny) {
+            notify();
+        }
+    }
+
+    return {
+        enqueue: (jobs) => {
+            const knownKeys = new Set([...pending.map(job => job.key), ...active.keys()]);
+            const now = Date.now();
+            for (const job of jobs) {
+                const key = jobKey(job.stateName, job.cityName, job.pincode);
+                if (knownKeys.has(key)) continue;
+                knownKeys.add(key);
+                pending.push({ ...job, key, attempt: 1, enqueuedAt: enqueueCounter++, notBefore: now });
+            }
+            pending.sort(compareJobs);
+            notify();
+            pump();
+        },
+        dequeueCity: (stateName, cityName) => {
+            pending = pending.filter(job => job.stateName !== stateName || job.cityName !== cityName);
+            for (const job of Array.from(active.values())) {
+                if (job.stateName === stateName && job.cityName === cityName) {
+                    cancel(job);
+                }
+            }
+            notify();
+            pump();
+        },
+        dequeueAll: () => {
+            pending = [];
+            Array.from(active.values()).forEach(cancel);
+            notify();
+        },
+        hasOutstandingJobs: (stateName, cityName) =>
+            pending.some(job => job.stateName === stateName && job.cityName === cityName)
+            || Array.from(active.values()).some(job => job.stateName === stateName && job.cityName === cityName),
+        isActive: isCurrent,
+        pause: () => {
+            isPaused = true;
+            notify();
+        },
+        resume: () => {
+            isPaused = false;
+            notify();
+            pump();
+        },
+        resetCircuit: () => {
+            breaker.reset();
+            const now = Date.now();
+            pending = pending.map(job => (job.notBefore > now ? { ...job, notBefore: now } : job));
+            notify();
+            pump();
+        },
+        updateSettings: (nextSettings) => {
+            settings = { ...settings, ...nextSettings };
+            notify();
+            pump();
+        },
+        getSnapshot,
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+};
@@ -0,0 +1,220 @@
+import { CenterSighting, CityData, DiscoveryRunTrigger, Pincode, PincodeScanAttempt, PincodeStatus, ScanCenter } from '../types';
+import { isPincodeDone } from './cityData';
+import {
+    DiscoveryProvider,
+    StoredGroundingResponse,
+    findAndAnalyzeCTScans,
+    getProvenance,
+    getReplayProvenance,
+    reextractCTScans,
+} from './discoveryProvider';
+import { DiscoveryJob, DiscoveryJobMode, DiscoveryQueue, DiscoveryQueueHandlers } from './discoveryQueue';
+import { DiscoveryError } from './discoveryErrors';
+import { completeRun, recordRunCenters, snapshotCenters, startRun } from './discoveryRuns';
+import { PromptConfig } from './promptConfig';
+import { advanceScanPlan } from './scanPlanner';
+
+type CityUpdater = (city: CityData) => CityData;
+
+export interface DiscoveryRunnerDeps {
+    getProvider: () => DiscoveryProvider;
+    /** The prompt configuration new scans use; read once per attempt. */
+    getPromptConfig: () => PromptConfig;
+    /** The pincode's cached grounding answer, for re-extraction jobs. */
+    loadGroundingResponse: (pincode: string) => Promise<StoredGroundingResponse | undefined>;
+    updateCity: (stateName: string, cityName: string, updater: CityUpdater) => void;
+    /** Merges centers into the global registry and returns the canonical ID of each, in input order. */
+    registerCenters: (centers: ScanCenter[], sighting: CenterSighting) => string[];
+    getQueue: () => DiscoveryQueue;
+}
+
+// Enough to see a retry streak without letting a flaky pincode grow its record without bound.
+const MAX_PINCODE_HISTORY = 10;
+
+const updatePincode = (city: CityData, pincodeCode: string, updater: (pincode: Pincode) => Pincode): CityData => ({
+    ...city,
+    pincodes: city.pincodes.map(p => (p.code === pincodeCode ? updater(p) : p)),
+});
+
+const appendAttempt = (pincode: Pincode, attempt: PincodeScanAttempt) =>
+    [...(pincode.history ?? []), attempt].slice(-MAX_PINCODE_HISTORY);
+
+const recordFailure = (pincode: Pincode, job: DiscoveryJob, error: DiscoveryError, status: PincodeStatus): Pincode => ({
+    ...pincode,
+    status,
+    lastError: error.message,
+    lastErrorKind: error.kind,
+    history: appendAttempt(pincode, {
+        attempt: job.attempt,
+        finishedAt: new Date().toISOString(),
+        outcome: 'error',
+        error: error.message,
+        errorKind: error.kind,
+    }),
+});
+
+/** Drops the previous scan's results but keeps the attempt count and history. */
+const clearPincodeResult = ({ scannedAt: _scannedAt, lastError: _lastError, lastErrorKind: _lastErrorKind, returnedCount: _returned, keptCount: _kept, droppedCount: _dropped, centerIds: _centerIds, ...pincode }: Pincode): Pincode => pincode;
+
+/**
+ * Marks a city as running and the given pincodes as queued. Discovering from scratch archives
+ * the previous run and resets its results.
+ */
+export const prepareCityForDiscovery = (city: CityData, restart: boolean, trigger: DiscoveryRunTrigger = 'manual'): CityData => {
+    if (restart) {
+        return {
+            ...startRun(city, trigger),
+            status: 'running',
+            currentPincodeIndex: 0,
+            centersFound: 0,
+            centerIds: [],
+            error: undefined,
+            pincodes: city.pincodes.map(p => ({ ...clearPincodeResult(p), status: 'queued' })),
+        };
+    }
+
+    return {
+        ...city,
+        status: 'running',
+        error: undefined,
+        pincodes: city.pincodes.map(p => (p.status === 'scanned' ? p : { ...p, status: 'queued' })),
+    };
+};
+
+/** Marks a city as running and queues just the given pincodes, keeping every other result. */
+export const prepareCityForPincodes = (city: CityData, pincodeCodes: string[]): CityData => {
+    const codes = new Set(pincodeCodes);
+    return {
+        ...city,
+        status: 'running',
+        error: undefined,
+        pincodes: city.pincodes.map(p => (codes.has(p.code) ? { ...p, status: 'queued' } : p)),
+    };
+};
+
+/** A completed city, or one with no scanned pincodes yet, starts over when discovered again. */
+export const shouldRestartCity = (city: CityData) =>
+    city.status === 'completed' || !city.pincodes.some(p => p.status === 'scanned');
+
+/** Without codes, builds jobs for every queued pincode, which is what the prepare functions leave to scan. */
+export const buildJobsForCity = (city: CityData, pincodeCodes?: string[], mode: DiscoveryJobMode = 'discover') => {
+    const codes = pincodeCodes ?? city.pincodes.filter(p => p.status === 'queued').map(p => p.code);
+    const localities = new Map(city.pincodes.map(p => [p.code, p.postal?.locality]));
+    return codes.map(pincode => ({
+        stateName: city.stateName,
+        cityName: city.name,
+        pincode,
+        locality: localities.get(pincode),
+        priority: city.population,
+        mode,
+    }));
+};
+
+/** Returns a city to a resumable state once it no longer owns any queued work. */
+export const releaseCityFromQueue = (city: CityData, status: CityData['status'] = 'stopped'): CityData => ({
+    ...city,
+    status,
+    pincodes: city.pincodes.map(p =>
+        p.status === 'queued' || p.status === 'scanning' || p.status === 'retrying' ? { ...p, status: 'pending' } : p
+    ),
+});
+
+const finalizeCity = (city: CityData): CityData => {
+    if (city.status !== 'running') {
+        return city;
+    }
+    // A scan plan has just released these; they are enqueued next, so the city is still running.
+    if (city.pincodes.some(p => p.status === 'queued')) {
+        return city;
+    }
+    const failed = city.pincodes.filter(p => p.status === 'error');
+    if (failed.length > 0) {
+        return { ...city, status: 'error', error: `Failed on ${failed.length} pincode${failed.length === 1 ? '' : 's'}.` };
+    }
+    if (city.pincodes.every(isPincodeDone)) {
+        return { ...completeRun(city), status: 'completed', error: undefined };
+    }
+    // A single pincode scanned on demand leaves the rest pending; the city can be resumed later.
+    return { ...city, status: 'stopped' };
+};
+
+export const createDiscoveryJobHandlers = (deps: DiscoveryRunnerDeps): DiscoveryQueueHandlers => ({
+    run: async (job: DiscoveryJob) => {
+        const { stateName, cityName, pincode, locality } = job;
+        deps.updateCity(stateName, cityName, city =>
+            updatePincode(city, pincode, p => ({
+                ...p,
+                status: job.attempt > 1 ? 'retrying' : 'scanning',
+                attemptCount: (p.attemptCount ?? 0) + 1,
+            }))
+        );
+
+        const provider = deps.getProvider();
+        const config = deps.getPromptConfig();
+        const request = { pincode, district: cityName, stateName, ...(locality ? { locality } : {}) };
+        let provenance = getProvenance(provider, config);
+        let centers: ScanCenter[];
+        if (job.mode === 'reextract') {
+            const stored = await deps.loadGroundingResponse(pincode);
+            if (stored) provenance = getReplayProvenance(provider, config, stored);
+            centers = await reextractCTScans(provider, request, stored, config);
+        } else {
+            centers = await findAndAnalyzeCTScans(provider, request, config);
+        }
+        if (!deps.getQueue().isActive(job)) {
+            return;
+        }
+
+        const foundAt = new Date().toISOString();
+        const sightingIds = deps.registerCenters(centers, { pincode, cityName, stateName, foundAt, provenance });
+        const centerIds = Array.from(new Set(sightingIds));
+
+        deps.updateCity(stateName, cityName, city => {
+            const knownIds = new Set(city.centerIds);
+            const newIds = centerIds.filter(id => !knownIds.has(id));
+            if (newIds.length < centerIds.length) {
+                console.log(`Pincode ${pincode}: ${centerIds.length - newIds.length} center(s) already listed for ${cityName}.`);
+            }
+            const mergedIds = [...city.centerIds, ...newIds];
+            const counts = {
+                returnedCount: centers.length,
+                keptCount: newIds.length,
+                droppedCount: centers.length - newIds.length,
+            };
+            return {
+                ...updatePincode(recordRunCenters(city, snapshotCenters(centers, sightingIds)), pincode, p => ({
+                    ...p,
+                    ...counts,
+                    status: 'scanned',
+                    scannedAt: foundAt,
+                    lastError: undefined,
+                    lastErrorKind: undefined,
+                    centerIds,
+                    history: appendAttempt(p, { attempt: job.attempt, finishedAt: foundAt, outcome: 'scanned', ...counts, provenance }),
+                })),
+                centerIds: mergedIds,
+                centersFound: mergedIds.length,
+            };
+        });
+    },
+    onRetry: (job, error) => {
+        console.error(`Attempt ${job.attempt} failed for pincode ${job.pincode} (${error.kind}):`, error);
+        deps.updateCity(job.stateName, job.cityName, city =>
+            updatePincode(city, job.pincode, p => recordFailure(p, job, error, 'queued'))
+        );
+    },
+    onFailure: (job, error) => {
+        const reason = error.retryable ? 'giving up' : 'not retryable';
+        console.error(`Attempt ${job.attempt} failed for pincode ${job.pincode}, ${reason} (${error.kind}):`, error);
+        deps.updateCity(job.stateName, job.cityName, city =>
+            updatePincode(city, job.pincode, p => recordFailure(p, job, error, 'error'))
+        );
+    },
+    onSettled: (job) => {
+        deps.updateCity(job.stateName, job.cityName, advanceScanPlan);
+        if (deps.getQueue().hasOutstandingJobs(job.stateName, job.cityName)) {
+            return;
+        }
+        deps.updateCity(job.stateName, job.cityName, finalizeCity);
+    },
+});
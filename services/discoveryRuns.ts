@@ -0,0 +1,163 @@
+import { CityData, DiscoveryRun, DiscoveryRunTrigger, RunCenterSnapshot, ScanCenter } from '../types';
+import { parseIndianPhoneNumbers } from './contactNormalization';
+
+// Each run keeps a copy of its centers, so the history is capped to keep district records small.
+export const MAX_ARCHIVED_RUNS = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RESCAN_INTERVALS: { days?: number; label: string }[] = [
+    { label: 'On demand only' },
+    { days: 7, label: 'Every week' },
+    { days: 30, label: 'Every 30 days' },
+    { days: 90, label: 'Every 90 days' },
+    { days: 180, label: 'Every 6 months' },
+];
+
+const countScanned = (city: CityData) => city.pincodes.filter(p => p.status === 'scanned').length;
+
+/**
+ * Moves the district's current run, if it scanned anything, into its history and opens a new
+ * one. Call this before the previous results are cleared.
+ */
+export const startRun = (city: CityData, trigger: DiscoveryRunTrigger, startedAt = new Date().toISOString()): CityData => {
+    const history = city.runHistory ?? [];
+    const previous = city.currentRun;
+    const shouldArchive = previous && countScanned(city) > 0;
+    const runHistory = shouldArchive
+        ? [...history, { ...previous, scannedPincodes: countScanned(city), totalPincodes: city.pincodes.length }].slice(-MAX_ARCHIVED_RUNS)
+        : history;
+    const lastNumber = Math.max(0, previous?.number ?? 0, ...history.map(run => run.number));
+    return {
+        ...city,
+        runHistory,
+        currentRun: { number: lastNumber + 1, trigger, startedAt, centers: [] },
+    };
+};
+
+/**
+ * Pairs each center a pincode scan returned with its canonical ID. `centerIds` must line up
+ * with `centers`.
+ */
+export const snapshotCenters = (centers: ScanCenter[], centerIds: string[]): RunCenterSnapshot[] =>
+    centers.map((center, index) => ({
+        centerId: centerIds[index],
+        centerName: center.centerName,
+        address: center.address,
+        contactDetails: center.contactDetails,
+    }));
+
+/** Adds a scan's centers to the current run; a center seen again keeps its latest values. */
+export const recordRunCenters = (city: CityData, snapshots: RunCenterSnapshot[]): CityData => {
+    if (!city.currentRun || snapshots.length === 0) {
+        return city;
+    }
+    const byId = new Map(city.currentRun.centers.map(snapshot => [snapshot.centerId, snapshot]));
+    snapshots.forEach(snapshot => byId.set(snapshot.centerId, snapshot));
+    return { ...city, currentRun: { ...city.currentRun, centers: Array.from(byId.values()) } };
+};
+
+export const completeRun = (city: CityData, completedAt = new Date().toISOString()): CityData =>
+    city.currentRun && !city.currentRun.completedAt
+        ? { ...city, currentRun: { ...city.currentRun, completedAt } }
+        : city;
+
+/** Rewrites center IDs after an import merged them into other canonical centers. */
+export const remapRunCenterIds = (run: DiscoveryRun, remap: (id: string) => string): DiscoveryRun => {
+    const byId = new Map<string, RunCenterSnapshot>();
+    run.centers.forEach(snapshot => {
+        const centerId = remap(snapshot.centerId);
+        if (!byId.has(centerId)) byId.set(centerId, { ...snapshot, centerId });
+    });
+    return { ...run, centers: Array.from(byId.values()) };
+};
+
+/** Archived runs followed by the current one, oldest first. */
+export const listRuns = (city: CityData): DiscoveryRun[] =>
+    [...(city.runHistory ?? []), ...(city.currentRun ? [city.currentRun] : [])];
+
+export const getRunProgress = (city: CityData, run: DiscoveryRun) =>
+    run.number === city.currentRun?.number
+        ? { scanned: countScanned(city), total: city.pincodes.length }
+        : { scanned: run.scannedPincodes ?? 0, total: run.totalPincodes ?? 0 };
+
+export type RunChangeField = 'centerName' | 'address' | 'contactDetails';
+
+export const RUN_CHANGE_FIELD_LABELS: Record<RunChangeField, string> = {
+    centerName: 'Name',
+    address: 'Address',
+    contactDetails: 'Contact',
+};
+
+export interface RunCenterChange {
+    before: RunCenterSnapshot;
+    after: RunCenterSnapshot;
+    fields: RunChangeField[];
+}
+
+export interface RunDiff {
+    added: RunCenterSnapshot[];
+    removed: RunCenterSnapshot[];
+    changed: RunCenterChange[];
+    unchanged: number;
+}
+
+const normalizeText = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Phone numbers are compared as parsed numbers, so "+91 98xx" and "098xx" are the same contact.
+const contactKey = (contactDetails: string) => {
+    const phones = parseIndianPhoneNumbers(contactDetails).map(phone => phone.e164).sort();
+    return phones.length > 0 ? phones.join(',') : normalizeText(contactDetails);
+};
+
+const FIELD_KEYS: Record<RunChangeField, (value: string) => string> = {
+    centerName: normalizeText,
+    address: normalizeText,
+    contactDetails: contactKey,
+};
+
+/**
+ * Compares two runs by canonical center ID. Differences in case, punctuation, and phone number
+ * formatting are not reported as changes.
+ */
+export const diffRuns = (base: DiscoveryRun, compare: DiscoveryRun): RunDiff => {
+    const baseById = new Map(base.centers.map(snapshot => [snapshot.centerId, snapshot]));
+    const compareIds = new Set(compare.centers.map(snapshot => snapshot.centerId));
+    const diff: RunDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+
+    compare.centers.forEach(after => {
+        const before = baseById.get(after.centerId);
+        if (!before) {
+            diff.added.push(after);
+            return;
+        }
+        const fields = (Object.keys(FIELD_KEYS) as RunChangeField[])
+            .filter(field => FIELD_KEYS[field](before[field] ?? '') !== FIELD_KEYS[field](after[field] ?? ''));
+        if (fields.length > 0) {
+            diff.changed.push({ before, after, fields });
+        } else {
+            diff.unchanged++;
+        }
+    });
+    diff.removed = base.centers.filter(snapshot => !compareIds.has(snapshot.centerId));
+    return diff;
+};
+
+/**
+ * When a district is next due for a scheduled re-scan, counted from the start of its current run,
+ * or from its latest scan for districts discovered before runs were recorded.
+ */
+export const getNextRescanAt = (city: CityData): Date | undefined => {
+    const scannedAt = city.pincodes.map(p => p.scannedAt).filter((value): value is string => Boolean(value)).sort();
+    const since = city.currentRun?.startedAt ?? scannedAt[scannedAt.length - 1];
+    if (!city.rescanIntervalDays || !since) {
+        return undefined;
+    }
+    return new Date(new Date(since).getTime() + city.rescanIntervalDays * DAY_MS);
+};
+
+/** Only completed districts are re-scanned on schedule; stopped or failed ones wait for the user. */
+export const isRescanDue = (city: CityData, now = new Date()) => {
+    const nextRescanAt = getNextRescanAt(city);
+    return city.status === 'completed' && nextRescanAt !== undefined && nextRescanAt.getTime() <= now.getTime();
+};
@@ -0,0 +1,160 @@
+import { EvidenceCategory, ScanCenter } from '../../types';
+
+const mapsLink = (name: string, address: string) =>
+    `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(`${name} ${address}`).replace(/%20/g, '+')}`;
+
+const fixtureCenter = (
+    centerName: string,
+    address: string,
+    contactDetails: string,
+    doctorDetails: string[],
+    reasoning: string,
+    [evidenceCategory, confidence]: [EvidenceCategory, number],
+    extra: Partial<ScanCenter> = {}
+): ScanCenter => ({
+    centerName,
+    address,
+    contactDetails,
+    doctorDetails,
+    googleMapsLink: mapsLink(centerName, address),
+    reasoning,
+    evidenceCategory,
+    confidence,
+    ...extra,
+});
+
+/**
+ * Hand-written results for a few pincodes from the bundled CSV. Pincodes 110001 and 110002
+ * deliberately share a center so the address de-duplication path is exercised.
+ */
+export const MOCK_CENTER_FIXTURES: Record<string, ScanCenter[]> = {
+    '110001': [
+        fixtureCenter(
+            'Connaught Imaging Centre',
+            '14 Barakhamba Road, Connaught Place, New Delhi, Delhi 110001',
+            '+91 11 4150 2000',
+            ['Dr. Meera Kapoor', 'Dr. Arjun Sethi'],
+            "The centre's service list explicitly includes '128-slice CT Scan'.",
+            ['explicit-listing', 0.95],
+            {
+                coordinates: { lat: 28.6304, lng: 77.2247 },
+                modalities: ['MRI', 'X-ray', 'Ultrasound'],
+                ctScanner: { sliceCount: 128, manufacturer: 'Siemens' },
+                isOpen24x7: true,
+                ownership: 'private-chain',
+                chainName: 'Connaught Imaging',
+                website: 'https://connaughtimaging.example.in',
+                email: 'appointments@connaughtimaging.example.in',
+            }
+        ),
+        fixtureCenter(
+            'Janpath Diagnostics',
+            '22 Janpath, New Delhi, Delhi 110001',
+            '+91 98100 11223',
+            [],
+            'A patient review mentions getting a contrast CT scan done at this lab.',
+            ['equipment-mention', 0.6],
+            {
+                coordinates: { lat: 28.6253, lng: 77.2190 },
+                modalities: ['X-ray'],
+                operatingHours: 'Mon-Sat 8am-8pm',
+                ownership: 'standalone',
+            }
+        ),
+    ],
+    '110002': [
+        fixtureCenter(
+            'Connaught Imaging Centre',
+            '14 Barakhamba Road, Connaught Place, New Delhi, Delhi 110001',
+            '+91 11 4150 2000',
+            ['Dr. Meera Kapoor'],
+            "The centre's service list explicitly includes '128-slice CT Scan'.",
+            ['explicit-listing', 0.95],
+            {
+                coordinates: { lat: 28.6304, lng: 77.2247 },
+                modalities: ['MRI', 'PET-CT'],
+                operatingHours: 'Open all days, 7am-11pm',
+            }
+        ),
+        fixtureCenter(
+            'Daryaganj Multispeciality Hospital',
+            '4 Ansari Road, Daryaganj, New Delhi, Delhi 110002',
+            '+91 11 2327 8800',
+            ['Dr. Nikhil Rao'],
+            'The hospital website lists CT and MRI under its radiology department.',
+            ['explicit-listing', 0.85],
+            { modalities: ['MRI', 'X-ray'], ctScanner: { sliceCount: 64 }, ownership: 'standalone' }
+        ),
+    ],
+    '110003': [],
+    '600001': [
+        fixtureCenter(
+            'Parrys Scan Centre',
+            '31 NSC Bose Road, George Town, Chennai, Tamil Nadu 600001',
+            '+91 44 2538 4411',
+            ['Dr. K. Lakshmi'],
+            "Google Maps lists the centre under 'CT scan service'.",
+            ['explicit-listing', 0.8],
+            { ownership: 'government', operatingHours: 'Mon-Sat 9am-5pm' }
+        ),
+    ],
+};
+
+const LOCALITIES = ['Main Road', 'Station Road', 'Hospital Road', 'Market Street', 'Bypass Road', 'Gandhi Nagar'];
+const NAME_PREFIXES = ['City', 'Sri Sai', 'Lifeline', 'Apex', 'Sunrise', 'Metro', 'Care', 'Vijaya'];
+const NAME_SUFFIXES = ['Scan Centre', 'Diagnostics', 'Imaging', 'Hospital', 'Medical Centre'];
+const DOCTORS = ['Dr. A. Kumar', 'Dr. S. Iyer', 'Dr. P. Sharma', 'Dr. R. Nair', 'Dr. F. Khan', 'Dr. M. Das'];
+const REASONS: [string, [EvidenceCategory, number]][] = [
+    ["The centre's website lists 'CT Scan' among its services.", ['explicit-listing', 0.9]],
+    ['A directory listing describes a 16-slice CT scanner on site.', ['equipment-mention', 0.7]],
+    ['Patient reviews mention CT scans performed at this location.', ['equipment-mention', 0.55]],
+    ['A multispeciality hospital with a radiology department, so CT imaging is likely.', ['inferred', 0.35]],
+];
+
+// Small deterministic PRNG so a given pincode always yields the same fixture data.
+const createSeededRandom = (seed: string) => {
+    let state = 0;
+    for (let i = 0; i < seed.length; i++) {
+        state = (state * 31 + seed.charCodeAt(i)) >>> 0;
+    }
+    return () => {
+        state = (state * 1664525 + 1013904223) >>> 0;
+        return state / 0x100000000;
+    };
+};
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+/**
+ * Returns the canned centers for a pincode. Pincodes without a hand-written fixture get
+ * zero to three generated centers derived only from the pincode string.
+ */
+export const getMockCentersForPincode = (pincode: string): ScanCenter[] => {
+    const fixture = MOCK_CENTER_FIXTURES[pincode];
+    if (fixture) {
+        return fixture.map(center => ({ ...center, doctorDetails: [...center.doctorDetails] }));
+    }
+
+    const random = createSeededRandom(pincode);
+    const count = Math.floor(random() * 4);
+    const centers: ScanCenter[] = [];
+
+    for (let i = 0; i < count; i++) {
+        const centerName = `${pick(NAME_PREFIXES, random)} ${pick(NAME_SUFFIXES, random)}`;
+        const address = `${1 + Math.floor(random() * 200)} ${pick(LOCALITIES, random)}, Pincode ${pincode}`;
+        const doctorDetails = random() > 0.5 ? [pick(DOCTORS, random)] : [];
+        const [reasoning, evidence] = pick(REASONS, random);
+        centers.push(
+            fixtureCenter(
+                centerName,
+                address,
+                `+91 ${90000 + Math.floor(random() * 9999)} ${10000 + Math.floor(random() * 89999)}`,
+                doctorDetails,
+                reasoning,
+                evidence
+            )
+        );
+    }
+
+    return centers;
+};
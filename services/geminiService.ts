@@ -1,15 +1,35 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { ScanCenter } from '../types';
+import { DiscoveryErrorKind, GroundingSource, ScanCenter } from '../types';
+import { DiscoveryProvider, DiscoveryRequest, GroundingResult } from './discoveryProvider';
+import { describeRejection, validateExtractedCenters } from './centerValidation';
+import { classifyDiscoveryError, createDiscoveryError } from './discoveryErrors';
+import { PromptConfig, PromptVariables, formatPromptVersion, getGenerationConfig, renderPrompt } from './promptConfig';
 
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
-}
+let ai: GoogleGenAI | null = null;
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// The client is created on first use so the app (and the mock provider) can load without a key.
+const getClient = (): GoogleGenAI => {
+    if (!process.env.API_KEY) {
+        throw createDiscoveryError('auth', "API_KEY environment variable not set");
+    }
+    if (!ai) {
+        ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    }
+    return ai;
+};
 
 export type GeminiCallStage = 'grounding' | 'extraction';
 
-export interface GeminiCallTelemetry {
+/** Token counts reported in a response's usage metadata. */
+export interface GeminiTokenUsage {
+    inputTokens: number;
+    /** Response and thinking tokens; both are billed as output. */
+    outputTokens: number;
+    /** Tokens the Search/Maps tools added to the prompt. */
+    groundingTokens: number;
+}
+
+export interface GeminiCallTelemetry extends Partial<GeminiTokenUsage> {
     id: string;
     pincode: string;
     stage: GeminiCallStage;
@@ -19,9 +39,26 @@ export interface GeminiCallTelemetry {
     promptChars: number;
     responseChars?: number;
     errorMessage?: string;
+    errorKind?: DiscoveryErrorKind;
+    /** Missing on records saved before the model was tracked. */
+    model?: string;
+    /** `name@version` of the prompt configuration; missing on records from before prompts were versioned. */
+    promptVersion?: string;
+    /** Extraction only: entries that passed validation, including repaired ones. */
+    acceptedCount?: number;
+    /** Extraction only: accepted entries that needed a field coerced or rebuilt. */
+    repairedCount?: number;
+    /** Extraction only: entries dropped by validation. */
+    rejectedCount?: number;
+    /** Why entries were dropped, one line per entry, capped at `MAX_RECORDED_REJECTIONS`. */
+    rejections?: string[];
 }
 
+// Keeps the stored record small when a response is mostly junk; the count is always exact.
+const MAX_RECORDED_REJECTIONS = 20;
+
 const geminiTelemetry: GeminiCallTelemetry[] = [];
+const telemetryListeners = new Set<(entry: GeminiCallTelemetry) => void>();
 
 const getPerfTime = () => (typeof performance !== 'undefined' && typeof performance.now === 'function'
     ? performance.now()
@@ -31,11 +68,18 @@ const createTelemetryId = () => `${Date.now()}-${Math.random().toString(36).slic
 
 const pushTelemetry = (entry: GeminiCallTelemetry) => {
     geminiTelemetry.push(entry);
-    const { stage, status, pincode, durationMs, promptChars, responseChars, errorMessage } = entry;
+    telemetryListeners.forEach(listener => listener(entry));
+    const { stage, status, pincode, durationMs, promptChars, responseChars, errorMessage, inputTokens, outputTokens, acceptedCount, rejectedCount } = entry;
     const metaParts = [`prompt ${promptChars}`];
     if (typeof responseChars === 'number') {
         metaParts.push(`response ${responseChars}`);
     }
+    if (typeof inputTokens === 'number') {
+        metaParts.push(`tokens ${inputTokens} in / ${outputTokens ?? 0} out`);
+    }
+    if (typeof acceptedCount === 'number') {
+        metaParts.push(`${acceptedCount} accepted / ${rejectedCount ?? 0} rejected`);
+    }
     const baseMessage = `[Gemini][${stage}] ${status.toUpperCase()} for ${pincode} in ${durationMs.toFixed(1)}ms (${metaParts.join(', ')})`;
     if (status === 'error') {
         console.warn(`${baseMessage}${errorMessage ? ` :: ${errorMessage}` : ''}`);
@@ -50,52 +94,132 @@ export const clearGeminiTelemetry = () => {
     geminiTelemetry.length = 0;
 };
 
-const runWithTelemetry = async <T>(
-    stage: GeminiCallStage,
-    pincode: string,
-    promptChars: number,
+export const subscribeToGeminiTelemetry = (listener: (entry: GeminiCallTelemetry) => void) => {
+    telemetryListeners.add(listener);
+    return () => {
+        telemetryListeners.delete(listener);
+    };
+};
+
+interface GeminiCallContext {
+    stage: GeminiCallStage;
+    pincode: string;
+    model: string;
+    promptVersion: string;
+    promptChars: number;
+}
+
+interface GeminiGroundingChunkTarget {
+    uri?: string;
+    title?: string;
+}
+
+interface GeminiResponsePayload {
+    text?: string;
+    promptFeedback?: { blockReason?: string };
+    candidates?: {
+        finishReason?: string;
+        groundingMetadata?: {
+            groundingChunks?: { web?: GeminiGroundingChunkTarget; maps?: GeminiGroundingChunkTarget }[];
+            groundingSupports?: { segment?: { text?: string }; groundingChunkIndices?: number[] }[];
+        };
+    }[];
+    usageMetadata?: {
+        promptTokenCount?: number;
+        candidatesTokenCount?: number;
+        thoughtsTokenCount?: number;
+        toolUsePromptTokenCount?: number;
+    };
+}
+
+const getResponseTextLength = (payload: GeminiResponsePayload | undefined) =>
+    payload && typeof payload.text === 'string' ? payload.text.length : undefined;
+
+const getResponseUsage = (payload: GeminiResponsePayload | undefined): GeminiTokenUsage | undefined => {
+    const usage = payload?.usageMetadata;
+    if (!usage) {
+        return undefined;
+    }
+    return {
+        inputTokens: usage.promptTokenCount ?? 0,
+        outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+        groundingTokens: usage.toolUsePromptTokenCount ?? 0,
+    };
+};
+
+// Finish reasons that mean the model withheld its answer; retrying the same prompt will not help.
+const BLOCKING_FINISH_REASONS = new Set(['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII']);
+
+const getBlockReason = (payload: GeminiResponsePayload | undefined) => {
+    if (payload?.promptFeedback?.blockReason) {
+        return `prompt blocked (${payload.promptFeedback.blockReason})`;
+    }
+    const finishReason = payload?.candidates?.[0]?.finishReason;
+    return finishReason && BLOCKING_FINISH_REASONS.has(finishReason) ? `response withheld (${finishReason})` : undefined;
+};
+
+/**
+ * Turns a response into the call's result, with any fields to add to its telemetry record.
+ * Throwing records the call as failed, keeping the response's token usage.
+ */
+type ResponseReader<T, R> = (payload: T) => { value: R; details?: Partial<GeminiCallTelemetry> };
+
+const runWithTelemetry = async <T extends GeminiResponsePayload, R>(
+    { stage, pincode, model, promptVersion, promptChars }: GeminiCallContext,
     executor: () => Promise<T>,
-    getResponseChars?: (result: T) => number | undefined
-): Promise<T> => {
+    read: ResponseReader<T, R>
+): Promise<R> => {
     const startedAt = new Date().toISOString();
     const startTime = getPerfTime();
+    let result: T | undefined;
 
     try {
-        const result = await executor();
+        result = await executor();
+        const blockReason = getBlockReason(result);
+        if (blockReason) {
+            throw createDiscoveryError('safety', `Gemini ${stage} ${blockReason}`);
+        }
+        const { value, details } = read(result);
         const durationMs = getPerfTime() - startTime;
-        const responseChars = getResponseChars ? getResponseChars(result) : undefined;
 
         pushTelemetry({
             id: createTelemetryId(),
             pincode,
             stage,
+            model,
+            promptVersion,
             status: 'success',
             startedAt,
             durationMs,
             promptChars,
-            responseChars,
+            responseChars: getResponseTextLength(result),
+            ...getResponseUsage(result),
+            ...details,
         });
 
-        return result;
+        return value;
     } catch (error) {
         const durationMs = getPerfTime() - startTime;
+        const classified = classifyDiscoveryError(error);
         pushTelemetry({
             id: createTelemetryId(),
             pincode,
             stage,
+            model,
+            promptVersion,
             status: 'error',
             startedAt,
             durationMs,
             promptChars,
-            errorMessage: error instanceof Error ? error.message : String(error),
+            responseChars: getResponseTextLength(result),
+            ...getResponseUsage(result),
+            errorMessage: classified.message,
+            errorKind: classified.kind,
         });
-        throw error;
+        throw classified;
     }
 };
 
-const getResponseTextLength = (payload: { text?: string } | undefined) =>
-    payload && typeof payload.text === 'string' ? payload.text.length : undefined;
-
 const responseSchema = {
     type: Type.ARRAY,
     items: {
@@ -127,113 +251,187 @@ const responseSchema = {
         reasoning: {
             type: Type.STRING,
             description: "A brief, one-sentence summary explaining the evidence found in the text that confirms the presence of a CT scanner.",
+        },
+        coordinates: {
+          type: Type.OBJECT,
+          description: "The center's latitude and longitude, only if they appear in the text.",
+          properties: {
+            lat: { type: Type.NUMBER },
+            lng: { type: Type.NUMBER },
+          },
+          required: ["lat", "lng"],
+        },
+        evidenceCategory: {
+          type: Type.STRING,
+          enum: ["explicit-listing", "equipment-mention", "inferred"],
+          description: "How the CT scanner is evidenced: a listed CT scan service, a mention of CT equipment, or an inference from the type of facility.",
+        },
+        confidence: {
+          type: Type.NUMBER,
+          description: "Likelihood from 0 to 1 that the center currently offers CT scans.",
+        },
+        modalities: {
+          type: Type.ARRAY,
+          description: "Other imaging services the text says the center offers.",
+          items: { type: Type.STRING, enum: ["MRI", "X-ray", "Ultrasound", "PET-CT"] },
+        },
+        ctScanner: {
+          type: Type.OBJECT,
+          description: "Details of the CT scanner, only as stated in the text.",
+          properties: {
+            sliceCount: { type: Type.INTEGER, description: "Number of slices, e.g. 16, 64 or 128." },
+            manufacturer: { type: Type.STRING, description: "Scanner manufacturer, e.g. Siemens, GE, Philips." },
+          },
+        },
+        operatingHours: {
+          type: Type.STRING,
+          description: "Opening hours as stated, e.g. 'Mon-Sat 8am-9pm'.",
+        },
+        isOpen24x7: {
+          type: Type.BOOLEAN,
+          description: "True only if the text says the center or its CT service is open 24 hours, every day.",
+        },
+        ownership: {
+          type: Type.STRING,
+          enum: ["government", "private-chain", "standalone"],
+          description: "Government-run, part of a private chain, or a standalone private center.",
+        },
+        chainName: {
+          type: Type.STRING,
+          description: "The chain or brand name, if the center belongs to one.",
+        },
+        website: {
+          type: Type.STRING,
+          description: "The center's own website URL.",
+        },
+        email: {
+          type: Type.STRING,
+          description: "A contact email address.",
         }
       },
-      required: ["centerName", "address", "contactDetails", "googleMapsLink", "reasoning"],
+      required: ["centerName", "address", "contactDetails", "googleMapsLink", "reasoning", "evidenceCategory", "confidence"],
     },
 };
 
-const createAddressFingerprint = (address: string): string => {
-    return address.toLowerCase().replace(/[^a-z0-9]/g, '');
+// Chunk order is kept, with a placeholder for chunks without a URL, so support indices stay valid.
+const getGroundingCitations = (payload: GeminiResponsePayload): Pick<GroundingResult, 'sources' | 'supports'> => {
+    const metadata = payload.candidates?.[0]?.groundingMetadata;
+    const sources: GroundingSource[] = (metadata?.groundingChunks ?? []).map(chunk => {
+        const target = chunk.web ?? chunk.maps;
+        return { uri: target?.uri ?? '', ...(target?.title ? { title: target.title } : {}) };
+    });
+    const supports = (metadata?.groundingSupports ?? [])
+        .filter(support => support.segment?.text)
+        .map(support => ({
+            text: support.segment?.text ?? '',
+            sourceIndices: (support.groundingChunkIndices ?? []).filter(index => sources[index]?.uri),
+        }));
+    return { sources, supports };
 };
 
-export const findAndAnalyzeCTScans = async (pincode: string, existingResults: ScanCenter[] = []): Promise<ScanCenter[]> => {
-  try {
-    const groundingPrompt = `
-      Find diagnostic centers, imaging centers, or hospitals near pincode ${pincode}, India, that have a CT scanner. 
-      For each one, gather detailed information from Google Search and Maps regarding the services they offer, paying close attention to any mention of "CT Scan", "Computed Tomography", or related imaging services. 
-      Also, collect their name, address, and contact details.
-    `;
-
-    const groundedResponse = await runWithTelemetry(
-        'grounding',
-        pincode,
-        groundingPrompt.length,
-        () => ai.models.generateContent({
-            model: "gemini-2.5-pro",
+const toPromptVariables = ({ pincode, district, stateName, locality }: DiscoveryRequest): PromptVariables =>
+    ({ pincode, district, state: stateName, locality: locality ?? '' });
+
+const groundWithGemini = async (request: DiscoveryRequest, config: PromptConfig): Promise<GroundingResult> => {
+    const { model, template, ...settings } = config.grounding;
+    const groundingPrompt = renderPrompt(template, toPromptVariables(request));
+
+    return runWithTelemetry(
+        {
+            stage: 'grounding',
+            pincode: request.pincode,
+            model,
+            promptVersion: formatPromptVersion(config),
+            promptChars: groundingPrompt.length,
+        },
+        () => getClient().models.generateContent({
+            model,
             contents: groundingPrompt,
             config: {
+                ...getGenerationConfig(settings),
                 tools: [{ googleSearch: {} }, { googleMaps: {} }],
             },
         }),
-        getResponseTextLength
+        response => ({
+            value: {
+                text: typeof response.text === 'string' ? response.text : '',
+                ...getGroundingCitations(response),
+            },
+        })
     );
+};
+
+/**
+ * Parses and validates an extraction answer. Invalid JSON or anything but a list fails the call
+ * as a parse error carrying the raw text; individual bad entries are dropped and counted.
+ */
+const readExtraction = (pincode: string): ResponseReader<GeminiResponsePayload, ScanCenter[]> => response => {
+    const jsonText = (typeof response.text === 'string' ? response.text : '').trim();
+    if (!jsonText) {
+        return { value: [], details: { acceptedCount: 0, repairedCount: 0, rejectedCount: 0 } };
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(jsonText);
+    } catch (parseError) {
+        console.error(`Error parsing JSON response for pincode ${pincode}:`, parseError, "JSON Text:", jsonText);
+        const reason = parseError instanceof Error ? parseError.message : String(parseError);
+        throw createDiscoveryError('parse', `Extraction returned invalid JSON (${reason})`, { rawOutput: jsonText });
+    }
+    if (!Array.isArray(parsed)) {
+        const shape = parsed === null ? 'null' : typeof parsed;
+        throw createDiscoveryError('parse', `Extraction returned ${shape === 'object' ? 'an object' : shape} instead of a list of centers`, { rawOutput: jsonText });
+    }
 
-    const groundedTextRaw = typeof groundedResponse.text === 'string' ? groundedResponse.text : '';
-    const groundedText = groundedTextRaw.trim();
-    if (!groundedText) {
-      console.log(`No initial information found for pincode ${pincode}.`);
-      return [];
+    const { centers, rejected, repairedCount } = validateExtractedCenters(parsed);
+    const rejections = rejected.map(describeRejection);
+    if (rejections.length > 0) {
+        console.warn(`Pincode ${pincode}: dropped ${rejections.length} invalid center(s): ${rejections.join('; ')}`);
     }
+    return {
+        value: centers,
+        details: {
+            acceptedCount: centers.length,
+            repairedCount,
+            rejectedCount: rejected.length,
+            ...(rejections.length > 0 ? { rejections: rejections.slice(0, MAX_RECORDED_REJECTIONS) } : {}),
+        },
+    };
+};
+
+const extractWithGemini = async (request: DiscoveryRequest, groundedText: string, config: PromptConfig): Promise<ScanCenter[]> => {
+    const { model, template, ...settings } = config.extraction;
+    const extractionPrompt = renderPrompt(template, { ...toPromptVariables(request), groundedText });
+    const { pincode } = request;
 
-    const extractionPrompt = `
-      Analyze the following text which contains information about diagnostic centers. Based ONLY on this text, identify and extract details for centers that are definitively confirmed to have a CT (Computed Tomography) scanner.
-      
-      For each confirmed center, provide the following details:
-      1.  **centerName**: The full name of the center.
-      2.  **address**: The complete address, making sure to include the 6-digit pincode.
-      3.  **contactDetails**: The primary phone number.
-      4.  **doctorDetails**: A list of any doctor names mentioned.
-      5.  **googleMapsLink**: A Google Maps search URL for the center's name and address (e.g., "https://www.google.com/maps/search/?api=1&query=Center+Name+Address").
-      6.  **reasoning**: A concise, one-sentence summary explaining the evidence from the text that indicates a CT scanner is available (e.g., "The center's website explicitly lists 'CT Scan' as a provided service.").
-
-      If the text does not contain enough information to confirm a CT scanner at any location, or if no centers are mentioned, return an empty array.
-
-      Text to analyze:
-      ---
-      ${groundedText}
-      ---
-    `;
-
-    const extractionResponse = await runWithTelemetry(
-        'extraction',
-        pincode,
-        extractionPrompt.length,
-        () => ai.models.generateContent({
-            model: "gemini-2.5-pro",
+    return runWithTelemetry(
+        {
+            stage: 'extraction',
+            pincode,
+            model,
+            promptVersion: formatPromptVersion(config),
+            promptChars: extractionPrompt.length,
+        },
+        () => getClient().models.generateContent({
+            model,
             contents: extractionPrompt,
             config: {
+                ...getGenerationConfig(settings),
                 responseMimeType: "application/json",
                 responseSchema: responseSchema,
             },
         }),
-        getResponseTextLength
+        readExtraction(pincode)
     );
+};
 
-    const jsonTextRaw = typeof extractionResponse.text === 'string' ? extractionResponse.text : '';
-    const jsonText = jsonTextRaw.trim();
-    if (!jsonText) {
-        return [];
-    }
-    
-    try {
-        const parsedResponse = JSON.parse(jsonText) as ScanCenter[];
-        
-        // --- Filtering Logic ---
-        const existingAddressFingerprints = new Set(existingResults.map(center => createAddressFingerprint(center.address)));
-
-        const filteredResults = parsedResponse.filter(newCenter => {
-            // Address de-duplication only; allow cross-pincode matches for now.
-            const newFingerprint = createAddressFingerprint(newCenter.address);
-            if (existingAddressFingerprints.has(newFingerprint)) {
-                console.log(`Dropping duplicate center "${newCenter.centerName}" based on address.`);
-                return false;
-            }
-            
-            existingAddressFingerprints.add(newFingerprint); // Add to set to de-dupe within the same API response
-            return true;
-        });
-
-        return filteredResults;
-
-    } catch (parseError) {
-        console.error(`Error parsing JSON response for pincode ${pincode}:`, parseError, "JSON Text:", jsonText);
-        return [];
-    }
-
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-    console.error(`Error discovering scans in pincode ${pincode}:`, errorMessage);
-    throw new Error(errorMessage);
-  }
+export const geminiProvider: DiscoveryProvider = {
+    id: 'gemini',
+    label: 'Gemini',
+    description: 'Live discovery with Google Search and Maps grounding, using the models in the active prompt configuration. Requires an API key.',
+    isAvailable: () => Boolean(process.env.API_KEY),
+    ground: groundWithGemini,
+    extract: extractWithGemini,
+    getModels: config => ({ grounding: config.grounding.model, extraction: config.extraction.model }),
 };
@@ -0,0 +1,37 @@
+import { ScanCenter } from '../types';
+import { DiscoveryProvider, GroundingResult } from './discoveryProvider';
+import { getMockCentersForPincode } from './fixtures/mockCenters';
+
+// Enough delay for the scanning/scanned transitions to be visible in the UI.
+const MOCK_LATENCY_MS = 400;
+const MOCK_MODEL = 'offline-fixtures';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const describeCenter = (center: ScanCenter) =>
+    `${center.centerName}, ${center.address}. Phone: ${center.contactDetails}. ${center.reasoning}`;
+
+// Mirrors the shape of a grounding answer, citing each center's Maps page for its own line;
+// an empty string means "nothing found".
+const groundCenters = (centers: ScanCenter[]): GroundingResult => ({
+    text: centers.map(describeCenter).join('\n'),
+    sources: centers.map(center => ({ uri: center.googleMapsLink, title: `${center.centerName} - Google Maps` })),
+    supports: centers.map((center, index) => ({ text: describeCenter(center), sourceIndices: [index] })),
+});
+
+export const mockProvider: DiscoveryProvider = {
+    id: 'mock',
+    label: 'Offline fixtures',
+    description: 'Deterministic canned results per pincode. No network or API key needed.',
+    isAvailable: () => true,
+    ground: async ({ pincode }) => {
+        await delay(MOCK_LATENCY_MS);
+        return groundCenters(getMockCentersForPincode(pincode));
+    },
+    // Prompts are ignored; the fixtures are the same whatever the configuration says.
+    extract: async ({ pincode }) => {
+        await delay(MOCK_LATENCY_MS);
+        return getMockCentersForPincode(pincode);
+    },
+    getModels: () => ({ grounding: MOCK_MODEL, extraction: MOCK_MODEL }),
+};
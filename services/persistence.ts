@@ -0,0 +1,413 @@
+import { CenterRegistry, CityData, Pincode, RegisteredCenter, ScanCenter } from '../types';
+import { registerCenters } from './centerRegistry';
+import { cityKey } from './discoveryQueue';
+import { StoredGroundingResponse } from './discoveryProvider';
+import { GeminiCallTelemetry } from './geminiService';
+
+export const DB_NAME = 'ctScanDiscoverer';
+export const DB_VERSION = 2;
+
+// Keys written by the localStorage-based versions of the app.
+const LEGACY_STORAGE_KEY = 'ctScanDiscovererData';
+const LEGACY_CENTERS_STORAGE_KEY = 'ctScanDiscovererCenters';
+const LEGACY_IMPORT_META_KEY = 'legacyLocalStorageImported';
+
+const STORES = {
+    districts: 'districts',
+    pincodes: 'pincodes',
+    centers: 'centers',
+    telemetry: 'telemetry',
+    meta: 'meta',
+    groundingResponses: 'groundingResponses',
+} as const;
+
+type GroupedCities = Record<string, CityData[]>;
+
+/** A district row; pincodes live in their own store and `pincodeCodes` keeps their order. */
+interface DistrictRecord extends Omit<CityData, 'pincodes'> {
+    key: string;
+    pincodeCodes: string[];
+}
+
+interface PincodeRecord extends Pincode {
+    key: string;
+    cityKey: string;
+}
+
+interface MetaRecord {
+    key: string;
+    value: unknown;
+}
+
+/**
+ * Schema migrations keyed by the version they upgrade to. Each runs inside the
+ * `versionchange` transaction, so a failed step aborts the whole upgrade.
+ */
+const MIGRATIONS: Record<number, (db: IDBDatabase, transaction: IDBTransaction) => void> = {
+    1: (db) => {
+        db.createObjectStore(STORES.districts, { keyPath: 'key' });
+        const pincodes = db.createObjectStore(STORES.pincodes, { keyPath: 'key' });
+        pincodes.createIndex('cityKey', 'cityKey');
+        db.createObjectStore(STORES.centers, { keyPath: 'id' });
+        const telemetry = db.createObjectStore(STORES.telemetry, { keyPath: 'id' });
+        telemetry.createIndex('startedAt', 'startedAt');
+        db.createObjectStore(STORES.meta, { keyPath: 'key' });
+    },
+    // The latest grounding answer per pincode, for trying prompt versions without new searches.
+    2: (db) => {
+        db.createObjectStore(STORES.groundingResponses, { keyPath: 'pincode' });
+    },
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+    new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (transaction: IDBTransaction) =>
+    new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (databasePromise) {
+        return databasePromise;
+    }
+
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this environment'));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            const transaction = request.transaction!;
+            for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+                MIGRATIONS[version]?.(db, transaction);
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => console.warn('Database upgrade is blocked by another open tab.');
+    }).then(async (db) => {
+        await importLegacyLocalStorage(db);
+        return db;
+    });
+
+    databasePromise.catch(() => {
+        databasePromise = null;
+    });
+
+    return databasePromise;
+};
+
+const toDistrictRecord = ({ pincodes, ...city }: CityData): DistrictRecord => ({
+    ...city,
+    key: cityKey(city.stateName, city.name),
+    pincodeCodes: pincodes.map(p => p.code),
+});
+
+const toPincodeRecord = (city: CityData, pincode: Pincode): PincodeRecord => ({
+    ...pincode,
+    key: `${cityKey(city.stateName, city.name)}::${pincode.code}`,
+    cityKey: cityKey(city.stateName, city.name),
+});
+
+const writeGroupedCities = (transaction: IDBTransaction, groupedCities: GroupedCities) => {
+    const districts = transaction.objectStore(STORES.districts);
+    const pincodes = transaction.objectStore(STORES.pincodes);
+    for (const cities of Object.values(groupedCities)) {
+        for (const city of cities) {
+            districts.put(toDistrictRecord(city));
+            city.pincodes.forEach(pincode => pincodes.put(toPincodeRecord(city, pincode)));
+        }
+    }
+};
+
+const writeCenters = (transaction: IDBTransaction, centers: RegisteredCenter[]) => {
+    const store = transaction.objectStore(STORES.centers);
+    centers.forEach(center => store.put(center));
+};
+
+type LegacyCityData = CityData & { results?: ScanCenter[] };
+
+/** Data saved before the center registry existed keeps centers inline on each city. */
+export const migrateLegacyResults = (groupedCities: Record<string, LegacyCityData[]>, registry: CenterRegistry) => {
+    let nextRegistry = registry;
+    const migrated: GroupedCities = {};
+    for (const [stateName, cities] of Object.entries(groupedCities)) {
+        migrated[stateName] = cities.map(({ results, ...city }) => {
+            if (!results || results.length === 0) {
+                return { ...city, centerIds: city.centerIds ?? [] };
+            }
+            const registered = registerCenters(nextRegistry, results, {
+                pincode: '',
+                cityName: city.name,
+                stateName,
+                foundAt: new Date().toISOString(),
+            });
+            nextRegistry = registered.registry;
+            return { ...city, centerIds: registered.centerIds, centersFound: registered.centerIds.length };
+        });
+    }
+    return { migrated, registry: nextRegistry };
+};
+
+/**
+ * One-time copy of the old localStorage blob into IndexedDB. The legacy keys are removed
+ * only after the import transaction commits.
+ */
+const importLegacyLocalStorage = async (db: IDBDatabase) => {
+    const metaTransaction = db.transaction(STORES.meta, 'readonly');
+    const alreadyImported = await requestToPromise(metaTransaction.objectStore(STORES.meta).get(LEGACY_IMPORT_META_KEY));
+    if (alreadyImported) {
+        return;
+    }
+
+    let storedData: string | null = null;
+    let storedCenters: string | null = null;
+    try {
+        storedData = localStorage.getItem(LEGACY_STORAGE_KEY);
+        storedCenters = localStorage.getItem(LEGACY_CENTERS_STORAGE_KEY);
+    } catch (error) {
+        console.error('Failed to read legacy localStorage data', error);
+    }
+
+    const transaction = db.transaction([STORES.districts, STORES.pincodes, STORES.centers, STORES.meta], 'readwrite');
+    if (storedData) {
+        try {
+            const { migrated, registry } = migrateLegacyResults(
+                JSON.parse(storedData),
+                storedCenters ? JSON.parse(storedCenters) : {}
+            );
+            writeGroupedCities(transaction, migrated);
+            writeCenters(transaction, Object.values(registry));
+            console.info(`Imported ${Object.values(migrated).flat().length} districts from localStorage.`);
+        } catch (error) {
+            console.error('Failed to parse legacy localStorage data; skipping import', error);
+        }
+    }
+    const meta: MetaRecord = { key: LEGACY_IMPORT_META_KEY, value: new Date().toISOString() };
+    transaction.objectStore(STORES.meta).put(meta);
+    await transactionDone(transaction);
+
+    try {
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        localStorage.removeItem(LEGACY_CENTERS_STORAGE_KEY);
+    } catch (error) {
+        console.error('Failed to remove legacy localStorage data', error);
+    }
+};
+
+export interface StoredProject {
+    groupedCities: GroupedCities;
+    centerRegistry: CenterRegistry;
+}
+
+/** Loads every district, pincode and center. Returns `null` when nothing has been saved yet. */
+export const loadProject = async (): Promise<StoredProject | null> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([STORES.districts, STORES.pincodes, STORES.centers], 'readonly');
+    const [districts, pincodes, centers] = await Promise.all([
+        requestToPromise(transaction.objectStore(STORES.districts).getAll() as IDBRequest<DistrictRecord[]>),
+        requestToPromise(transaction.objectStore(STORES.pincodes).getAll() as IDBRequest<PincodeRecord[]>),
+        requestToPromise(transaction.objectStore(STORES.centers).getAll() as IDBRequest<RegisteredCenter[]>),
+    ]);
+
+    if (districts.length === 0) {
+        return null;
+    }
+
+    const pincodesByKey = new Map(pincodes.map(({ key, cityKey: _cityKey, ...pincode }) => [key, pincode as Pincode]));
+    const groupedCities: GroupedCities = {};
+    for (const { key, pincodeCodes, ...city } of districts) {
+        const restoredCity: CityData = {
+            ...city,
+            pincodes: pincodeCodes
+                .map(code => pincodesByKey.get(`${key}::${code}`))
+                .filter((pincode): pincode is Pincode => Boolean(pincode)),
+        };
+        (groupedCities[city.stateName] ??= []).push(restoredCity);
+    }
+    for (const cities of Object.values(groupedCities)) {
+        cities.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    const centerRegistry: CenterRegistry = {};
+    centers.forEach(center => {
+        centerRegistry[center.id] = center;
+    });
+
+    return { groupedCities, centerRegistry };
+};
+
+/**
+ * Tracks the last persisted snapshot and writes only what changed. State updates in the
+ * app are immutable, so an unchanged city, pincode or center keeps its object identity.
+ */
+export const createIncrementalWriter = () => {
+    let previousCities = new Map<string, CityData>();
+    let previousCenters: CenterRegistry = {};
+    let writeChain: Promise<void> = Promise.resolve();
+
+    const diffAndWrite = async (groupedCities: GroupedCities, centerRegistry: CenterRegistry) => {
+        const nextCities = new Map<string, CityData>();
+        Object.values(groupedCities).flat().forEach(city => nextCities.set(cityKey(city.stateName, city.name), city));
+
+        const changedCities: CityData[] = [];
+        const changedPincodes: PincodeRecord[] = [];
+        const removedCityKeys: string[] = [];
+
+        for (const [key, city] of nextCities) {
+            const previous = previousCities.get(key);
+            if (previous === city) continue;
+            changedCities.push(city);
+            const previousPincodes = new Set(previous?.pincodes ?? []);
+            city.pincodes.forEach(pincode => {
+                if (!previousPincodes.has(pincode)) {
+                    changedPincodes.push(toPincodeRecord(city, pincode));
+                }
+            });
+        }
+        for (const key of previousCities.keys()) {
+            if (!nextCities.has(key)) {
+                removedCityKeys.push(key);
+            }
+        }
+
+        const changedCenters = Object.values(centerRegistry).filter(center => previousCenters[center.id] !== center);
+        const removedCenterIds = Object.keys(previousCenters).filter(id => !centerRegistry[id]);
+
+        if (!changedCities.length && !changedPincodes.length && !removedCityKeys.length
+            && !changedCenters.length && !removedCenterIds.length) {
+            previousCities = nextCities;
+            previousCenters = centerRegistry;
+            return;
+        }
+
+        const db = await openDatabase();
+        const transaction = db.transaction([STORES.districts, STORES.pincodes, STORES.centers], 'readwrite');
+        const districtStore = transaction.objectStore(STORES.districts);
+        const pincodeStore = transaction.objectStore(STORES.pincodes);
+        const centerStore = transaction.objectStore(STORES.centers);
+
+        changedCities.forEach(city => districtStore.put(toDistrictRecord(city)));
+        changedPincodes.forEach(record => pincodeStore.put(record));
+        for (const key of removedCityKeys) {
+            districtStore.delete(key);
+            pincodeStore.delete(IDBKeyRange.bound(`${key}::`, `${key}::\uffff`));
+        }
+        changedCenters.forEach(center => centerStore.put(center));
+        removedCenterIds.forEach(id => centerStore.delete(id));
+
+        await transactionDone(transaction);
+        // Only now: after a failed write the baseline stays put, so the next sync writes the same changes again.
+        previousCities = nextCities;
+        previousCenters = centerRegistry;
+    };
+
+    return {
+        /** Marks a snapshot as already persisted, e.g. right after `loadProject`. */
+        setBaseline: (groupedCities: GroupedCities, centerRegistry: CenterRegistry) => {
+            previousCities = new Map(
+                Object.values(groupedCities).flat().map(city => [cityKey(city.stateName, city.name), city])
+            );
+            previousCenters = centerRegistry;
+        },
+        /**
+         * Queues a diff against the last snapshot that was written; writes run one at a time, in
+         * order. The returned promise rejects if this write fails; later writes still run.
+         */
+        sync: (groupedCities: GroupedCities, centerRegistry: CenterRegistry) => {
+            const write = writeChain.then(() => diffAndWrite(groupedCities, centerRegistry));
+            writeChain = write.catch(() => undefined);
+            return write;
+        },
+    };
+};
+
+export const appendTelemetry = async (entry: GeminiCallTelemetry) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.telemetry, 'readwrite');
+    transaction.objectStore(STORES.telemetry).put(entry);
+    await transactionDone(transaction);
+};
+
+/** Writes imported telemetry, optionally replacing everything stored so far. */
+export const importTelemetry = async (entries: GeminiCallTelemetry[], replace: boolean) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.telemetry, 'readwrite');
+    const store = transaction.objectStore(STORES.telemetry);
+    if (replace) {
+        store.clear();
+    }
+    entries.forEach(entry => store.put(entry));
+    await transactionDone(transaction);
+};
+
+export const loadTelemetry = async (): Promise<GeminiCallTelemetry[]> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.telemetry, 'readonly');
+    const index = transaction.objectStore(STORES.telemetry).index('startedAt');
+    return requestToPromise(index.getAll() as IDBRequest<GeminiCallTelemetry[]>);
+};
+
+export const clearTelemetry = async () => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.telemetry, 'readwrite');
+    transaction.objectStore(STORES.telemetry).clear();
+    await transactionDone(transaction);
+};
+
+/** Stores a pincode's grounding answer, replacing the one from its previous scan. */
+export const saveGroundingResponse = async (response: StoredGroundingResponse) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.groundingResponses, 'readwrite');
+    transaction.objectStore(STORES.groundingResponses).put(response);
+    await transactionDone(transaction);
+};
+
+/** Pincodes with a stored grounding answer; the answers themselves are read one at a time. */
+export const listGroundingResponsePincodes = async (): Promise<string[]> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.groundingResponses, 'readonly');
+    return requestToPromise(transaction.objectStore(STORES.groundingResponses).getAllKeys() as IDBRequest<string[]>);
+};
+
+export const loadGroundingResponse = async (pincode: string): Promise<StoredGroundingResponse | undefined> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.groundingResponses, 'readonly');
+    return requestToPromise(transaction.objectStore(STORES.groundingResponses).get(pincode) as IDBRequest<StoredGroundingResponse | undefined>);
+};
+
+/** Removes all discovery data. Telemetry is kept unless `includeTelemetry` is set. */
+export const clearProject = async (includeTelemetry = false) => {
+    const db = await openDatabase();
+    const storeNames: string[] = [STORES.districts, STORES.pincodes, STORES.centers, STORES.groundingResponses];
+    if (includeTelemetry) {
+        storeNames.push(STORES.telemetry);
+    }
+    const transaction = db.transaction(storeNames, 'readwrite');
+    storeNames.forEach(name => transaction.objectStore(name).clear());
+    await transactionDone(transaction);
+};
+
+export interface StorageEstimate {
+    usageBytes: number;
+    quotaBytes: number;
+}
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+        return null;
+    }
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usageBytes: usage, quotaBytes: quota };
+};
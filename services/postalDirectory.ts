@@ -0,0 +1,193 @@
+import { CityData, GeoCoordinates, Pincode, PincodePostalInfo, PostOfficeType } from '../types';
+import { canonicalStateName } from './contactNormalization';
+import { CsvTable } from './csvImport';
+
+/** One pincode's offices, aggregated from every directory row that lists it. */
+export interface PostalDirectoryEntry extends Omit<PincodePostalInfo, 'mismatch'> {
+    pincode: string;
+}
+
+export interface PostalDirectory {
+    entries: Map<string, PostalDirectoryEntry>;
+    rowCount: number;
+    skippedRows: number;
+}
+
+export interface PostalJoinSummary {
+    /** Loaded pincodes the directory lists. */
+    joined: number;
+    /** Loaded pincodes the directory does not list. */
+    missing: number;
+    districtMismatches: number;
+    stateMismatches: number;
+}
+
+type DirectoryField = 'office' | 'pincode' | 'officeType' | 'taluk' | 'district' | 'state' | 'latitude' | 'longitude';
+
+// Covers both layouts India Post has published on data.gov.in.
+const DIRECTORY_HEADERS: Record<DirectoryField, string[]> = {
+    office: ['officename', 'office'],
+    pincode: ['pincode', 'pin'],
+    officeType: ['officetype'],
+    taluk: ['taluk', 'talukname', 'subdistrict'],
+    district: ['district', 'districtname'],
+    state: ['statename', 'state'],
+    latitude: ['latitude', 'lat'],
+    longitude: ['longitude', 'long', 'lng'],
+};
+
+const REQUIRED_FIELDS: DirectoryField[] = ['office', 'pincode', 'district', 'state'];
+
+// Generous bounds around India; the directory uses "NA" or 0 where it has no position.
+const INDIA_BOUNDS = { minLat: 6, maxLat: 38, minLng: 68, maxLng: 98 };
+
+// Higher is more senior; also used to pick representative pincodes for scan plans.
+export const OFFICE_RANK: Record<PostOfficeType, number> = { head: 3, sub: 2, branch: 1 };
+
+export const POST_OFFICE_TYPE_LABELS: Record<PostOfficeType, string> = {
+    head: 'Head office',
+    sub: 'Sub office',
+    branch: 'Branch office (rural)',
+};
+
+const headerKey = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+/** Compares place names ignoring case, spacing, punctuation, and "&" versus "and". */
+const placeKey = (name: string) => name.toLowerCase().replace(/&/g, 'and').replace(/[^a-z]/g, '');
+
+const toTitleCase = (value: string) => value.toLowerCase().replace(/\b[a-z]/g, letter => letter.toUpperCase());
+
+const readOfficeType = (officeType: string, officeName: string): PostOfficeType => {
+    const label = `${officeType} ${officeName.split(/\s+/).pop() ?? ''}`.toUpperCase().replace(/[^A-Z ]/g, '');
+    if (/\b(HO|GPO)\b/.test(label)) return 'head';
+    if (/\bSO\b/.test(label)) return 'sub';
+    return 'branch';
+};
+
+const stripOfficeSuffix = (officeName: string) => officeName.replace(/\s+(G\.?P\.?O|[HSB]\.?O)\.?$/i, '').trim();
+
+const readCoordinates = (latitude?: string, longitude?: string): GeoCoordinates | undefined => {
+    const lat = parseFloat(latitude ?? '');
+    const lng = parseFloat(longitude ?? '');
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) return undefined;
+    if (lat < INDIA_BOUNDS.minLat || lat > INDIA_BOUNDS.maxLat || lng < INDIA_BOUNDS.minLng || lng > INDIA_BOUNDS.maxLng) return undefined;
+    return { lat, lng };
+};
+
+/**
+ * Reads an India Post pincode directory export into one entry per pincode. The locality is the
+ * most senior office's name; coordinates are the mean of the offices that have usable ones.
+ */
+export const parsePostalDirectory = (table: CsvTable): PostalDirectory => {
+    const keys = table.header.map(headerKey);
+    const columns = Object.fromEntries(
+        (Object.keys(DIRECTORY_HEADERS) as DirectoryField[]).map(field => [field, keys.findIndex(key => DIRECTORY_HEADERS[field].includes(key))])
+    ) as Record<DirectoryField, number>;
+    const missing = REQUIRED_FIELDS.filter(field => columns[field] === -1);
+    if (missing.length > 0) {
+        throw new Error(`This does not look like a pincode directory: no column for ${missing.join(', ')}.`);
+    }
+
+    const entries = new Map<string, PostalDirectoryEntry>();
+    const positions = new Map<string, GeoCoordinates[]>();
+    const mainOfficeRank = new Map<string, number>();
+    let skippedRows = 0;
+    for (const row of table.rows) {
+        const cell = (field: DirectoryField) => (columns[field] === -1 ? '' : (row[columns[field]] ?? '').trim());
+        const pincode = cell('pincode');
+        const office = cell('office');
+        if (!/^\d{6}$/.test(pincode) || !office) {
+            skippedRows++;
+            continue;
+        }
+        const officeType = readOfficeType(cell('officeType'), office);
+        const entry = entries.get(pincode) ?? {
+            pincode,
+            locality: stripOfficeSuffix(office),
+            officeType,
+            offices: [],
+            district: toTitleCase(cell('district')),
+            state: toTitleCase(cell('state')),
+        };
+        entry.offices.push(office);
+        if (OFFICE_RANK[officeType] > (mainOfficeRank.get(pincode) ?? 0)) {
+            mainOfficeRank.set(pincode, OFFICE_RANK[officeType]);
+            entry.locality = stripOfficeSuffix(office);
+            entry.officeType = officeType;
+            entry.district = toTitleCase(cell('district'));
+            entry.state = toTitleCase(cell('state'));
+            const taluk = cell('taluk');
+            if (taluk && taluk.toUpperCase() !== 'NA') entry.taluk = toTitleCase(taluk);
+        }
+        const position = readCoordinates(cell('latitude'), cell('longitude'));
+        if (position) positions.set(pincode, [...(positions.get(pincode) ?? []), position]);
+        entries.set(pincode, entry);
+    }
+
+    for (const [pincode, points] of positions) {
+        const entry = entries.get(pincode)!;
+        entry.coordinates = {
+            lat: Math.round(points.reduce((sum, point) => sum + point.lat, 0) / points.length * 1e5) / 1e5,
+            lng: Math.round(points.reduce((sum, point) => sum + point.lng, 0) / points.length * 1e5) / 1e5,
+        };
+    }
+    return { entries, rowCount: table.rows.length, skippedRows };
+};
+
+// Either name may contain the other: the CSV's "Goa" covers the directory's "North Goa", and
+// "Bangalore" its "Bangalore Urban". Districts that were renamed outright are still flagged.
+const isSameDistrict = (directoryDistrict: string, csvDistrict: string) => {
+    const directoryKey = placeKey(directoryDistrict);
+    const csvKey = placeKey(csvDistrict);
+    return directoryKey.includes(csvKey) || csvKey.includes(directoryKey);
+};
+
+const findMismatch = (entry: PostalDirectoryEntry, city: CityData): PincodePostalInfo['mismatch'] => {
+    if (placeKey(canonicalStateName(entry.state)) !== placeKey(canonicalStateName(city.stateName))) return 'state';
+    if (!isSameDistrict(entry.district, city.name)) return 'district';
+    return undefined;
+};
+
+const joinPincode = (pincode: Pincode, city: CityData, directory: PostalDirectory): Pincode => {
+    const { postal: _postal, ...rest } = pincode;
+    const entry = directory.entries.get(pincode.code);
+    if (!entry) return rest;
+    const { pincode: _code, ...info } = entry;
+    const mismatch = findMismatch(entry, city);
+    return { ...rest, postal: { ...info, ...(mismatch ? { mismatch } : {}) } };
+};
+
+/**
+ * Attaches directory details to every loaded pincode, replacing those from an earlier import,
+ * and flags pincodes the directory places in a different district or state than the CSV.
+ */
+export const joinPostalDirectory = (
+    groupedCities: Record<string, CityData[]>,
+    directory: PostalDirectory
+): { groupedCities: Record<string, CityData[]>; summary: PostalJoinSummary } => {
+    const summary: PostalJoinSummary = { joined: 0, missing: 0, districtMismatches: 0, stateMismatches: 0 };
+    const joinedAt = new Date().toISOString();
+    const joined = Object.fromEntries(Object.entries(groupedCities).map(([stateName, cities]) => [
+        stateName,
+        cities.map(city => {
+            const pincodes = city.pincodes.map(pincode => joinPincode(pincode, city, directory));
+            pincodes.forEach(({ postal }) => {
+                if (!postal) summary.missing++;
+                else summary.joined++;
+                if (postal?.mismatch === 'district') summary.districtMismatches++;
+                if (postal?.mismatch === 'state') summary.stateMismatches++;
+            });
+            return { ...city, pincodes, postalJoinedAt: joinedAt };
+        }),
+    ]));
+    return { groupedCities: joined, summary };
+};
+
+export const countPostalMismatches = (city: CityData) => city.pincodes.filter(pincode => pincode.postal?.mismatch).length;
+
+export const describePostalMismatch = (postal: PincodePostalInfo) =>
+    postal.mismatch === 'state'
+        ? `The postal directory places this pincode in ${postal.district}, ${postal.state}`
+        : postal.mismatch === 'district'
+            ? `The postal directory places this pincode in ${postal.district} district`
+            : undefined;
@@ -0,0 +1,233 @@
+import { CenterRegistry, CityData, RegisteredCenter } from '../types';
+import { CenterSightingEntry, registerCenterSightings } from './centerRegistry';
+import { adoptImportedReview, isReviewStatus } from './centerReview';
+import { releaseCityFromQueue } from './discoveryRunner';
+import { remapRunCenterIds } from './discoveryRuns';
+import { GeminiCallTelemetry } from './geminiService';
+
+export const PROJECT_BUNDLE_FORMAT = 'ct-scan-discoverer-project';
+export const PROJECT_BUNDLE_VERSION = 1;
+
+/** Everything needed to continue a discovery session on another machine. */
+export interface ProjectBundle {
+    format: typeof PROJECT_BUNDLE_FORMAT;
+    version: number;
+    exportedAt: string;
+    cities: CityData[];
+    centers: RegisteredCenter[];
+    telemetry: GeminiCallTelemetry[];
+}
+
+export interface ProjectBundleSummary {
+    exportedAt: string;
+    stateCount: number;
+    districtCount: number;
+    pincodeCount: number;
+    scannedPincodeCount: number;
+    centerCount: number;
+    telemetryCount: number;
+}
+
+const PINCODE_STATUSES = new Set(['pending', 'queued', 'scanning', 'scanned', 'error', 'retrying', 'skipped']);
+const CITY_STATUSES = new Set(['idle', 'running', 'stopped', 'completed', 'error']);
+// Keeps the error list readable when a file is badly malformed.
+const MAX_REPORTED_ERRORS = 20;
+
+export const createProjectBundle = (
+    groupedCities: Record<string, CityData[]>,
+    centerRegistry: CenterRegistry,
+    telemetry: GeminiCallTelemetry[]
+): ProjectBundle => ({
+    format: PROJECT_BUNDLE_FORMAT,
+    version: PROJECT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    cities: Object.values(groupedCities).flat(),
+    centers: Object.values(centerRegistry),
+    telemetry,
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const validateRun = (run: unknown, path: string, errors: string[]) => {
+    if (!isRecord(run) || typeof run.number !== 'number' || typeof run.startedAt !== 'string' || !Array.isArray(run.centers)) {
+        errors.push(`${path} must have a number, a startedAt date, and a centers array.`);
+    } else if (!run.centers.every(snapshot => isRecord(snapshot) && typeof snapshot.centerId === 'string')) {
+        errors.push(`${path}.centers must each have a string centerId.`);
+    }
+};
+
+const validateCity = (city: unknown, path: string, errors: string[]) => {
+    if (!isRecord(city)) {
+        errors.push(`${path} is not an object.`);
+        return;
+    }
+    if (typeof city.name !== 'string' || !city.name) errors.push(`${path}.name must be a non-empty string.`);
+    if (typeof city.stateName !== 'string' || !city.stateName) errors.push(`${path}.stateName must be a non-empty string.`);
+    if (typeof city.population !== 'number') errors.push(`${path}.population must be a number.`);
+    if (!CITY_STATUSES.has(city.status as string)) errors.push(`${path}.status "${String(city.status)}" is not a known status.`);
+    if (!isStringArray(city.centerIds)) errors.push(`${path}.centerIds must be an array of strings.`);
+    if (!Array.isArray(city.pincodes)) {
+        errors.push(`${path}.pincodes must be an array.`);
+        return;
+    }
+    city.pincodes.forEach((pincode, index) => {
+        if (!isRecord(pincode) || typeof pincode.code !== 'string' || !PINCODE_STATUSES.has(pincode.status as string)) {
+            errors.push(`${path}.pincodes[${index}] must have a string code and a known status.`);
+        } else if (pincode.centerIds !== undefined && !isStringArray(pincode.centerIds)) {
+            errors.push(`${path}.pincodes[${index}].centerIds must be an array of strings.`);
+        }
+    });
+    if (city.currentRun !== undefined) validateRun(city.currentRun, `${path}.currentRun`, errors);
+    if (city.runHistory !== undefined) {
+        if (!Array.isArray(city.runHistory)) {
+            errors.push(`${path}.runHistory must be an array.`);
+        } else {
+            city.runHistory.forEach((run, index) => validateRun(run, `${path}.runHistory[${index}]`, errors));
+        }
+    }
+};
+
+const validateCenter = (center: unknown, path: string, errors: string[]) => {
+    if (!isRecord(center)) {
+        errors.push(`${path} is not an object.`);
+        return;
+    }
+    if (typeof center.id !== 'string' || !center.id) errors.push(`${path}.id must be a non-empty string.`);
+    if (typeof center.centerName !== 'string') errors.push(`${path}.centerName must be a string.`);
+    if (typeof center.address !== 'string') errors.push(`${path}.address must be a string.`);
+    if (!Array.isArray(center.sightings) || center.sightings.length === 0) errors.push(`${path}.sightings must be a non-empty array.`);
+    if (center.confidence !== undefined && (typeof center.confidence !== 'number' || center.confidence < 0 || center.confidence > 1)) {
+        errors.push(`${path}.confidence must be a number from 0 to 1.`);
+    }
+    if (center.review !== undefined && (!isRecord(center.review) || !isReviewStatus(center.review.status)
+        || typeof center.review.notes !== 'string' || !isStringArray(center.review.editedFields))) {
+        errors.push(`${path}.review must have a valid status, notes, and editedFields.`);
+    }
+    if (center.sources !== undefined && (!Array.isArray(center.sources) || !center.sources.every(source => isRecord(source) && typeof source.uri === 'string'))) {
+        errors.push(`${path}.sources must be an array of { uri } objects.`);
+    }
+    if (center.modalities !== undefined && !isStringArray(center.modalities)) {
+        errors.push(`${path}.modalities must be an array of strings.`);
+    }
+};
+
+const validateTelemetry = (entry: unknown, path: string, errors: string[]) => {
+    if (!isRecord(entry) || typeof entry.id !== 'string' || typeof entry.pincode !== 'string'
+        || (entry.stage !== 'grounding' && entry.stage !== 'extraction')
+        || (entry.status !== 'success' && entry.status !== 'error')) {
+        errors.push(`${path} is not a valid telemetry record.`);
+    }
+};
+
+/** Returns a list of problems; an empty list means the value is a usable bundle. */
+export const validateProjectBundle = (value: unknown): string[] => {
+    const errors: string[] = [];
+    if (!isRecord(value)) {
+        return ['The file does not contain a JSON object.'];
+    }
+    if (value.format !== PROJECT_BUNDLE_FORMAT) {
+        return [`Unrecognized format "${String(value.format)}"; expected "${PROJECT_BUNDLE_FORMAT}".`];
+    }
+    if (typeof value.version !== 'number' || value.version > PROJECT_BUNDLE_VERSION) {
+        return [`Bundle version ${String(value.version)} is not supported (this app reads up to version ${PROJECT_BUNDLE_VERSION}).`];
+    }
+    if (!Array.isArray(value.cities)) errors.push('cities must be an array.');
+    if (!Array.isArray(value.centers)) errors.push('centers must be an array.');
+    if (!Array.isArray(value.telemetry)) errors.push('telemetry must be an array.');
+    if (errors.length > 0) {
+        return errors;
+    }
+
+    (value.cities as unknown[]).forEach((city, index) => validateCity(city, `cities[${index}]`, errors));
+    (value.centers as unknown[]).forEach((center, index) => validateCenter(center, `centers[${index}]`, errors));
+    (value.telemetry as unknown[]).forEach((entry, index) => validateTelemetry(entry, `telemetry[${index}]`, errors));
+
+    const centerIds = new Set((value.centers as Record<string, unknown>[]).map(center => center.id));
+    (value.cities as Record<string, unknown>[]).forEach((city, index) => {
+        if (isStringArray(city.centerIds)) {
+            const missing = city.centerIds.filter(id => !centerIds.has(id));
+            if (missing.length > 0) errors.push(`cities[${index}] references ${missing.length} unknown center ID(s).`);
+        }
+    });
+
+    if (errors.length > MAX_REPORTED_ERRORS) {
+        return [...errors.slice(0, MAX_REPORTED_ERRORS), `…and ${errors.length - MAX_REPORTED_ERRORS} more problems.`];
+    }
+    return errors;
+};
+
+/** Parses and validates bundle JSON, throwing an error that lists every problem found. */
+export const parseProjectBundle = (text: string): ProjectBundle => {
+    let value: unknown;
+    try {
+        value = JSON.parse(text.replace(/^\uFEFF/, ''));
+    } catch (error) {
+        throw new Error(`The file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const errors = validateProjectBundle(value);
+    if (errors.length > 0) {
+        throw new Error(errors.join('\n'));
+    }
+
+    const bundle = value as ProjectBundle;
+    // Work cannot be in flight on import; running districts come back as stopped and resumable.
+    return {
+        ...bundle,
+        cities: bundle.cities.map(city => releaseCityFromQueue(city, city.status === 'running' ? 'stopped' : city.status)),
+    };
+};
+
+export const summarizeProjectBundle = (bundle: ProjectBundle): ProjectBundleSummary => ({
+    exportedAt: bundle.exportedAt,
+    stateCount: new Set(bundle.cities.map(city => city.stateName)).size,
+    districtCount: bundle.cities.length,
+    pincodeCount: bundle.cities.reduce((total, city) => total + city.pincodes.length, 0),
+    scannedPincodeCount: bundle.cities.reduce((total, city) => total + city.pincodes.filter(p => p.status === 'scanned').length, 0),
+    centerCount: bundle.centers.length,
+    telemetryCount: bundle.telemetry.length,
+});
+
+/**
+ * Folds imported centers into an existing registry through the same fuzzy matching used
+ * during discovery, and rewrites the imported cities' center IDs to the canonical ones.
+ */
+export const mergeBundleCenters = (registry: CenterRegistry, bundle: ProjectBundle) => {
+    const entries: CenterSightingEntry[] = [];
+    const importedIds: string[] = [];
+    for (const { id, sightings, firstSeenAt: _firstSeenAt, updatedAt: _updatedAt, review: _review, ...center } of bundle.centers) {
+        for (const sighting of sightings) {
+            entries.push({ center, sighting });
+            importedIds.push(id);
+        }
+    }
+
+    const result = registerCenterSightings(registry, entries);
+    const idMap = new Map<string, string>();
+    importedIds.forEach((id, index) => idMap.set(id, result.centerIds[index]));
+
+    const mergedRegistry = { ...result.registry };
+    for (const imported of bundle.centers) {
+        const targetId = idMap.get(imported.id);
+        if (targetId && mergedRegistry[targetId]) {
+            mergedRegistry[targetId] = adoptImportedReview(mergedRegistry[targetId], imported);
+        }
+    }
+
+    const remapId = (id: string) => idMap.get(id) ?? id;
+    const remapIds = (ids: string[]) => Array.from(new Set(ids.map(remapId)));
+    const cities = bundle.cities.map(city => {
+        const centerIds = remapIds(city.centerIds);
+        const pincodes = city.pincodes.map(p => (p.centerIds ? { ...p, centerIds: remapIds(p.centerIds) } : p));
+        const runs = {
+            ...(city.currentRun ? { currentRun: remapRunCenterIds(city.currentRun, remapId) } : {}),
+            ...(city.runHistory ? { runHistory: city.runHistory.map(run => remapRunCenterIds(run, remapId)) } : {}),
+        };
+        return { ...city, ...runs, pincodes, centerIds, centersFound: centerIds.length };
+    });
+
+    return { registry: mergedRegistry, cities };
+};
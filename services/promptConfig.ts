@@ -0,0 +1,271 @@
+import { CenterRegistry, CityData } from '../types';
+import { getReviewStatus } from './centerReview';
+
+export const GEMINI_MODEL = 'gemini-2.5-pro';
+
+/** Offered in the editor; any other model name can be typed in. */
+export const SUGGESTED_MODELS = ['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'];
+
+export type PromptStage = 'grounding' | 'extraction';
+
+export const PROMPT_STAGES: PromptStage[] = ['grounding', 'extraction'];
+
+/** Left to the model's defaults when unset. */
+export interface GenerationSettings {
+    temperature?: number;
+    topP?: number;
+    maxOutputTokens?: number;
+}
+
+export interface StagePromptConfig extends GenerationSettings {
+    model: string;
+    /** Text with `{{placeholder}}` slots; see `PROMPT_PLACEHOLDERS`. */
+    template: string;
+}
+
+/** A saved prompt configuration. Saved versions are never changed; saving an edit adds a version. */
+export interface PromptConfig {
+    name: string;
+    version: number;
+    /** Missing on the built-in default. */
+    createdAt?: string;
+    notes?: string;
+    grounding: StagePromptConfig;
+    extraction: StagePromptConfig;
+}
+
+export interface PromptVariables {
+    pincode: string;
+    district: string;
+    state: string;
+    /** Empty when no postal directory lists the pincode. */
+    locality?: string;
+    groundedText?: string;
+}
+
+export const PROMPT_PLACEHOLDERS: Record<PromptStage, { name: keyof PromptVariables; description: string; required?: boolean }[]> = {
+    grounding: [
+        { name: 'pincode', description: 'The 6-digit pincode being scanned', required: true },
+        { name: 'district', description: 'Its district, as named in the CSV' },
+        { name: 'state', description: 'Its state' },
+        { name: 'locality', description: 'Its main post office from the postal directory; empty if not imported' },
+    ],
+    extraction: [
+        { name: 'pincode', description: 'The 6-digit pincode being scanned' },
+        { name: 'district', description: 'Its district, as named in the CSV' },
+        { name: 'state', description: 'Its state' },
+        { name: 'locality', description: 'Its main post office from the postal directory; empty if not imported' },
+        { name: 'groundedText', description: 'The grounding answer to extract centers from', required: true },
+    ],
+};
+
+const DEFAULT_GROUNDING_TEMPLATE = `Find diagnostic centers, imaging centers, or hospitals near pincode {{pincode}}, India, that have a CT scanner.
+For each one, gather detailed information from Google Search and Maps regarding the services they offer, paying close attention to any mention of "CT Scan", "Computed Tomography", or related imaging services.
+Also, collect their name, address, and contact details.`;
+
+const DEFAULT_EXTRACTION_TEMPLATE = `Analyze the following text which contains information about diagnostic centers. Based ONLY on this text, identify and extract details for centers that have a CT (Computed Tomography) scanner, whether the text confirms it or it can reasonably be inferred.
+
+For each center, provide the following details:
+1.  **centerName**: The full name of the center.
+2.  **address**: The complete address, making sure to include the 6-digit pincode.
+3.  **contactDetails**: The primary phone number.
+4.  **doctorDetails**: A list of any doctor names mentioned.
+5.  **googleMapsLink**: A Google Maps search URL for the center's name and address (e.g., "https://www.google.com/maps/search/?api=1&query=Center+Name+Address").
+6.  **reasoning**: A concise, one-sentence summary explaining the evidence from the text that indicates a CT scanner is available (e.g., "The center's website explicitly lists 'CT Scan' as a provided service.").
+7.  **coordinates**: The latitude and longitude, only if the text states them. Omit this field otherwise; never guess.
+8.  **evidenceCategory**: "explicit-listing" if CT scanning is listed as a service, "equipment-mention" if the text mentions a CT scanner or machine without listing the service, or "inferred" if it is only implied by the type of facility (e.g., a large multispeciality hospital with a radiology department).
+9.  **confidence**: A number from 0 to 1 for how likely the center currently offers CT scans. Use at least 0.8 only for explicit listings, and at most 0.5 for inferred centers.
+
+Also provide these optional fields when the text states them; omit any that it does not, and never guess:
+10. **modalities**: Other imaging offered, from MRI, X-ray, Ultrasound and PET-CT.
+11. **ctScanner**: The CT scanner's slice count and manufacturer.
+12. **operatingHours** and **isOpen24x7**: Opening hours, and whether it is open round the clock.
+13. **ownership**: "government", "private-chain" or "standalone".
+14. **chainName**: The chain or brand name for chain centers.
+15. **website** and **email**: The center's own website and contact email.
+
+If the text does not suggest a CT scanner at any location, or if no centers are mentioned, return an empty array.
+
+Text to analyze:
+---
+{{groundedText}}
+---`;
+
+/** The prompts the app has always used, kept as version 1 so earlier results compare against it. */
+export const DEFAULT_PROMPT_CONFIG: PromptConfig = {
+    name: 'default',
+    version: 1,
+    grounding: { model: GEMINI_MODEL, template: DEFAULT_GROUNDING_TEMPLATE },
+    extraction: { model: GEMINI_MODEL, template: DEFAULT_EXTRACTION_TEMPLATE },
+};
+
+export const formatPromptVersion = (config: Pick<PromptConfig, 'name' | 'version'>) => `${config.name}@${config.version}`;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Fills `{{placeholder}}` slots; unknown placeholders are left as written. */
+export const renderPrompt = (template: string, variables: PromptVariables) =>
+    template.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+        const value = (variables as unknown as Record<string, string | undefined>)[name];
+        return value ?? match;
+    });
+
+export const listPlaceholders = (template: string) =>
+    Array.from(new Set(Array.from(template.matchAll(PLACEHOLDER_PATTERN), match => match[1])));
+
+const isOptionalNumberInRange = (value: unknown, min: number, max: number) =>
+    value === undefined || (typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max);
+
+/** Returns every problem with a configuration; an empty list means it can be saved and used. */
+export const validatePromptConfig = (config: unknown): string[] => {
+    if (typeof config !== 'object' || config === null) {
+        return ['The prompt configuration is not an object.'];
+    }
+    const candidate = config as Partial<PromptConfig>;
+    const errors: string[] = [];
+    if (typeof candidate.name !== 'string' || !/^[\w.-]+$/.test(candidate.name)) {
+        errors.push('The name must be letters, digits, dots, dashes, or underscores.');
+    }
+    if (typeof candidate.version !== 'number' || !Number.isInteger(candidate.version) || candidate.version < 1) {
+        errors.push('The version must be a positive whole number.');
+    }
+    for (const stage of PROMPT_STAGES) {
+        const settings = candidate[stage];
+        if (typeof settings !== 'object' || settings === null) {
+            errors.push(`The ${stage} settings are missing.`);
+            continue;
+        }
+        if (typeof settings.model !== 'string' || !settings.model.trim()) errors.push(`The ${stage} model is missing.`);
+        if (typeof settings.template !== 'string' || !settings.template.trim()) {
+            errors.push(`The ${stage} prompt is empty.`);
+            continue;
+        }
+        const known = new Set<string>(PROMPT_PLACEHOLDERS[stage].map(placeholder => placeholder.name));
+        const used = listPlaceholders(settings.template);
+        used.filter(name => !known.has(name)).forEach(name => errors.push(`The ${stage} prompt uses an unknown placeholder {{${name}}}.`));
+        PROMPT_PLACEHOLDERS[stage]
+            .filter(placeholder => placeholder.required && !used.includes(placeholder.name))
+            .forEach(placeholder => errors.push(`The ${stage} prompt must include {{${placeholder.name}}}.`));
+        if (!isOptionalNumberInRange(settings.temperature, 0, 2)) errors.push(`The ${stage} temperature must be between 0 and 2.`);
+        if (!isOptionalNumberInRange(settings.topP, 0, 1)) errors.push(`The ${stage} top-p must be between 0 and 1.`);
+        if (settings.maxOutputTokens !== undefined && (!Number.isInteger(settings.maxOutputTokens) || settings.maxOutputTokens < 1)) {
+            errors.push(`The ${stage} output token limit must be a positive whole number.`);
+        }
+    }
+    return errors;
+};
+
+/** Only the settings that are set, in the shape the Gemini SDK's `config` takes. */
+export const getGenerationConfig = ({ temperature, topP, maxOutputTokens }: GenerationSettings) => ({
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(topP !== undefined ? { topP } : {}),
+    ...(maxOutputTokens !== undefined ? { maxOutputTokens } : {}),
+});
+
+export interface PromptConfigLibrary {
+    /** Every saved version, including the built-in default, oldest first. */
+    versions: PromptConfig[];
+    /** `name@version` of the configuration new scans use. */
+    activeVersion: string;
+}
+
+const PROMPT_CONFIG_STORAGE_KEY = 'ctScanDiscovererPromptConfigs';
+
+export const DEFAULT_PROMPT_LIBRARY: PromptConfigLibrary = {
+    versions: [DEFAULT_PROMPT_CONFIG],
+    activeVersion: formatPromptVersion(DEFAULT_PROMPT_CONFIG),
+};
+
+export const findPromptConfig = (library: PromptConfigLibrary, promptVersion: string) =>
+    library.versions.find(config => formatPromptVersion(config) === promptVersion);
+
+/** The active configuration, or the default if the active one has gone missing. */
+export const getActivePromptConfig = (library: PromptConfigLibrary) =>
+    findPromptConfig(library, library.activeVersion) ?? DEFAULT_PROMPT_CONFIG;
+
+/** Saves an edit as the next version of its name. */
+export const addPromptConfigVersion = (
+    library: PromptConfigLibrary,
+    draft: Omit<PromptConfig, 'version' | 'createdAt'>
+): { library: PromptConfigLibrary; config: PromptConfig } => {
+    const latest = Math.max(0, ...library.versions.filter(config => config.name === draft.name).map(config => config.version));
+    const config: PromptConfig = { ...draft, version: latest + 1, createdAt: new Date().toISOString() };
+    return { library: { ...library, versions: [...library.versions, config] }, config };
+};
+
+/** Stored versions are validated one by one; the built-in default is always present. */
+export const loadPromptLibrary = (): PromptConfigLibrary => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(PROMPT_CONFIG_STORAGE_KEY) ?? 'null') as Partial<PromptConfigLibrary> | null;
+        if (stored && Array.isArray(stored.versions)) {
+            const defaultVersion = formatPromptVersion(DEFAULT_PROMPT_CONFIG);
+            const versions = [
+                DEFAULT_PROMPT_CONFIG,
+                ...stored.versions.filter(config =>
+                    validatePromptConfig(config).length === 0 && formatPromptVersion(config) !== defaultVersion),
+            ];
+            const library = { versions, activeVersion: typeof stored.activeVersion === 'string' ? stored.activeVersion : defaultVersion };
+            return findPromptConfig(library, library.activeVersion) ? library : { ...library, activeVersion: defaultVersion };
+        }
+    } catch (error) {
+        console.error('Failed to read prompt configurations', error);
+    }
+    return DEFAULT_PROMPT_LIBRARY;
+};
+
+export const savePromptLibrary = (library: PromptConfigLibrary) => {
+    try {
+        const defaultVersion = formatPromptVersion(DEFAULT_PROMPT_CONFIG);
+        const versions = library.versions.filter(config => formatPromptVersion(config) !== defaultVersion);
+        localStorage.setItem(PROMPT_CONFIG_STORAGE_KEY, JSON.stringify({ versions, activeVersion: library.activeVersion }));
+    } catch (error) {
+        console.error('Failed to save prompt configurations', error);
+    }
+};
+
+export interface PromptVersionStats {
+    promptVersion: string;
+    /** Successful pincode scans, counted from each pincode's recent attempt history. */
+    scans: number;
+    returnedCenters: number;
+    /** Distinct centers with at least one sighting from this version. */
+    centers: number;
+    verified: number;
+    rejected: number;
+}
+
+/**
+ * Tallies results per prompt version so versions can be compared: how much each scan returned
+ * and how reviewers judged the centers it found. Results from before versioning are left out.
+ */
+export const summarizePromptVersions = (groupedCities: Record<string, CityData[]>, registry: CenterRegistry): PromptVersionStats[] => {
+    const stats = new Map<string, PromptVersionStats>();
+    const getStats = (promptVersion: string) => {
+        if (!stats.has(promptVersion)) {
+            stats.set(promptVersion, { promptVersion, scans: 0, returnedCenters: 0, centers: 0, verified: 0, rejected: 0 });
+        }
+        return stats.get(promptVersion)!;
+    };
+
+    Object.values(groupedCities).flat().forEach(city => city.pincodes.forEach(pincode => {
+        (pincode.history ?? []).forEach(attempt => {
+            if (attempt.outcome !== 'scanned' || !attempt.provenance) return;
+            const entry = getStats(attempt.provenance.promptVersion);
+            entry.scans++;
+            entry.returnedCenters += attempt.returnedCount ?? 0;
+        });
+    }));
+
+    Object.values(registry).forEach(center => {
+        const versions = new Set(center.sightings.flatMap(sighting => (sighting.provenance ? [sighting.provenance.promptVersion] : [])));
+        const status = getReviewStatus(center);
+        versions.forEach(promptVersion => {
+            const entry = getStats(promptVersion);
+            entry.centers++;
+            if (status === 'verified') entry.verified++;
+            if (status === 'rejected') entry.rejected++;
+        });
+    });
+
+    return Array.from(stats.values()).sort((a, b) => a.promptVersion.localeCompare(b.promptVersion));
+};
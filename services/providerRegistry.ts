@@ -0,0 +1,41 @@
+import { DiscoveryProvider, DiscoveryProviderId } from './discoveryProvider';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+
+const PROVIDER_STORAGE_KEY = 'ctScanDiscovererProvider';
+
+const providers: Record<DiscoveryProviderId, DiscoveryProvider> = {
+    gemini: geminiProvider,
+    mock: mockProvider,
+};
+
+export const listDiscoveryProviders = (): DiscoveryProvider[] => Object.values(providers);
+
+export const getDiscoveryProvider = (id: DiscoveryProviderId): DiscoveryProvider => providers[id] ?? mockProvider;
+
+const isProviderId = (value: string | null): value is DiscoveryProviderId =>
+    value !== null && Object.prototype.hasOwnProperty.call(providers, value);
+
+/**
+ * Returns the provider chosen in a previous session, falling back to Gemini when a key is
+ * configured and to the offline fixtures otherwise.
+ */
+export const loadSelectedProviderId = (): DiscoveryProviderId => {
+    try {
+        const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+        if (isProviderId(stored)) {
+            return stored;
+        }
+    } catch (error) {
+        console.error('Failed to read discovery provider selection', error);
+    }
+    return geminiProvider.isAvailable() ? 'gemini' : 'mock';
+};
+
+export const saveSelectedProviderId = (id: DiscoveryProviderId) => {
+    try {
+        localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+    } catch (error) {
+        console.error('Failed to save discovery provider selection', error);
+    }
+};
@@ -0,0 +1,255 @@
+import { CenterRegistry, CityData, RegisteredCenter } from '../types';
+import { resolveCenters, summarizeSightings } from './centerRegistry';
+import { formatCtScanner } from './centerDetails';
+import { getReviewStatus, isRejected } from './centerReview';
+import { PincodeCheck, checkPincodeInDistrict, normalizeContact } from './contactNormalization';
+import { hasValidCoordinates } from './coverageMap';
+import { downloadFile } from './fileDownload';
+
+export type ResultsExportFormat = 'csv' | 'spreadsheet' | 'geojson';
+
+export const RESULTS_EXPORT_FORMATS: { id: ResultsExportFormat; label: string }[] = [
+    { id: 'csv', label: 'CSV' },
+    { id: 'spreadsheet', label: 'Excel' },
+    { id: 'geojson', label: 'GeoJSON' },
+];
+
+export interface ResultsExportOptions {
+    /** Rejected centers are left out unless this is set. */
+    includeRejected?: boolean;
+}
+
+/** One row per center per district that surfaced it. */
+export interface ResultsExportRow {
+    stateName: string;
+    district: string;
+    sourcePincodes: string[];
+    center: RegisteredCenter;
+    otherDistricts: string[];
+    pincodeCheck: PincodeCheck;
+}
+
+const rowAddress = (row: ResultsExportRow) => normalizeContact(row.center, row.district).address;
+const rowPhones = (row: ResultsExportRow) => normalizeContact(row.center, row.district).phones;
+// Sightings from before prompt versioning carry no provenance and are skipped.
+const rowProvenance = (row: ResultsExportRow) => row.center.sightings
+    .filter(s => s.cityName === row.district && s.stateName === row.stateName && s.provenance)
+    .map(s => s.provenance!);
+const joinDistinct = (values: string[]) => Array.from(new Set(values)).join('; ');
+
+const COLUMNS: { header: string; value: (row: ResultsExportRow) => string | number | undefined }[] = [
+    { header: 'State', value: row => row.stateName },
+    { header: 'District', value: row => row.district },
+    { header: 'Source Pincodes', value: row => row.sourcePincodes.join('; ') },
+    { header: 'Center ID', value: row => row.center.id },
+    { header: 'Center Name', value: row => row.center.centerName },
+    { header: 'Address', value: row => row.center.address },
+    { header: 'Address Line', value: row => rowAddress(row).line },
+    { header: 'Locality', value: row => rowAddress(row).locality },
+    { header: 'City', value: row => rowAddress(row).city },
+    { header: 'Address State', value: row => rowAddress(row).state },
+    { header: 'Address Pincode', value: row => rowAddress(row).pincode },
+    { header: 'Pincode Check', value: row => row.pincodeCheck },
+    { header: 'Contact Details', value: row => row.center.contactDetails || '' },
+    { header: 'Phones (E.164)', value: row => rowPhones(row).map(phone => phone.e164).join('; ') },
+    { header: 'Phone Types', value: row => rowPhones(row).map(phone => phone.type).join('; ') },
+    { header: 'Doctor Details', value: row => row.center.doctorDetails?.join('; ') || '' },
+    { header: 'Google Maps Link', value: row => row.center.googleMapsLink },
+    { header: 'Reasoning', value: row => row.center.reasoning },
+    { header: 'Evidence', value: row => row.center.evidenceCategory },
+    { header: 'Confidence', value: row => row.center.confidence },
+    { header: 'Sources', value: row => row.center.sources?.map(source => source.uri).join('; ') },
+    { header: 'Modalities', value: row => row.center.modalities?.join('; ') },
+    { header: 'CT Slice Count', value: row => row.center.ctScanner?.sliceCount },
+    { header: 'CT Manufacturer', value: row => row.center.ctScanner?.manufacturer },
+    { header: 'Operating Hours', value: row => row.center.operatingHours },
+    { header: 'Open 24x7', value: row => (row.center.isOpen24x7 === undefined ? undefined : row.center.isOpen24x7 ? 'yes' : 'no') },
+    { header: 'Ownership', value: row => row.center.ownership },
+    { header: 'Chain/Brand', value: row => row.center.chainName },
+    { header: 'Website', value: row => row.center.website },
+    { header: 'Email', value: row => row.center.email },
+    { header: 'Latitude', value: row => row.center.coordinates?.lat },
+    { header: 'Longitude', value: row => row.center.coordinates?.lng },
+    { header: 'Also Found In', value: row => row.otherDistricts.join('; ') },
+    { header: 'Prompt Versions', value: row => joinDistinct(rowProvenance(row).map(p => p.promptVersion)) },
+    { header: 'Models', value: row => joinDistinct(rowProvenance(row).flatMap(p => [p.groundingModel, p.extractionModel])) },
+    { header: 'Review Status', value: row => getReviewStatus(row.center) },
+    { header: 'Reviewer Notes', value: row => row.center.review?.notes },
+    { header: 'Reviewed At', value: row => row.center.review?.reviewedAt },
+    { header: 'Edited Fields', value: row => row.center.review?.editedFields.join('; ') },
+];
+
+export const buildExportRows = (
+    groupedCities: Record<string, CityData[]>,
+    registry: CenterRegistry,
+    { includeRejected = false }: ResultsExportOptions = {}
+): ResultsExportRow[] => {
+    const rows: ResultsExportRow[] = [];
+    for (const stateName of Object.keys(groupedCities).sort()) {
+        for (const city of groupedCities[stateName]) {
+            const districtLabel = `${city.name}, ${city.stateName}`;
+            for (const center of resolveCenters(registry, city.centerIds)) {
+                if (!includeRejected && isRejected(center)) continue;
+                const sourcePincodes = Array.from(new Set(
+                    center.sightings
+                        .filter(s => s.cityName === city.name && s.stateName === city.stateName && s.pincode)
+                        .map(s => s.pincode)
+                ));
+                rows.push({
+                    stateName: city.stateName,
+                    district: city.name,
+                    sourcePincodes,
+                    center,
+                    otherDistricts: summarizeSightings(center).districts.filter(d => d !== districtLabel),
+                    pincodeCheck: checkPincodeInDistrict(center, city),
+                });
+            }
+        }
+    }
+    return rows;
+};
+
+// Spreadsheet apps evaluate cells starting with these characters as formulas.
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+// Phone numbers such as "+91 11 4150 2000", alone or as a "; "-separated list, cannot carry
+// a formula and are left readable.
+const PHONE_LIKE = /^[+-]?[\d\s()-]+(?:[;,][+-]?[\d\s()-]+)*$/;
+
+/** Prefixes formula-like values with an apostrophe so they are shown as text, not evaluated. */
+export const neutralizeFormula = (value: string) =>
+    FORMULA_PREFIXES.some(prefix => value.startsWith(prefix)) && !PHONE_LIKE.test(value) ? `'${value}` : value;
+
+/**
+ * Quotes a CSV field, doubling embedded quotes, normalizing embedded line breaks to `\n`
+ * inside the quotes, and neutralizing leading formula characters.
+ */
+export const escapeCsvField = (field: string | number | undefined) => {
+    if (field === undefined || field === null) return '""';
+    if (typeof field === 'number') return `"${field}"`;
+    const text = neutralizeFormula(String(field).replace(/\r\n?/g, '\n'));
+    return `"${text.replace(/"/g, '""')}"`;
+};
+
+const UTF8_BOM = '\uFEFF';
+
+export const buildResultsCsv = (rows: ResultsExportRow[]) => {
+    const lines = [
+        COLUMNS.map(column => escapeCsvField(column.header)).join(','),
+        ...rows.map(row => COLUMNS.map(column => escapeCsvField(column.value(row))).join(',')),
+    ];
+    // Excel needs the BOM to detect UTF-8 and prefers CRLF row separators.
+    return UTF8_BOM + lines.join('\r\n');
+};
+
+const escapeXml = (value: string) =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/\r\n?|\n/g, '&#10;')
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const spreadsheetCell = (value: string | number | undefined) => {
+    if (typeof value === 'number') {
+        return `<Cell><Data ss:Type="Number">${value}</Data></Cell>`;
+    }
+    // Typed String cells are never evaluated, so formula prefixes need no apostrophe here.
+    return `<Cell><Data ss:Type="String">${escapeXml(value ?? '')}</Data></Cell>`;
+};
+
+/**
+ * Builds an Excel 2003 XML Spreadsheet. Excel, LibreOffice and Google Sheets open it
+ * directly with typed cells and wrapped multi-line text, without a zip library.
+ */
+export const buildResultsSpreadsheet = (rows: ResultsExportRow[], sheetName = 'CT Scan Centers') => {
+    const headerRow = `<Row>${COLUMNS.map(column => `<Cell ss:StyleID="header"><Data ss:Type="String">${escapeXml(column.header)}</Data></Cell>`).join('')}</Row>`;
+    const dataRows = rows.map(row => `<Row>${COLUMNS.map(column => spreadsheetCell(column.value(row))).join('')}</Row>`);
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<?mso-application progid="Excel.Sheet"?>',
+        '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+        '<Styles><Style ss:ID="header"><Font ss:Bold="1"/></Style><Style ss:ID="Default"><Alignment ss:WrapText="1" ss:Vertical="Top"/></Style></Styles>',
+        `<Worksheet ss:Name="${escapeXml(sheetName.slice(0, 31))}"><Table>`,
+        headerRow,
+        ...dataRows,
+        '</Table></Worksheet></Workbook>',
+    ].join('\n');
+};
+
+/** Centers without coordinates are skipped; each center appears once with all its districts. */
+export const buildResultsGeoJson = (rows: ResultsExportRow[]) => {
+    const features = new Map<string, object>();
+    for (const row of rows) {
+        const { center } = row;
+        if (!hasValidCoordinates(center) || features.has(center.id)) continue;
+        const { districts, pincodes } = summarizeSightings(center);
+        features.set(center.id, {
+            type: 'Feature',
+            id: center.id,
+            geometry: { type: 'Point', coordinates: [center.coordinates.lng, center.coordinates.lat] },
+            properties: {
+                centerName: center.centerName,
+                address: center.address,
+                contactDetails: center.contactDetails,
+                structuredAddress: rowAddress(row),
+                phones: rowPhones(row).map(({ e164, type }) => ({ e164, type })),
+                pincodeCheck: row.pincodeCheck,
+                doctorDetails: center.doctorDetails,
+                googleMapsLink: center.googleMapsLink,
+                reasoning: center.reasoning,
+                evidenceCategory: center.evidenceCategory,
+                confidence: center.confidence,
+                sources: center.sources ?? [],
+                modalities: center.modalities ?? [],
+                ctScanner: center.ctScanner,
+                ctScannerSummary: formatCtScanner(center.ctScanner),
+                operatingHours: center.operatingHours,
+                isOpen24x7: center.isOpen24x7,
+                ownership: center.ownership,
+                chainName: center.chainName,
+                website: center.website,
+                email: center.email,
+                reviewStatus: getReviewStatus(center),
+                reviewerNotes: center.review?.notes ?? '',
+                stateName: row.stateName,
+                district: row.district,
+                districts,
+                sourcePincodes: pincodes,
+            },
+        });
+    }
+    return { type: 'FeatureCollection', features: Array.from(features.values()) };
+};
+
+const FORMAT_OUTPUT: Record<ResultsExportFormat, { extension: string; mimeType: string }> = {
+    csv: { extension: 'csv', mimeType: 'text/csv;charset=utf-8;' },
+    spreadsheet: { extension: 'xml', mimeType: 'application/vnd.ms-excel' },
+    geojson: { extension: 'geojson', mimeType: 'application/geo+json' },
+};
+
+/** Builds and downloads the export. Returns the number of rows (or features) written. */
+export const downloadResults = (
+    groupedCities: Record<string, CityData[]>,
+    registry: CenterRegistry,
+    format: ResultsExportFormat,
+    fileBaseName: string,
+    options: ResultsExportOptions = {}
+) => {
+    const rows = buildExportRows(groupedCities, registry, options);
+    let content: string;
+    let count = rows.length;
+    if (format === 'csv') {
+        content = buildResultsCsv(rows);
+    } else if (format === 'spreadsheet') {
+        content = buildResultsSpreadsheet(rows);
+    } else {
+        const collection = buildResultsGeoJson(rows);
+        content = JSON.stringify(collection, null, 2);
+        count = collection.features.length;
+    }
+
+    const { extension, mimeType } = FORMAT_OUTPUT[format];
+    downloadFile(content, `${fileBaseName.replace(/\s+/g, '_')}.${extension}`, mimeType);
+    return count;
+};
@@ -0,0 +1,267 @@
+import { CityData, GeoCoordinates, Pincode, PincodeStatus, ScanPlan, ScanPlanAction, ScanPlanDecision, ScanPlanGroup } from '../types';
+import { OFFICE_RANK } from './postalDirectory';
+
+export interface ScanPlanSettings {
+    /** When off, districts scan every pincode and any existing plan is dropped on the next start. */
+    enabled: boolean;
+    /** Default for new plans; each district's plan keeps its own copy. */
+    yieldThreshold: number;
+}
+
+export type ScanPlanGroupState = 'sampling' | 'expanding' | 'skipped' | 'done';
+
+export interface ScanPlanGroupSummary {
+    group: ScanPlanGroup;
+    state: ScanPlanGroupState;
+    released: number;
+    scanned: number;
+    skipped: number;
+    lastDecision?: ScanPlanDecision;
+}
+
+export interface ScanPlanSummary {
+    groups: ScanPlanGroupSummary[];
+    skippedPincodes: number;
+    /** Pincodes in groups that are still open but not yet released. */
+    heldPincodes: number;
+}
+
+const SCAN_PLAN_STORAGE_KEY = 'ctScanDiscovererScanPlanning';
+
+export const DEFAULT_SCAN_PLAN_SETTINGS: ScanPlanSettings = { enabled: false, yieldThreshold: 0.5 };
+
+// Pincodes whose post offices are this close share a group; without coordinates, the first five
+// digits do, since consecutive codes are usually neighbouring delivery areas.
+const PROXIMITY_RADIUS_KM = 3;
+const PREFIX_LENGTH = 5;
+// Share of each group scanned as representatives; later waves are the same size.
+const REPRESENTATIVE_SHARE = 0.2;
+
+const SETTLED_STATUSES: PincodeStatus[] = ['scanned', 'error'];
+
+const distanceKm = (a: GeoCoordinates, b: GeoCoordinates) => {
+    const toRadians = (degrees: number) => degrees * Math.PI / 180;
+    const dLat = toRadians(b.lat - a.lat);
+    const dLng = toRadians(b.lng - a.lng);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+    return 6371 * 2 * Math.asin(Math.sqrt(h));
+};
+
+const pickRepresentatives = (members: Pincode[]) => {
+    const count = Math.max(1, Math.ceil(members.length * REPRESENTATIVE_SHARE));
+    // Head and sub offices first: they sit in the busier part of the area.
+    return [...members]
+        .sort((a, b) => (OFFICE_RANK[b.postal?.officeType ?? 'branch'] - OFFICE_RANK[a.postal?.officeType ?? 'branch']) || a.code.localeCompare(b.code))
+        .slice(0, count)
+        .map(p => p.code);
+};
+
+const toGroup = (id: string, label: string, members: Pincode[]): ScanPlanGroup => ({
+    id,
+    label,
+    pincodes: members.map(p => p.code),
+    waves: [pickRepresentatives(members)],
+    decisions: [],
+});
+
+/**
+ * Groups a district's pincodes by the distance between their post offices when a postal
+ * directory supplied coordinates, and by code prefix otherwise.
+ */
+export const groupPincodes = (pincodes: Pincode[]): ScanPlanGroup[] => {
+    const sorted = [...pincodes].sort((a, b) => a.code.localeCompare(b.code));
+    const nearby: { seed: Pincode; position: GeoCoordinates; members: Pincode[] }[] = [];
+    const byPrefix = new Map<string, Pincode[]>();
+    for (const pincode of sorted) {
+        const position = pincode.postal?.coordinates;
+        if (position) {
+            const cluster = nearby.find(candidate => distanceKm(candidate.position, position) <= PROXIMITY_RADIUS_KM);
+            if (cluster) cluster.members.push(pincode);
+            else nearby.push({ seed: pincode, position, members: [pincode] });
+        } else {
+            const prefix = pincode.code.slice(0, PREFIX_LENGTH);
+            byPrefix.set(prefix, [...(byPrefix.get(prefix) ?? []), pincode]);
+        }
+    }
+    return [
+        ...nearby.map(({ seed, members }) => toGroup(`near-${seed.code}`, `Near ${seed.postal?.locality ?? seed.code}`, members)),
+        ...Array.from(byPrefix, ([prefix, members]) => toGroup(`prefix-${prefix}`, `${prefix}x`, members)),
+    ];
+};
+
+export const buildScanPlan = (city: CityData, yieldThreshold: number): ScanPlan => ({
+    yieldThreshold,
+    createdAt: new Date().toISOString(),
+    groups: groupPincodes(city.pincodes),
+});
+
+const releasedCodes = (group: ScanPlanGroup) => new Set(group.waves.flat());
+
+const isClosed = (group: ScanPlanGroup) => group.decisions[group.decisions.length - 1]?.action === 'skip';
+
+const setStatuses = (pincodes: Pincode[], codes: Set<string>, status: PincodeStatus, unless: PincodeStatus[] = ['scanned']) =>
+    pincodes.map(p => (codes.has(p.code) && !unless.includes(p.status) ? { ...p, status } : p));
+
+/** Pincodes the plan has not released wait as `pending`, or `skipped` once their group is closed. */
+const holdUnreleasedPincodes = (city: CityData, plan: ScanPlan): CityData => {
+    let pincodes = city.pincodes;
+    for (const group of plan.groups) {
+        const released = releasedCodes(group);
+        const held = new Set(group.pincodes.filter(code => !released.has(code)));
+        pincodes = setStatuses(pincodes, held, isClosed(group) ? 'skipped' : 'pending');
+    }
+    return { ...city, pincodes };
+};
+
+/** New centers per successfully scanned pincode of the wave, or undefined when none succeeded. */
+const measureYield = (wave: string[], byCode: Map<string, Pincode>) => {
+    const scanned = wave.map(code => byCode.get(code)).filter((p): p is Pincode => p?.status === 'scanned');
+    if (scanned.length === 0) return undefined;
+    return scanned.reduce((total, p) => total + (p.keptCount ?? 0), 0) / scanned.length;
+};
+
+/**
+ * Judges every group whose latest wave has settled: while it still yields at least the
+ * threshold, the next wave is queued; below it, the rest of the group is skipped. A wave whose
+ * scans all failed says nothing about the area, so the group keeps expanding.
+ */
+const decideGroups = (city: CityData, plan: ScanPlan): CityData => {
+    let pincodes = city.pincodes;
+    const groups = plan.groups.map(group => {
+        let current = group;
+        for (;;) {
+            const byCode = new Map(pincodes.map(p => [p.code, p]));
+            const released = releasedCodes(current);
+            const unreleased = current.pincodes.filter(code => !released.has(code) && byCode.has(code));
+            const lastWave = current.waves[current.waves.length - 1] ?? [];
+            const settled = lastWave.every(code => !byCode.has(code) || SETTLED_STATUSES.includes(byCode.get(code)!.status));
+            if (isClosed(current) || unreleased.length === 0 || !settled) return current;
+
+            const waveYield = measureYield(lastWave, byCode);
+            const action: ScanPlanAction = waveYield === undefined || waveYield >= plan.yieldThreshold ? 'expand' : 'skip';
+            const decision: ScanPlanDecision = {
+                action,
+                by: 'planner',
+                ...(waveYield !== undefined ? { yield: Math.round(waveYield * 100) / 100 } : {}),
+                decidedAt: new Date().toISOString(),
+            };
+            if (action === 'skip') {
+                pincodes = setStatuses(pincodes, new Set(unreleased), 'skipped');
+                return { ...current, decisions: [...current.decisions, decision] };
+            }
+            const nextWave = unreleased.slice(0, Math.max(1, current.waves[0]?.length ?? 1));
+            pincodes = setStatuses(pincodes, new Set(nextWave), 'queued');
+            current = { ...current, waves: [...current.waves, nextWave], decisions: [...current.decisions, decision] };
+        }
+    });
+    return { ...city, pincodes, scanPlan: { ...plan, groups } };
+};
+
+/**
+ * Moves a running, planned district forward after a pincode settles. Pincodes it releases are
+ * marked `queued`; the caller enqueues them (see `listReleasedQueuedCodes`).
+ */
+export const advanceScanPlan = (city: CityData): CityData =>
+    city.status === 'running' && city.scanPlan ? decideGroups(city, city.scanPlan) : city;
+
+/** Re-applies an existing plan to a district that was just prepared for discovery. */
+export const applyScanPlan = (city: CityData): CityData =>
+    city.scanPlan ? decideGroups(holdUnreleasedPincodes(city, city.scanPlan), city.scanPlan) : city;
+
+/** Drops the plan; pincodes it skipped are scanned with the rest. */
+export const dropScanPlan = ({ scanPlan: _scanPlan, ...city }: CityData): CityData => ({
+    ...city,
+    pincodes: city.pincodes.map(p => (p.status === 'skipped' ? { ...p, status: city.status === 'running' ? 'queued' : 'pending' } : p)),
+});
+
+/**
+ * Plans a district that was just prepared for discovery. A district discovered from scratch,
+ * or one without a plan, gets a new plan; a resumed one keeps its groups and decisions.
+ */
+export const planCityScan = (city: CityData, settings: ScanPlanSettings, restart: boolean): CityData => {
+    if (!settings.enabled) return dropScanPlan(city);
+    const scanPlan = restart || !city.scanPlan ? buildScanPlan(city, settings.yieldThreshold) : city.scanPlan;
+    return applyScanPlan({ ...city, scanPlan });
+};
+
+/**
+ * Records a reviewer's decision for a group. Expanding releases every remaining pincode,
+ * including ones the planner skipped, as `queued`; skipping leaves released pincodes alone.
+ */
+export const overrideScanPlanGroup = (city: CityData, groupId: string, action: ScanPlanAction): CityData => {
+    const plan = city.scanPlan;
+    const group = plan?.groups.find(candidate => candidate.id === groupId);
+    if (!plan || !group) return city;
+    const released = releasedCodes(group);
+    const remaining = group.pincodes.filter(code => !released.has(code));
+    const decision: ScanPlanDecision = { action, by: 'user', decidedAt: new Date().toISOString() };
+    const updated: ScanPlanGroup = {
+        ...group,
+        waves: action === 'expand' && remaining.length > 0 ? [...group.waves, remaining] : group.waves,
+        decisions: [...group.decisions, decision],
+    };
+    return {
+        ...city,
+        pincodes: setStatuses(city.pincodes, new Set(remaining), action === 'expand' ? 'queued' : 'skipped'),
+        scanPlan: { ...plan, groups: plan.groups.map(candidate => (candidate.id === groupId ? updated : candidate)) },
+    };
+};
+
+export const setScanPlanThreshold = (city: CityData, yieldThreshold: number): CityData =>
+    city.scanPlan ? { ...city, scanPlan: { ...city.scanPlan, yieldThreshold } } : city;
+
+/** Released pincodes waiting to be scanned; enqueuing them again is harmless. */
+export const listReleasedQueuedCodes = (city: CityData) => {
+    if (!city.scanPlan) return [];
+    const released = new Set(city.scanPlan.groups.flatMap(group => group.waves.flat()));
+    return city.pincodes.filter(p => p.status === 'queued' && released.has(p.code)).map(p => p.code);
+};
+
+export const summarizeScanPlan = (city: CityData): ScanPlanSummary | undefined => {
+    if (!city.scanPlan) return undefined;
+    const byCode = new Map(city.pincodes.map(p => [p.code, p]));
+    const groups = city.scanPlan.groups.map(group => {
+        const members = group.pincodes.map(code => byCode.get(code)).filter((p): p is Pincode => p !== undefined);
+        const released = releasedCodes(group);
+        const scanned = members.filter(p => p.status === 'scanned').length;
+        const skipped = members.filter(p => p.status === 'skipped').length;
+        const state: ScanPlanGroupState = isClosed(group)
+            ? 'skipped'
+            : members.every(p => released.has(p.code) && SETTLED_STATUSES.includes(p.status))
+                ? 'done'
+                : group.waves.length > 1 ? 'expanding' : 'sampling';
+        return { group, state, released: released.size, scanned, skipped, lastDecision: group.decisions[group.decisions.length - 1] };
+    });
+    return {
+        groups,
+        skippedPincodes: groups.reduce((total, group) => total + group.skipped, 0),
+        heldPincodes: groups
+            .filter(group => group.state !== 'skipped')
+            .reduce((total, group) => total + group.group.pincodes.length - group.released, 0),
+    };
+};
+
+export const loadScanPlanSettings = (): ScanPlanSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(SCAN_PLAN_STORAGE_KEY) ?? 'null') as Partial<ScanPlanSettings> | null;
+        if (stored) {
+            return {
+                enabled: stored.enabled === true,
+                yieldThreshold: typeof stored.yieldThreshold === 'number' && stored.yieldThreshold >= 0
+                    ? stored.yieldThreshold
+                    : DEFAULT_SCAN_PLAN_SETTINGS.yieldThreshold,
+            };
+        }
+    } catch (error) {
+        console.error('Failed to read scan planning settings', error);
+    }
+    return DEFAULT_SCAN_PLAN_SETTINGS;
+};
+
+export const saveScanPlanSettings = (settings: ScanPlanSettings) => {
+    try {
+        localStorage.setItem(SCAN_PLAN_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error('Failed to save scan planning settings', error);
+    }
+};
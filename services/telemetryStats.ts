@@ -0,0 +1,245 @@
+import { downloadFile } from './fileDownload';
+import { GeminiCallStage, GeminiCallTelemetry } from './geminiService';
+import { escapeCsvField } from './resultsExport';
+
+export interface TelemetryFilter {
+    stage: GeminiCallStage | 'all';
+    status: GeminiCallTelemetry['status'] | 'all';
+    /** Substring matched against the pincode and the error message. */
+    search: string;
+}
+
+export const DEFAULT_TELEMETRY_FILTER: TelemetryFilter = { stage: 'all', status: 'all', search: '' };
+
+export interface StageLatency {
+    stage: GeminiCallStage;
+    calls: number;
+    errors: number;
+    p50Ms: number;
+    p90Ms: number;
+    p99Ms: number;
+    maxMs: number;
+}
+
+export interface ErrorGroup {
+    message: string;
+    count: number;
+    /** Share of all calls in the summarized set. */
+    rate: number;
+    stages: GeminiCallStage[];
+    lastSeenAt: string;
+}
+
+export interface MinuteBucket {
+    /** Start of the minute, as an ISO timestamp. */
+    minute: string;
+    calls: number;
+    errors: number;
+}
+
+export interface SlowPincode {
+    pincode: string;
+    calls: number;
+    totalMs: number;
+    maxMs: number;
+}
+
+/** Validation outcomes of successful extraction calls for one pincode, or overall. */
+export interface ValidationCounts {
+    accepted: number;
+    repaired: number;
+    rejected: number;
+}
+
+export interface PincodeValidation extends ValidationCounts {
+    pincode: string;
+    /** The most recent recorded rejection reasons, newest last. */
+    rejections: string[];
+}
+
+export interface TelemetrySummary {
+    calls: number;
+    errors: number;
+    errorRate: number;
+    stages: StageLatency[];
+    errorGroups: ErrorGroup[];
+    /** The most recent minutes that saw calls, oldest first, with empty minutes filled in. */
+    callsPerMinute: MinuteBucket[];
+    /** Average over the span between the first and last call. */
+    averageCallsPerMinute: number;
+    slowestPincodes: SlowPincode[];
+    validation: ValidationCounts;
+    /** Pincodes whose extractions had entries rejected, most rejections first. */
+    rejectingPincodes: PincodeValidation[];
+}
+
+const STAGES: GeminiCallStage[] = ['grounding', 'extraction'];
+const MINUTE_MS = 60_000;
+const MINUTE_BUCKET_COUNT = 15;
+const SLOWEST_PINCODE_COUNT = 10;
+const REJECTING_PINCODE_COUNT = 10;
+const REJECTIONS_PER_PINCODE = 5;
+
+export const filterTelemetry = (entries: GeminiCallTelemetry[], filter: TelemetryFilter) => {
+    const search = filter.search.trim().toLowerCase();
+    return entries.filter(entry =>
+        (filter.stage === 'all' || entry.stage === filter.stage)
+        && (filter.status === 'all' || entry.status === filter.status)
+        && (!search || entry.pincode.includes(search) || (entry.errorMessage ?? '').toLowerCase().includes(search))
+    );
+};
+
+/** Nearest-rank percentile of an ascending list. */
+const percentile = (sorted: number[], p: number) =>
+    sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+
+// Messages often end with request-specific details; the first line is what repeats across calls.
+const errorKey = (message?: string) => (message ?? 'Unknown error').split('\n')[0].trim().slice(0, 200);
+
+const summarizeStage = (entries: GeminiCallTelemetry[], stage: GeminiCallStage): StageLatency => {
+    const stageEntries = entries.filter(entry => entry.stage === stage);
+    const durations = stageEntries.map(entry => entry.durationMs).sort((a, b) => a - b);
+    return {
+        stage,
+        calls: stageEntries.length,
+        errors: stageEntries.filter(entry => entry.status === 'error').length,
+        p50Ms: percentile(durations, 50),
+        p90Ms: percentile(durations, 90),
+        p99Ms: percentile(durations, 99),
+        maxMs: durations.length > 0 ? durations[durations.length - 1] : 0,
+    };
+};
+
+const groupErrors = (entries: GeminiCallTelemetry[]): ErrorGroup[] => {
+    const groups = new Map<string, ErrorGroup>();
+    for (const entry of entries) {
+        if (entry.status !== 'error') continue;
+        const message = errorKey(entry.errorMessage);
+        const group = groups.get(message) ?? { message, count: 0, rate: 0, stages: [], lastSeenAt: entry.startedAt };
+        group.count++;
+        if (!group.stages.includes(entry.stage)) group.stages.push(entry.stage);
+        if (entry.startedAt > group.lastSeenAt) group.lastSeenAt = entry.startedAt;
+        groups.set(message, group);
+    }
+    return Array.from(groups.values(), group => ({ ...group, rate: group.count / entries.length }))
+        .sort((a, b) => b.count - a.count);
+};
+
+const bucketByMinute = (entries: GeminiCallTelemetry[]): MinuteBucket[] => {
+    const counts = new Map<number, MinuteBucket>();
+    let latest = 0;
+    for (const entry of entries) {
+        const minute = Math.floor(Date.parse(entry.startedAt) / MINUTE_MS) * MINUTE_MS;
+        if (Number.isNaN(minute)) continue;
+        latest = Math.max(latest, minute);
+        const bucket = counts.get(minute) ?? { minute: new Date(minute).toISOString(), calls: 0, errors: 0 };
+        bucket.calls++;
+        if (entry.status === 'error') bucket.errors++;
+        counts.set(minute, bucket);
+    }
+    if (counts.size === 0) return [];
+
+    const buckets: MinuteBucket[] = [];
+    for (let i = MINUTE_BUCKET_COUNT - 1; i >= 0; i--) {
+        const minute = latest - i * MINUTE_MS;
+        buckets.push(counts.get(minute) ?? { minute: new Date(minute).toISOString(), calls: 0, errors: 0 });
+    }
+    return buckets;
+};
+
+/** Pincodes ranked by total time spent across both stages and all attempts. */
+const rankSlowestPincodes = (entries: GeminiCallTelemetry[]): SlowPincode[] => {
+    const byPincode = new Map<string, SlowPincode>();
+    for (const entry of entries) {
+        const stats = byPincode.get(entry.pincode) ?? { pincode: entry.pincode, calls: 0, totalMs: 0, maxMs: 0 };
+        stats.calls++;
+        stats.totalMs += entry.durationMs;
+        stats.maxMs = Math.max(stats.maxMs, entry.durationMs);
+        byPincode.set(entry.pincode, stats);
+    }
+    return Array.from(byPincode.values())
+        .sort((a, b) => b.totalMs - a.totalMs)
+        .slice(0, SLOWEST_PINCODE_COUNT);
+};
+
+/** Records from before validation existed have no counts and are skipped. */
+const summarizeValidation = (entries: GeminiCallTelemetry[]) => {
+    const total: ValidationCounts = { accepted: 0, repaired: 0, rejected: 0 };
+    const byPincode = new Map<string, PincodeValidation>();
+    for (const entry of entries) {
+        if (entry.stage !== 'extraction' || entry.acceptedCount === undefined) continue;
+        const stats = byPincode.get(entry.pincode) ?? { pincode: entry.pincode, accepted: 0, repaired: 0, rejected: 0, rejections: [] };
+        for (const counts of [total, stats]) {
+            counts.accepted += entry.acceptedCount;
+            counts.repaired += entry.repairedCount ?? 0;
+            counts.rejected += entry.rejectedCount ?? 0;
+        }
+        stats.rejections = [...stats.rejections, ...(entry.rejections ?? [])].slice(-REJECTIONS_PER_PINCODE);
+        byPincode.set(entry.pincode, stats);
+    }
+    const rejectingPincodes = Array.from(byPincode.values())
+        .filter(stats => stats.rejected > 0)
+        .sort((a, b) => b.rejected - a.rejected)
+        .slice(0, REJECTING_PINCODE_COUNT);
+    return { validation: total, rejectingPincodes };
+};
+
+export const summarizeTelemetry = (entries: GeminiCallTelemetry[]): TelemetrySummary => {
+    const errors = entries.filter(entry => entry.status === 'error').length;
+    let first = Infinity;
+    let last = -Infinity;
+    for (const entry of entries) {
+        const time = Date.parse(entry.startedAt);
+        if (Number.isNaN(time)) continue;
+        first = Math.min(first, time);
+        last = Math.max(last, time);
+    }
+    const spanMinutes = last > first ? (last - first) / MINUTE_MS : 0;
+
+    return {
+        calls: entries.length,
+        errors,
+        errorRate: entries.length > 0 ? errors / entries.length : 0,
+        stages: STAGES.map(stage => summarizeStage(entries, stage)),
+        errorGroups: groupErrors(entries),
+        callsPerMinute: bucketByMinute(entries),
+        averageCallsPerMinute: spanMinutes >= 1 ? entries.length / spanMinutes : entries.length,
+        slowestPincodes: rankSlowestPincodes(entries),
+        ...summarizeValidation(entries),
+    };
+};
+
+const TELEMETRY_COLUMNS: { header: string; value: (entry: GeminiCallTelemetry) => string | number | undefined }[] = [
+    { header: 'ID', value: entry => entry.id },
+    { header: 'Started At', value: entry => entry.startedAt },
+    { header: 'Pincode', value: entry => entry.pincode },
+    { header: 'Stage', value: entry => entry.stage },
+    { header: 'Model', value: entry => entry.model },
+    { header: 'Status', value: entry => entry.status },
+    { header: 'Duration (ms)', value: entry => Math.round(entry.durationMs) },
+    { header: 'Prompt Chars', value: entry => entry.promptChars },
+    { header: 'Response Chars', value: entry => entry.responseChars },
+    { header: 'Input Tokens', value: entry => entry.inputTokens },
+    { header: 'Output Tokens', value: entry => entry.outputTokens },
+    { header: 'Grounding Tokens', value: entry => entry.groundingTokens },
+    { header: 'Accepted', value: entry => entry.acceptedCount },
+    { header: 'Repaired', value: entry => entry.repairedCount },
+    { header: 'Rejected', value: entry => entry.rejectedCount },
+    { header: 'Rejections', value: entry => entry.rejections?.join('; ') },
+    { header: 'Error Kind', value: entry => entry.errorKind },
+    { header: 'Error', value: entry => entry.errorMessage },
+];
+
+export const buildTelemetryCsv = (entries: GeminiCallTelemetry[]) => [
+    TELEMETRY_COLUMNS.map(column => escapeCsvField(column.header)).join(','),
+    ...entries.map(entry => TELEMETRY_COLUMNS.map(column => escapeCsvField(column.value(entry))).join(',')),
+].join('\r\n');
+
+export const downloadTelemetry = (entries: GeminiCallTelemetry[], format: 'csv' | 'json') => {
+    const dateStamp = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') {
+        downloadFile(buildTelemetryCsv(entries), `Gemini_Telemetry_${dateStamp}.csv`, 'text/csv;charset=utf-8;');
+    } else {
+        downloadFile(JSON.stringify(entries, null, 2), `Gemini_Telemetry_${dateStamp}.json`, 'application/json');
+    }
+};
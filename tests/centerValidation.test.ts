@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { isGoogleMapsLink, validateExtractedCenters } from '../services/centerValidation';
+
+test('Google Maps links on Google hosts are accepted', () => {
+    assert.ok(isGoogleMapsLink('https://www.google.com/maps/place/AIIMS+Delhi'));
+    assert.ok(isGoogleMapsLink('https://www.google.co.in/maps/search/?api=1&query=ct+scan'));
+    assert.ok(isGoogleMapsLink('https://maps.google.com/?q=28.56,77.21'));
+    assert.ok(isGoogleMapsLink('https://maps.app.goo.gl/abc123'));
+});
+
+test('look-alike hosts are rejected', () => {
+    assert.equal(isGoogleMapsLink('https://www.google.evil.com/maps/place/x'), false);
+    assert.equal(isGoogleMapsLink('https://google.com.attacker.io/maps/place/x'), false);
+    assert.equal(isGoogleMapsLink('https://maps.google.com.attacker.io/?q=x'), false);
+    assert.equal(isGoogleMapsLink('https://notgoogle.com/maps/place/x'), false);
+    assert.equal(isGoogleMapsLink('https://www.google.com/search?q=maps'), false);
+});
+
+test('a look-alike Maps link is replaced with a search link', () => {
+    const { centers, repairedCount } = validateExtractedCenters([{
+        centerName: 'City Diagnostics',
+        address: 'MG Road, Panaji',
+        contactDetails: '0832 222 3333',
+        doctorDetails: [],
+        googleMapsLink: 'https://google.com.attacker.io/maps/place/x',
+        reasoning: 'Lists CT scans.',
+        confidence: 0.8,
+        ownership: 'standalone',
+        website: 42,
+    }]);
+    assert.equal(repairedCount, 1);
+    assert.ok(centers[0].googleMapsLink.startsWith('https://www.google.com/maps/search/'));
+    assert.equal(centers[0].confidence, 0.8);
+    assert.equal(centers[0].ownership, 'standalone');
+    assert.equal(centers[0].website, undefined, 'wrongly typed optional fields are dropped');
+});
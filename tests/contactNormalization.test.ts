@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parseIndianPhoneNumbers } from '../services/contactNormalization';
+
+const typeOf = (contactDetails: string) => parseIndianPhoneNumbers(contactDetails).map(({ e164, type }) => ({ e164, type }));
+
+test('landlines whose STD code starts with 6-9 are not classified as mobiles', () => {
+    assert.deepEqual(typeOf('+91-80-2222-3333'), [{ e164: '+918022223333', type: 'unknown' }]);
+    assert.deepEqual(typeOf('079 2658 1234'), [{ e164: '+917926581234', type: 'unknown' }]);
+});
+
+test('ten-digit numbers written as mobiles are mobiles', () => {
+    assert.deepEqual(typeOf('98765 43210, +91 9876543211, +919876543212'), [
+        { e164: '+919876543210', type: 'mobile' },
+        { e164: '+919876543211', type: 'mobile' },
+        { e164: '+919876543212', type: 'mobile' },
+    ]);
+});
+
+test('landline and toll-free numbers keep their types', () => {
+    assert.deepEqual(typeOf('011 4150 2000; 1800 123 4567'), [
+        { e164: '+911141502000', type: 'landline' },
+        { e164: '+9118001234567', type: 'toll-free' },
+    ]);
+});
@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { classifyDiscoveryError } from '../services/discoveryErrors';
+
+test('network failures that mention blocking are transient', () => {
+    assert.equal(classifyDiscoveryError(new Error('Network request blocked by proxy')).kind, 'transient');
+    assert.equal(classifyDiscoveryError(new Error('Request timed out: connection blocked')).kind, 'transient');
+});
+
+test('only SDK block reasons are classified as safety blocks', () => {
+    assert.equal(classifyDiscoveryError(new Error('Candidate finished with SAFETY')).kind, 'safety');
+    assert.equal(classifyDiscoveryError(new Error('Response blockReason: PROHIBITED_CONTENT')).kind, 'safety');
+    assert.equal(classifyDiscoveryError(new Error('Request blocked')).kind, 'unknown');
+});
+
+test('values JSON cannot serialize are classified instead of throwing', () => {
+    assert.equal(classifyDiscoveryError(undefined).kind, 'unknown');
+    assert.equal(classifyDiscoveryError(undefined).message, 'undefined');
+    assert.equal(classifyDiscoveryError(Symbol('boom')).message, 'Symbol(boom)');
+    assert.equal(classifyDiscoveryError(() => {}).kind, 'unknown');
+});
+
+test('circular objects are classified instead of throwing', () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+    assert.equal(classifyDiscoveryError(circular).message, '[object Object]');
+});
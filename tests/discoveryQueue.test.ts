@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { DiscoveryJob, createDiscoveryQueue } from '../services/discoveryQueue';
+
+const createDeferred = () => {
+    let resolve = () => {};
+    const promise = new Promise<void>(done => {
+        resolve = done;
+    });
+    return { promise, resolve };
+};
+
+test('a job dequeued while in flight keeps its concurrency slot until it settles', async () => {
+    const started: string[] = [];
+    const settled: string[] = [];
+    const calls = new Map<string, ReturnType<typeof createDeferred>>();
+    const queue = createDiscoveryQueue({
+        run: (job: DiscoveryJob) => {
+            started.push(job.pincode);
+            const call = createDeferred();
+            calls.set(job.pincode, call);
+            return call.promise;
+        },
+        onRetry: () => {},
+        onFailure: () => {},
+        onSettled: job => settled.push(job.pincode),
+    }, { maxConcurrent: 1, requestsPerMinute: 100 });
+
+    queue.enqueue([{ stateName: 'Goa', cityName: 'North Goa', pincode: '403001', priority: 0 }]);
+    assert.deepEqual(started, ['403001']);
+    const [inFlight] = queue.getSnapshot().activeJobs;
+
+    queue.dequeueCity('Goa', 'North Goa');
+    queue.enqueue([{ stateName: 'Goa', cityName: 'South Goa', pincode: '403601', priority: 0 }]);
+    assert.deepEqual(started, ['403001'], 'the next job waits for the cancelled call');
+    assert.equal(queue.isActive(inFlight), false);
+
+    calls.get('403001')!.resolve();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    assert.deepEqual(started, ['403001', '403601']);
+    assert.deepEqual(settled, [], 'the cancelled job is not reported as settled');
+
+    calls.get('403601')!.resolve();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    assert.deepEqual(settled, ['403601']);
+});
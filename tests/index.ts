@@ -0,0 +1,7 @@
+// Entry point for `npm test`: bundled like the CLI, then run with Node's built-in test runner.
+import './centerValidation.test';
+import './contactNormalization.test';
+import './discoveryErrors.test';
+import './discoveryQueue.test';
+import './mockProvider.test';
+import './postalDirectory.test';
@@ -0,0 +1,21 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { findAndAnalyzeCTScans } from '../services/discoveryProvider';
+import { DEFAULT_PROMPT_CONFIG } from '../services/promptConfig';
+import { getDiscoveryProvider } from '../services/providerRegistry';
+
+const provider = getDiscoveryProvider('mock');
+
+test('the mock provider finds the fixture centers for a pincode', async () => {
+    const centers = await findAndAnalyzeCTScans(provider, { pincode: '110001', district: 'New Delhi', stateName: 'Delhi' }, DEFAULT_PROMPT_CONFIG);
+    assert.ok(centers.length > 0, 'expected centers for 110001');
+    for (const center of centers) {
+        assert.ok(center.centerName.trim(), 'every center has a name');
+        assert.ok(center.googleMapsLink, `${center.centerName} has a Maps link`);
+    }
+});
+
+test('the mock provider reports no centers for an empty fixture', async () => {
+    const centers = await findAndAnalyzeCTScans(provider, { pincode: '110003', district: 'New Delhi', stateName: 'Delhi' }, DEFAULT_PROMPT_CONFIG);
+    assert.deepEqual(centers, []);
+});
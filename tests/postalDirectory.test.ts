@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { CityData } from '../types';
+import { joinPostalDirectory, parsePostalDirectory } from '../services/postalDirectory';
+
+const directory = parsePostalDirectory({
+    header: ['officename', 'pincode', 'officetype', 'districtname', 'statename'],
+    rows: [
+        ['Raipur H.O', '492001', 'H.O', 'RAIPUR', 'CHHATTISGARH'],
+        ['Puducherry H.O', '605001', 'H.O', 'PONDICHERRY', 'PUDUCHERRY'],
+        ['Durg H.O', '491001', 'H.O', 'DURG', 'CHHATTISGARH'],
+    ],
+});
+
+const city = (name: string, stateName: string, codes: string[]): CityData => ({
+    name,
+    stateName,
+    pincodes: codes.map(code => ({ code, status: 'pending' })),
+    status: 'idle',
+    centerIds: [],
+    currentPincodeIndex: 0,
+    centersFound: 0,
+    population: 0,
+});
+
+test('CSV state spellings match India Post state names', () => {
+    const { summary, groupedCities } = joinPostalDirectory({
+        Chattisgarh: [city('RAIPUR', 'Chattisgarh', ['492001'])],
+        Pondicherry: [city('PONDICHERRY', 'Pondicherry', ['605001'])],
+    }, directory);
+    assert.equal(summary.joined, 2);
+    assert.equal(summary.stateMismatches, 0);
+    assert.equal(summary.districtMismatches, 0);
+    assert.equal(groupedCities.Chattisgarh[0].pincodes[0].postal?.mismatch, undefined);
+});
+
+test('a pincode listed under another district is still flagged', () => {
+    const { summary } = joinPostalDirectory({ Chattisgarh: [city('RAIPUR', 'Chattisgarh', ['491001'])] }, directory);
+    assert.equal(summary.stateMismatches, 0);
+    assert.equal(summary.districtMismatches, 1);
+});
@@ -5,25 +5,244 @@ export interface ScanCenter {
   doctorDetails: string[];
   googleMapsLink: string;
   reasoning: string;
+  coordinates?: GeoCoordinates;
+  /** Model-assessed likelihood, 0–1, that the center has a working CT scanner. */
+  confidence?: number;
+  evidenceCategory?: EvidenceCategory;
+  /** Web and Maps pages the grounding call cited for this center. */
+  sources?: GroundingSource[];
+  /** Imaging the center offers besides CT. */
+  modalities?: ImagingModality[];
+  ctScanner?: CtScannerDetails;
+  /** Opening hours as stated, e.g. "Mon-Sat 8am-9pm". */
+  operatingHours?: string;
+  isOpen24x7?: boolean;
+  ownership?: OwnershipType;
+  /** Chain or brand the center belongs to, if any. */
+  chainName?: string;
+  website?: string;
+  email?: string;
 }
 
-export type PincodeStatus = 'pending' | 'scanning' | 'scanned' | 'error' | 'retrying';
+export type ImagingModality = 'MRI' | 'X-ray' | 'Ultrasound' | 'PET-CT';
 
+export type OwnershipType = 'government' | 'private-chain' | 'standalone';
+
+/** Only what the source states; either field may be missing. */
+export interface CtScannerDetails {
+  sliceCount?: number;
+  manufacturer?: string;
+}
+
+/** How the CT evidence was found, strongest first. */
+export type EvidenceCategory = 'explicit-listing' | 'equipment-mention' | 'inferred';
+
+export interface GroundingSource {
+  uri: string;
+  title?: string;
+}
+
+export interface GeoCoordinates {
+  lat: number;
+  lng: number;
+}
+
+export interface CenterSighting {
+  pincode: string;
+  cityName: string;
+  stateName: string;
+  foundAt: string;
+  /** Missing on sightings recorded before prompts were versioned. */
+  provenance?: DiscoveryProvenance;
+}
+
+/** The prompt configuration and models that produced a result. */
+export interface DiscoveryProvenance {
+  /** `name@version` of the prompt configuration. */
+  promptVersion: string;
+  groundingModel: string;
+  extractionModel: string;
+  /**
+   * Set when extraction re-ran on a cached grounding answer: the prompt version that produced
+   * that answer, which may differ from `promptVersion`.
+   */
+  replayedFrom?: string;
+}
+
+export type ReviewStatus = 'unreviewed' | 'verified' | 'rejected' | 'needs-call';
+
+/** Center fields a reviewer can correct by hand. */
+export type EditableCenterField = 'centerName' | 'address' | 'contactDetails' | 'doctorDetails';
+
+export interface CenterReview {
+  status: ReviewStatus;
+  notes: string;
+  /** When the status or notes last changed. */
+  reviewedAt?: string;
+  /** Fields corrected by hand; later discovery never overwrites them. */
+  editedFields: EditableCenterField[];
+  editedAt?: string;
+}
+
+/** Canonical, de-duplicated center shared by every district that surfaced it. */
+export interface RegisteredCenter extends ScanCenter {
+  id: string;
+  sightings: CenterSighting[];
+  firstSeenAt: string;
+  updatedAt: string;
+  /** Missing until someone reviews or edits the center. */
+  review?: CenterReview;
+}
+
+export type CenterRegistry = Record<string, RegisteredCenter>;
+
+export type DiscoveryErrorKind =
+  | 'quota'        // 429 / RESOURCE_EXHAUSTED: trips the shared circuit breaker
+  | 'transient'    // 5xx, timeouts, network failures: retried with backoff
+  | 'safety'       // the model refused or the response was blocked: not retried
+  | 'bad-request'  // 400-class problems with the request itself: not retried
+  | 'auth'         // missing or rejected API key: not retried
+  | 'parse'        // the extraction answer was not valid JSON: kept for re-extraction, not retried
+  | 'unknown';     // anything unrecognized: retried with backoff
+
+/** `skipped` pincodes were left out by the district's scan plan; they are not scanned unless someone overrides it. */
+export type PincodeStatus = 'pending' | 'queued' | 'scanning' | 'scanned' | 'error' | 'retrying' | 'skipped';
+
+/** One finished scan attempt for a pincode. Counts are only set when the scan succeeded. */
+export interface PincodeScanAttempt {
+  attempt: number;
+  finishedAt: string;
+  outcome: 'scanned' | 'error';
+  error?: string;
+  errorKind?: DiscoveryErrorKind;
+  /** Centers the provider returned. */
+  returnedCount?: number;
+  /** Centers that were new to the district. */
+  keptCount?: number;
+  /** Centers merged away as duplicates, within the response or of centers the district already had. */
+  droppedCount?: number;
+  /** Prompt version and models of a successful scan. */
+  provenance?: DiscoveryProvenance;
+}
+
+/**
+ * Attribution fields are optional so data saved before they existed still loads; a pincode
+ * that was never scanned simply has none of them.
+ */
 export interface Pincode {
   code: string;
   status: PincodeStatus;
+  /** When the last successful scan finished. */
+  scannedAt?: string;
+  /** Scan attempts made for this pincode, across runs. */
+  attemptCount?: number;
+  lastError?: string;
+  lastErrorKind?: DiscoveryErrorKind;
+  returnedCount?: number;
+  keptCount?: number;
+  droppedCount?: number;
+  /** Canonical IDs of every center the last successful scan resolved to, including ones the district already had. */
+  centerIds?: string[];
+  /** Most recent attempts, oldest first. */
+  history?: PincodeScanAttempt[];
+  /** From the India Post directory, once one has been imported and lists this pincode. */
+  postal?: PincodePostalInfo;
+}
+
+/** The most senior post office a pincode has: head offices are in cities, branch offices are rural. */
+export type PostOfficeType = 'head' | 'sub' | 'branch';
+
+export interface PincodePostalInfo {
+  /** The main office's name without its H.O/S.O/B.O suffix. */
+  locality: string;
+  officeType: PostOfficeType;
+  /** Every office under the pincode, as named in the directory. */
+  offices: string[];
+  taluk?: string;
+  /** District and state as the directory names them; they may be spelled differently from the CSV. */
+  district: string;
+  state: string;
+  coordinates?: GeoCoordinates;
+  /** Set when the directory places the pincode in another district or state than the CSV does. */
+  mismatch?: 'district' | 'state';
+}
+
+export type ScanPlanAction = 'expand' | 'skip';
+
+/** What was decided after a group's latest wave settled, and by whom. */
+export interface ScanPlanDecision {
+  action: ScanPlanAction;
+  by: 'planner' | 'user';
+  /** New centers per successfully scanned pincode in the judged wave; unset for user decisions. */
+  yield?: number;
+  decidedAt: string;
+}
+
+/** Pincodes close enough to return mostly the same centers. */
+export interface ScanPlanGroup {
+  id: string;
+  label: string;
+  pincodes: string[];
+  /** Pincodes released for scanning so far, one list per wave; the first wave is the representatives. */
+  waves: string[][];
+  decisions: ScanPlanDecision[];
+}
+
+export interface ScanPlan {
+  /** Minimum new centers per scanned pincode for a group to keep expanding. */
+  yieldThreshold: number;
+  createdAt: string;
+  groups: ScanPlanGroup[];
 }
 
 export type CityDiscoveryStatus = 'idle' | 'running' | 'stopped' | 'completed' | 'error';
 
+/**
+ * A center as one run reported it. The registry keeps the first values it saw, so runs keep
+ * their own copy to show what changed.
+ */
+export interface RunCenterSnapshot {
+  centerId: string;
+  centerName: string;
+  address: string;
+  contactDetails: string;
+}
+
+export type DiscoveryRunTrigger = 'manual' | 'scheduled';
+
+/** One pass over a district's pincodes. */
+export interface DiscoveryRun {
+  /** Counts up from 1 within a district. */
+  number: number;
+  trigger: DiscoveryRunTrigger;
+  startedAt: string;
+  /** Set once every pincode has been scanned; archived runs without it were cut short. */
+  completedAt?: string;
+  /** Filled in when the run is archived; the current run reads these from the district. */
+  scannedPincodes?: number;
+  totalPincodes?: number;
+  centers: RunCenterSnapshot[];
+}
+
 export interface CityData {
   name: string;
   stateName: string;
   pincodes: Pincode[];
   status: CityDiscoveryStatus;
-  results: ScanCenter[];
+  /** IDs into the global `CenterRegistry`, in discovery order. */
+  centerIds: string[];
   currentPincodeIndex: number;
   centersFound: number;
   population: number;
   error?: string;
+  /** The run `centerIds` belongs to; missing until the district is discovered from scratch. */
+  currentRun?: DiscoveryRun;
+  /** Earlier runs, oldest first. */
+  runHistory?: DiscoveryRun[];
+  /** Days between automatic re-scans once the district is complete; unset means on demand only. */
+  rescanIntervalDays?: number;
+  /** When a postal directory was last joined; pincodes without `postal` since then are not in it. */
+  postalJoinedAt?: string;
+  /** Set while the district is scanned in planning mode; replaced when it is discovered from scratch. */
+  scanPlan?: ScanPlan;
 }